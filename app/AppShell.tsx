@@ -3,6 +3,7 @@
 import { ReactNode } from 'react'
 import { SessionManagerProvider, useSessionManager } from './SessionManager'
 import { SettingsProvider } from './SettingsContext'
+import { VaultProvider } from './VaultContext'
 import dynamic from 'next/dynamic'
 
 // Dynamically import TerminalSession to avoid SSR issues
@@ -89,9 +90,11 @@ function AppShellInner({ homeContent }: AppShellProps) {
 export default function AppShell({ homeContent }: AppShellProps) {
   return (
     <SettingsProvider>
-      <SessionManagerProvider>
-        <AppShellInner homeContent={homeContent} />
-      </SessionManagerProvider>
+      <VaultProvider>
+        <SessionManagerProvider>
+          <AppShellInner homeContent={homeContent} />
+        </SessionManagerProvider>
+      </VaultProvider>
     </SettingsProvider>
   )
 }
@@ -2,19 +2,35 @@
 
 import { useEffect, useState, useRef } from 'react'
 import { useSessionManager } from './SessionManager'
+import { useVault } from './VaultContext'
 import SettingsModal from './SettingsModal'
+import KeysScreen from './KeysScreen'
+import { withBasePath, webSocketUrl } from '@/lib/base-path'
+import { isPasswordPrompt } from '@/lib/connection-protocol'
 
 interface SSHHost {
   name: string
   hostname?: string
   user?: string
   port?: string
+  proxyJump?: string
+  dynamicForwards?: string[]
+  remoteForwards?: string[]
+  certificateFiles?: string[]
+  forwardAgent?: string // yes, no or an agent socket
 }
 
-type Tab = 'hosts' | 'sessions'
+const DEFAULT_CERTIFICATE = '~/.ssh/id_ed25519-cert.pub'
+
+function forwardsAgent(host: SSHHost): boolean {
+  return !!host.forwardAgent && host.forwardAgent.toLowerCase() !== 'no'
+}
+
+type Tab = 'hosts' | 'sessions' | 'keys'
 
 export default function HomeScreen() {
   const { sessions, createSession, switchToSession, closeSession } = useSessionManager()
+  const vault = useVault()
 
   const [hosts, setHosts] = useState<SSHHost[]>([])
   const [activeTab, setActiveTab] = useState<Tab>('hosts')
@@ -22,6 +38,9 @@ export default function HomeScreen() {
   const [showEditModal, setShowEditModal] = useState(false)
   const [showDeleteModal, setShowDeleteModal] = useState(false)
   const [newHost, setNewHost] = useState<SSHHost>({ name: '', hostname: '', user: '', port: '' })
+  // Saved in the credential vault rather than the SSH config
+  const [newHostRemember, setNewHostRemember] = useState(false)
+  const [editHostRemember, setEditHostRemember] = useState(false)
   const [editHost, setEditHost] = useState<SSHHost & { oldName: string }>({ oldName: '', name: '', hostname: '', user: '', port: '' })
   const [deleteHostName, setDeleteHostName] = useState('')
   const [saving, setSaving] = useState(false)
@@ -35,7 +54,9 @@ export default function HomeScreen() {
   // Password prompt state
   const [showPasswordModal, setShowPasswordModal] = useState(false)
   const [passwordPrompt, setPasswordPrompt] = useState('')
+  const [passwordHop, setPasswordHop] = useState('') // user@host:port asking, maybe a jump host
   const [passwordInput, setPasswordInput] = useState('')
+  const [rememberPassword, setRememberPassword] = useState(false)
   const [connectingHost, setConnectingHost] = useState<string | null>(null)
   const [connecting, setConnecting] = useState(false)
   const wsRef = useRef<WebSocket | null>(null)
@@ -54,26 +75,46 @@ export default function HomeScreen() {
     setConnecting(true)
     setConnectingHost(host)
 
-    const wsUrl = `ws://${window.location.hostname}:3001?host=${encodeURIComponent(host)}`
+    const wsUrl = webSocketUrl(`/ws?host=${encodeURIComponent(host)}`)
     const ws = new WebSocket(wsUrl)
     wsRef.current = ws
 
     ws.onmessage = (event) => {
       try {
         const parsed = JSON.parse(event.data)
-        if (parsed.type === 'auth:password-required') {
+        if (parsed.type === 'auth:password-required' && isPasswordPrompt(parsed) && !vault.rememberedHosts.includes(host)) {
           // Password needed - show modal
+          setRememberPassword(false)
           setConnecting(false)
-          const prompt = parsed.prompts?.[0]?.prompt || 'Password:'
-          setPasswordPrompt(prompt)
+          setPasswordPrompt([parsed.host, parsed.name, parsed.prompts[0].prompt].filter(Boolean).join(' - '))
+          setPasswordHop(parsed.host)
           setShowPasswordModal(true)
           return
         }
+        if (parsed.type === 'auth:password-required' || parsed.type === 'auth:hostkey-unknown' || parsed.type === 'auth:hostkey-changed') {
+          // The terminal page asks everything else: passphrases, codes (which
+          // this test connection would use up) and about the host key
+          // (or shows the warning). It also fills in saved passwords.
+          ws.close()
+          setConnecting(false)
+          setConnectingHost(null)
+          createSession(host)
+          return
+        }
+        if (parsed.type === 'connection:ready') {
+          // Connection succeeded without password
+          ws.close()
+          setConnecting(false)
+          createSession(host)
+          return
+        }
+        if (parsed.type === 'connection:error') {
+          ws.close()
+          setConnecting(false)
+          setConnectingHost(null)
+        }
       } catch {
-        // Got terminal data - connection succeeded without password
-        ws.close()
-        setConnecting(false)
-        createSession(host)
+        // Ignore malformed messages
       }
     }
 
@@ -100,15 +141,18 @@ export default function HomeScreen() {
       password: passwordInput
     }))
 
-    // Store password for the terminal page
-    sessionStorage.setItem(`ssh_password_${connectingHost}`, passwordInput)
+    // The session saves it in the vault once the server accepts it
+    if (rememberPassword) {
+      vault.setRemembered(connectingHost, true).catch(err => console.error('Failed to update vault:', err))
+    }
 
-    // Close test connection and create session
+    // Close test connection and create session, handing it the password for
+    // the hop that asked - the session asks for any others
     wsRef.current.close()
     setShowPasswordModal(false)
     setPasswordInput('')
 
-    createSession(connectingHost)
+    createSession(connectingHost, { [passwordHop]: passwordInput })
     setConnectingHost(null)
   }
 
@@ -130,8 +174,15 @@ export default function HomeScreen() {
   }
 
   const fetchHosts = () => {
-    fetch('/api/hosts')
-      .then(res => res.json())
+    fetch(withBasePath('/api/hosts'))
+      .then(res => {
+        // Session expired or logged out elsewhere
+        if (res.status === 401) {
+          window.location.href = withBasePath('/login')
+          return []
+        }
+        return res.json()
+      })
       .then(data => setHosts(data))
       .catch(err => console.error('Failed to fetch hosts:', err))
   }
@@ -150,7 +201,7 @@ export default function HomeScreen() {
     setError('')
 
     try {
-      const res = await fetch('/api/hosts', {
+      const res = await fetch(withBasePath('/api/hosts'), {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(newHost),
@@ -163,7 +214,9 @@ export default function HomeScreen() {
         return
       }
 
+      if (newHostRemember) await vault.setRemembered(newHost.name.trim(), true)
       setShowAddModal(false)
+      setNewHostRemember(false)
       setNewHost({ name: '', hostname: '', user: '', port: '' })
       fetchHosts()
     } catch (err) {
@@ -183,7 +236,7 @@ export default function HomeScreen() {
     setError('')
 
     try {
-      const res = await fetch('/api/hosts', {
+      const res = await fetch(withBasePath('/api/hosts'), {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(editHost),
@@ -196,6 +249,11 @@ export default function HomeScreen() {
         return
       }
 
+      // A renamed host's saved passwords are forgotten, as they may not fit any more
+      const oldName = editHost.oldName
+      const name = editHost.name.trim()
+      if (oldName !== name && vault.rememberedHosts.includes(oldName)) await vault.setRemembered(oldName, false)
+      if (editHostRemember !== vault.rememberedHosts.includes(name)) await vault.setRemembered(name, editHostRemember)
       setShowEditModal(false)
       setEditHost({ oldName: '', name: '', hostname: '', user: '', port: '' })
       fetchHosts()
@@ -211,7 +269,7 @@ export default function HomeScreen() {
     setError('')
 
     try {
-      const res = await fetch(`/api/hosts?name=${encodeURIComponent(deleteHostName)}`, {
+      const res = await fetch(withBasePath(`/api/hosts?name=${encodeURIComponent(deleteHostName)}`), {
         method: 'DELETE',
       })
 
@@ -222,6 +280,7 @@ export default function HomeScreen() {
         return
       }
 
+      if (vault.rememberedHosts.includes(deleteHostName)) await vault.setRemembered(deleteHostName, false)
       setShowDeleteModal(false)
       setDeleteHostName('')
       fetchHosts()
@@ -239,7 +298,12 @@ export default function HomeScreen() {
       hostname: host.hostname || '',
       user: host.user || '',
       port: host.port || '',
+      dynamicForwards: host.dynamicForwards || [],
+      remoteForwards: host.remoteForwards || [],
+      certificateFiles: host.certificateFiles || [],
+      forwardAgent: host.forwardAgent || '',
     })
+    setEditHostRemember(vault.rememberedHosts.includes(host.name))
     setError('')
     setShowEditModal(true)
   }
@@ -319,7 +383,7 @@ export default function HomeScreen() {
                     </div>
                     <div className="host-info">
                       <span className="host-name">{host.name}</span>
-                      {host.hostname && <span className="host-detail">{host.user ? `${host.user}@` : ''}{host.hostname}{host.port && host.port !== '22' ? `:${host.port}` : ''}</span>}
+                      {host.hostname && <span className="host-detail">{host.user ? `${host.user}@` : ''}{host.hostname}{host.port && host.port !== '22' ? `:${host.port}` : ''}{host.proxyJump && host.proxyJump !== 'none' ? ` via ${host.proxyJump}` : ''}</span>}
                     </div>
                     <div className="host-actions">
                       <button className="action-btn" onClick={(e) => { e.stopPropagation(); openEditModal(host); }} title="Edit">
@@ -428,6 +492,10 @@ export default function HomeScreen() {
           </>
         )}
 
+        {activeTab === 'keys' && (
+          <KeysScreen hosts={hosts.map(host => host.name)} onOpenSettings={() => setShowSettingsModal(true)} />
+        )}
+
       </main>
 
       <nav className="bottom-nav">
@@ -456,6 +524,16 @@ export default function HomeScreen() {
             <span className="nav-badge">{sessions.length}</span>
           )}
         </button>
+        <button
+          className={`nav-btn ${activeTab === 'keys' ? 'active' : ''}`}
+          onClick={() => setActiveTab('keys')}
+        >
+          <svg className="nav-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+            <circle cx="7.5" cy="15.5" r="5.5" />
+            <path d="M11.5 11.5L21 2M16 7l3 3M19 4l2 2" />
+          </svg>
+          <span className="nav-label">Keys</span>
+        </button>
       </nav>
 
       {/* Password Modal */}
@@ -478,6 +556,14 @@ export default function HomeScreen() {
                 autoFocus
               />
             </div>
+            {(vault.status === 'locked' || vault.status === 'unlocked') && (
+              <div className="form-group">
+                <label className="form-toggle">
+                  <span>Remember password</span>
+                  <input type="checkbox" checked={rememberPassword} onChange={e => setRememberPassword(e.target.checked)} />
+                </label>
+              </div>
+            )}
             <div className="modal-actions">
               <button className="btn btn-cancel" onClick={handlePasswordCancel}>
                 Cancel
@@ -556,6 +642,82 @@ export default function HomeScreen() {
               />
             </div>
 
+            <div className="form-group">
+              <label className="form-label">SOCKS Proxy Ports</label>
+              <textarea
+                className="form-input form-textarea"
+                placeholder="1080"
+                rows={2}
+                value={(newHost.dynamicForwards || []).join('\n')}
+                onChange={e => setNewHost({ ...newHost, dynamicForwards: e.target.value.split('\n') })}
+              />
+              <div className="form-hint">DynamicForward, one per line: [bind_address:]port</div>
+            </div>
+
+            <div className="form-group">
+              <label className="form-label">Remote Forwards</label>
+              <textarea
+                className="form-input form-textarea"
+                placeholder="8080 localhost:3000"
+                rows={2}
+                value={(newHost.remoteForwards || []).join('\n')}
+                onChange={e => setNewHost({ ...newHost, remoteForwards: e.target.value.split('\n') })}
+              />
+              <div className="form-hint">RemoteForward, one per line: [bind_address:]port host:port</div>
+            </div>
+
+            <div className="form-group">
+              <label className="form-toggle">
+                <span>Forward SSH agent</span>
+                <input
+                  type="checkbox"
+                  checked={forwardsAgent(newHost)}
+                  onChange={e => setNewHost({ ...newHost, forwardAgent: e.target.checked ? 'yes' : 'no' })}
+                />
+              </label>
+              <div className="form-hint">ForwardAgent: git and ssh on the host can use the keys in this machine&apos;s agent</div>
+            </div>
+
+            <div className="form-group">
+              <label className="form-toggle">
+                <span>Certificate authentication</span>
+                <input
+                  type="checkbox"
+                  checked={(newHost.certificateFiles || []).length > 0}
+                  onChange={e => setNewHost({ ...newHost, certificateFiles: e.target.checked ? [DEFAULT_CERTIFICATE] : [] })}
+                />
+              </label>
+              {(newHost.certificateFiles || []).length > 0 && (
+                <textarea
+                  className="form-input form-textarea form-toggle-details"
+                  placeholder={DEFAULT_CERTIFICATE}
+                  rows={1}
+                  value={newHost.certificateFiles.join('\n')}
+                  onChange={e => setNewHost({ ...newHost, certificateFiles: e.target.value.split('\n') })}
+                />
+              )}
+              <div className="form-hint">CertificateFile, one per line: CA-signed certificates for the host&apos;s keys</div>
+            </div>
+
+            {vault.status !== 'unavailable' && (
+              <div className="form-group">
+                <label className="form-toggle">
+                  <span>Remember password</span>
+                  <input
+                    type="checkbox"
+                    checked={newHostRemember}
+                    disabled={vault.status === 'none'}
+                    onChange={e => setNewHostRemember(e.target.checked)}
+                  />
+                </label>
+                <div className="form-hint">
+                  {vault.status === 'none'
+                    ? 'Set a vault PIN in Settings to save passwords on this device'
+                    : 'Saved encrypted on this device, so reconnecting after a reload doesn\'t ask again'}
+                </div>
+              </div>
+            )}
+
             <div className="modal-actions">
               <button className="btn btn-cancel" onClick={() => setShowAddModal(false)}>
                 Cancel
@@ -620,6 +782,82 @@ export default function HomeScreen() {
               />
             </div>
 
+            <div className="form-group">
+              <label className="form-label">SOCKS Proxy Ports</label>
+              <textarea
+                className="form-input form-textarea"
+                placeholder="1080"
+                rows={2}
+                value={(editHost.dynamicForwards || []).join('\n')}
+                onChange={e => setEditHost({ ...editHost, dynamicForwards: e.target.value.split('\n') })}
+              />
+              <div className="form-hint">DynamicForward, one per line: [bind_address:]port</div>
+            </div>
+
+            <div className="form-group">
+              <label className="form-label">Remote Forwards</label>
+              <textarea
+                className="form-input form-textarea"
+                placeholder="8080 localhost:3000"
+                rows={2}
+                value={(editHost.remoteForwards || []).join('\n')}
+                onChange={e => setEditHost({ ...editHost, remoteForwards: e.target.value.split('\n') })}
+              />
+              <div className="form-hint">RemoteForward, one per line: [bind_address:]port host:port</div>
+            </div>
+
+            <div className="form-group">
+              <label className="form-toggle">
+                <span>Forward SSH agent</span>
+                <input
+                  type="checkbox"
+                  checked={forwardsAgent(editHost)}
+                  onChange={e => setEditHost({ ...editHost, forwardAgent: e.target.checked ? 'yes' : 'no' })}
+                />
+              </label>
+              <div className="form-hint">ForwardAgent: git and ssh on the host can use the keys in this machine&apos;s agent</div>
+            </div>
+
+            <div className="form-group">
+              <label className="form-toggle">
+                <span>Certificate authentication</span>
+                <input
+                  type="checkbox"
+                  checked={(editHost.certificateFiles || []).length > 0}
+                  onChange={e => setEditHost({ ...editHost, certificateFiles: e.target.checked ? [DEFAULT_CERTIFICATE] : [] })}
+                />
+              </label>
+              {(editHost.certificateFiles || []).length > 0 && (
+                <textarea
+                  className="form-input form-textarea form-toggle-details"
+                  placeholder={DEFAULT_CERTIFICATE}
+                  rows={1}
+                  value={editHost.certificateFiles.join('\n')}
+                  onChange={e => setEditHost({ ...editHost, certificateFiles: e.target.value.split('\n') })}
+                />
+              )}
+              <div className="form-hint">CertificateFile, one per line: CA-signed certificates for the host&apos;s keys</div>
+            </div>
+
+            {vault.status !== 'unavailable' && (
+              <div className="form-group">
+                <label className="form-toggle">
+                  <span>Remember password</span>
+                  <input
+                    type="checkbox"
+                    checked={editHostRemember}
+                    disabled={vault.status === 'none'}
+                    onChange={e => setEditHostRemember(e.target.checked)}
+                  />
+                </label>
+                <div className="form-hint">
+                  {vault.status === 'none'
+                    ? 'Set a vault PIN in Settings to save passwords on this device'
+                    : 'Saved encrypted on this device, so reconnecting after a reload doesn\'t ask again'}
+                </div>
+              </div>
+            )}
+
             <div className="modal-actions">
               <button className="btn btn-cancel" onClick={() => setShowEditModal(false)}>
                 Cancel
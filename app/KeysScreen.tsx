@@ -0,0 +1,533 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import { withBasePath, webSocketUrl } from '@/lib/base-path'
+import { PROTOCOL_VERSION, ClientMessage, ServerMessage, AuthPasswordRequiredMessage, AuthHostKeyUnknownMessage, AuthHostKeyChangedMessage, HostKeyDecision } from '@/lib/connection-protocol'
+import AuthPromptModal from './terminal/[host]/AuthPromptModal'
+import HostKeyModal from './terminal/[host]/HostKeyModal'
+
+interface SSHKey {
+  name: string
+  path: string
+  type: string
+  bits: number
+  fingerprint: string
+  comment: string
+  publicKey: string
+  hasPrivateKey: boolean
+  encrypted: boolean
+}
+
+interface KeysScreenProps {
+  hosts: string[] // Host names from the SSH config, to install keys on
+  onOpenSettings: () => void
+}
+
+type KeyType = 'ed25519' | 'rsa'
+
+interface GenerateForm {
+  name: string
+  type: KeyType
+  passphrase: string
+  confirm: string
+  comment: string
+}
+
+// Where installing a key has got to; 'done' and 'failed' carry a message
+interface InstallState {
+  status: 'connecting' | 'installing' | 'done' | 'failed'
+  message?: string
+}
+
+const DEFAULT_NAMES: Record<KeyType, string> = {
+  ed25519: 'id_ed25519',
+  rsa: 'id_rsa',
+}
+
+// ssh-ed25519 -> ED25519, ecdsa-sha2-nistp256 -> ECDSA, as ssh-keygen -l shows them
+function typeName(type: string): string {
+  if (type.includes('ed25519')) return 'ED25519'
+  if (type.startsWith('ecdsa')) return 'ECDSA'
+  if (type === 'ssh-rsa') return 'RSA'
+  if (type === 'ssh-dss') return 'DSA'
+  return type
+}
+
+// The keys in ~/.ssh on this machine: generate new ones, and install one on a
+// host by logging in once with its password, as ssh-copy-id does
+export default function KeysScreen({ hosts, onOpenSettings }: KeysScreenProps) {
+  const [keys, setKeys] = useState<SSHKey[]>([])
+  const [loaded, setLoaded] = useState(false)
+
+  const [showGenerateModal, setShowGenerateModal] = useState(false)
+  const [form, setForm] = useState<GenerateForm>({ name: '', type: 'ed25519', passphrase: '', confirm: '', comment: '' })
+  const [generating, setGenerating] = useState(false)
+  const [error, setError] = useState('')
+
+  const [selectedKey, setSelectedKey] = useState<SSHKey | null>(null)
+  const [copied, setCopied] = useState(false)
+  const [installHost, setInstallHost] = useState('')
+  const [install, setInstall] = useState<InstallState | null>(null)
+  const [authPrompt, setAuthPrompt] = useState<AuthPasswordRequiredMessage | null>(null)
+  const [authError, setAuthError] = useState<string | null>(null)
+  const [hostKeyPrompt, setHostKeyPrompt] = useState<AuthHostKeyUnknownMessage | null>(null)
+  const [hostKeyWarning, setHostKeyWarning] = useState<AuthHostKeyChangedMessage | null>(null)
+  const wsRef = useRef<WebSocket | null>(null)
+
+  const fetchKeys = () => {
+    fetch(withBasePath('/api/keys'))
+      .then(res => {
+        if (res.status === 401) {
+          window.location.href = withBasePath('/login')
+          return []
+        }
+        return res.json()
+      })
+      .then(data => {
+        setKeys(data)
+        setLoaded(true)
+      })
+      .catch(err => console.error('Failed to fetch keys:', err))
+  }
+
+  useEffect(() => {
+    fetchKeys()
+    // An install still logging in ends with the screen
+    return () => wsRef.current?.close()
+  }, [])
+
+  const openGenerateModal = () => {
+    const taken = keys.map(key => key.name)
+    setForm({ name: taken.includes(DEFAULT_NAMES.ed25519) ? '' : DEFAULT_NAMES.ed25519, type: 'ed25519', passphrase: '', confirm: '', comment: '' })
+    setError('')
+    setShowGenerateModal(true)
+  }
+
+  // Switching type carries the default name along, unless one was typed
+  const setType = (type: KeyType) => {
+    const name = Object.values(DEFAULT_NAMES).includes(form.name) || !form.name
+      ? (keys.some(key => key.name === DEFAULT_NAMES[type]) ? '' : DEFAULT_NAMES[type])
+      : form.name
+    setForm({ ...form, type, name })
+  }
+
+  const handleGenerate = async () => {
+    if (!form.name.trim()) {
+      setError('Key name is required')
+      return
+    }
+    if (form.passphrase !== form.confirm) {
+      setError('Passphrases do not match')
+      return
+    }
+
+    setGenerating(true)
+    setError('')
+
+    try {
+      const res = await fetch(withBasePath('/api/keys'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: form.name.trim(), type: form.type, passphrase: form.passphrase, comment: form.comment }),
+      })
+
+      const data = await res.json()
+
+      if (!res.ok) {
+        setError(data.error || 'Failed to generate key')
+        return
+      }
+
+      setShowGenerateModal(false)
+      fetchKeys()
+      setSelectedKey(data)
+    } catch (err) {
+      setError('Failed to generate key')
+    } finally {
+      setGenerating(false)
+    }
+  }
+
+  const openKey = (key: SSHKey) => {
+    setSelectedKey(key)
+    setCopied(false)
+    setInstall(null)
+    setInstallHost(prev => prev || hosts[0] || '')
+  }
+
+  const closeKey = () => {
+    stopInstall()
+    setSelectedKey(null)
+  }
+
+  const copyPublicKey = async () => {
+    try {
+      await navigator.clipboard.writeText(selectedKey.publicKey)
+      setCopied(true)
+    } catch {
+      // Clipboard needs HTTPS away from localhost; the text can still be selected
+      setCopied(false)
+    }
+  }
+
+  const send = (message: ClientMessage) => {
+    wsRef.current?.send(JSON.stringify(message))
+  }
+
+  const finishInstall = (state: InstallState) => {
+    setInstall(state)
+    setAuthPrompt(null)
+    setAuthError(null)
+    setHostKeyPrompt(null)
+    const ws = wsRef.current
+    wsRef.current = null
+    ws?.close()
+  }
+
+  const stopInstall = () => {
+    const ws = wsRef.current
+    wsRef.current = null
+    ws?.close()
+    setAuthPrompt(null)
+    setAuthError(null)
+    setHostKeyPrompt(null)
+    setHostKeyWarning(null)
+  }
+
+  // Log in to the host with a password on a connection of its own, then ask the
+  // server to append the key to authorized_keys there
+  const startInstall = () => {
+    if (!selectedKey || !installHost) return
+    stopInstall()
+    const key = selectedKey
+    const host = installHost
+    setInstall({ status: 'connecting' })
+
+    const ws = new WebSocket(webSocketUrl(`/ws?host=${encodeURIComponent(host)}&login=password`))
+    wsRef.current = ws
+
+    ws.onopen = () => send({ type: 'hello', version: PROTOCOL_VERSION })
+
+    ws.onmessage = (event) => {
+      if (wsRef.current !== ws || typeof event.data !== 'string') return
+      let message: ServerMessage
+      try {
+        message = JSON.parse(event.data)
+      } catch {
+        return
+      }
+      switch (message.type) {
+        case 'auth:password-required':
+          setAuthPrompt(message)
+          return
+        case 'auth:failed':
+          if (message.retry) {
+            setAuthError(message.error)
+          } else {
+            finishInstall({ status: 'failed', message: message.error })
+          }
+          return
+        case 'auth:hostkey-unknown':
+          setHostKeyPrompt(message)
+          return
+        case 'auth:hostkey-changed':
+          setHostKeyWarning(message)
+          return
+        case 'connection:ready':
+          setAuthPrompt(null)
+          setInstall({ status: 'installing' })
+          send({ type: 'key:install', publicKey: key.publicKey })
+          return
+        case 'key:installed':
+          if (message.error) {
+            finishInstall({ status: 'failed', message: message.error })
+          } else if (message.added) {
+            finishInstall({ status: 'done', message: `Installed on ${host}. Logging in with ${key.name} no longer needs a password.` })
+          } else {
+            finishInstall({ status: 'done', message: `${host} already has this key.` })
+          }
+          return
+        case 'connection:error':
+          finishInstall({ status: 'failed', message: message.error })
+          return
+      }
+    }
+
+    ws.onclose = () => {
+      if (wsRef.current !== ws) return
+      finishInstall({ status: 'failed', message: 'Connection closed' })
+    }
+  }
+
+  const handleAuthSubmit = (responses: string[]) => {
+    setAuthPrompt(null)
+    setAuthError(null)
+    send({ type: 'auth:password', responses })
+  }
+
+  const handleHostKeyDecision = (decision: HostKeyDecision) => {
+    setHostKeyPrompt(null)
+    send({ type: 'auth:hostkey', decision })
+  }
+
+  const installing = install?.status === 'connecting' || install?.status === 'installing'
+
+  return (
+    <>
+      <div className="page-header">
+        <div className="page-icon">
+          <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <circle cx="7.5" cy="15.5" r="5.5" />
+            <path d="M11.5 11.5L21 2M16 7l3 3M19 4l2 2" />
+          </svg>
+        </div>
+        <div className="page-header-text">
+          <h1 className="title">Keys</h1>
+          <p className="subtitle">SSH keys on this device</p>
+        </div>
+        <button className="settings-btn" onClick={onOpenSettings} title="Settings">
+          <svg width="22" height="22" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <circle cx="12" cy="12" r="3" />
+            <path d="M19.4 15a1.65 1.65 0 0 0 .33 1.82l.06.06a2 2 0 0 1 0 2.83 2 2 0 0 1-2.83 0l-.06-.06a1.65 1.65 0 0 0-1.82-.33 1.65 1.65 0 0 0-1 1.51V21a2 2 0 0 1-2 2 2 2 0 0 1-2-2v-.09A1.65 1.65 0 0 0 9 19.4a1.65 1.65 0 0 0-1.82.33l-.06.06a2 2 0 0 1-2.83 0 2 2 0 0 1 0-2.83l.06-.06a1.65 1.65 0 0 0 .33-1.82 1.65 1.65 0 0 0-1.51-1H3a2 2 0 0 1-2-2 2 2 0 0 1 2-2h.09A1.65 1.65 0 0 0 4.6 9a1.65 1.65 0 0 0-.33-1.82l-.06-.06a2 2 0 0 1 0-2.83 2 2 0 0 1 2.83 0l.06.06a1.65 1.65 0 0 0 1.82.33H9a1.65 1.65 0 0 0 1-1.51V3a2 2 0 0 1 2-2 2 2 0 0 1 2 2v.09a1.65 1.65 0 0 0 1 1.51 1.65 1.65 0 0 0 1.82-.33l.06-.06a2 2 0 0 1 2.83 0 2 2 0 0 1 0 2.83l-.06.06a1.65 1.65 0 0 0-.33 1.82V9a1.65 1.65 0 0 0 1.51 1H21a2 2 0 0 1 2 2 2 2 0 0 1-2 2h-.09a1.65 1.65 0 0 0-1.51 1z" />
+          </svg>
+        </button>
+      </div>
+      <div className="panel">
+        <div className="host-list">
+          {loaded && keys.length === 0 && (
+            <div className="empty-state">
+              <p>No keys in ~/.ssh</p>
+              <p style={{ fontSize: '0.85rem' }}>Generate one to log in to hosts without a password</p>
+            </div>
+          )}
+          {keys.map((key) => (
+            <div key={key.name} className="host-item" onClick={() => openKey(key)}>
+              <div className="host-item-icon">
+                <svg width="22" height="22" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                  <circle cx="7.5" cy="15.5" r="5.5" />
+                  <path d="M11.5 11.5L21 2M16 7l3 3M19 4l2 2" />
+                </svg>
+              </div>
+              <div className="host-info">
+                <span className="host-name">{key.name}</span>
+                <span className="host-detail">
+                  {typeName(key.type)}{key.bits ? ` ${key.bits}` : ''} · {key.fingerprint}
+                </span>
+                {key.comment && <span className="host-detail">{key.comment}</span>}
+              </div>
+              {key.encrypted && (
+                <div className="host-actions" title="Passphrase protected">
+                  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="#888" strokeWidth="2">
+                    <rect x="3" y="11" width="18" height="11" rx="2" />
+                    <path d="M7 11V7a5 5 0 0 1 10 0v4" />
+                  </svg>
+                </div>
+              )}
+            </div>
+          ))}
+          <button className="host-btn add" onClick={openGenerateModal}>
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <line x1="12" y1="5" x2="12" y2="19" />
+              <line x1="5" y1="12" x2="19" y2="12" />
+            </svg>
+            Generate Key
+          </button>
+        </div>
+      </div>
+
+      {/* Generate Key Modal */}
+      {showGenerateModal && (
+        <div className="modal-overlay" onClick={() => !generating && setShowGenerateModal(false)}>
+          <div className="modal" onClick={e => e.stopPropagation()}>
+            <h2 className="modal-title">Generate SSH Key</h2>
+
+            {error && <div className="modal-error">{error}</div>}
+
+            <div className="form-group">
+              <label className="form-label">Type</label>
+              <select className="form-input" value={form.type} onChange={e => setType(e.target.value as KeyType)}>
+                <option value="ed25519">ED25519 (recommended)</option>
+                <option value="rsa">RSA 3072, for older servers</option>
+              </select>
+            </div>
+
+            <div className="form-group">
+              <label className="form-label">Name *</label>
+              <input
+                type="text"
+                className="form-input"
+                placeholder={DEFAULT_NAMES[form.type]}
+                value={form.name}
+                onChange={e => setForm({ ...form, name: e.target.value })}
+                autoCapitalize="off"
+                autoCorrect="off"
+              />
+              <div className="form-hint">Saved as ~/.ssh/{form.name || DEFAULT_NAMES[form.type]} and .pub</div>
+            </div>
+
+            <div className="form-group">
+              <label className="form-label">Passphrase</label>
+              <input
+                type="password"
+                className="form-input"
+                placeholder="None"
+                autoComplete="new-password"
+                value={form.passphrase}
+                onChange={e => setForm({ ...form, passphrase: e.target.value })}
+              />
+            </div>
+
+            {form.passphrase && (
+              <div className="form-group">
+                <label className="form-label">Confirm passphrase</label>
+                <input
+                  type="password"
+                  className="form-input"
+                  autoComplete="new-password"
+                  value={form.confirm}
+                  onChange={e => setForm({ ...form, confirm: e.target.value })}
+                />
+              </div>
+            )}
+
+            <div className="form-group">
+              <label className="form-label">Comment</label>
+              <input
+                type="text"
+                className="form-input"
+                placeholder="user@this-device"
+                value={form.comment}
+                onChange={e => setForm({ ...form, comment: e.target.value })}
+              />
+            </div>
+
+            <div className="modal-actions">
+              <button className="btn btn-cancel" onClick={() => setShowGenerateModal(false)} disabled={generating}>
+                Cancel
+              </button>
+              <button className="btn btn-primary" onClick={handleGenerate} disabled={generating}>
+                {generating ? 'Generating...' : 'Generate'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Key Details Modal, hidden while the install asks something */}
+      {selectedKey && !authPrompt && !hostKeyPrompt && !hostKeyWarning && (
+        <div className="modal-overlay" onClick={closeKey}>
+          <div className="modal" onClick={e => e.stopPropagation()}>
+            <h2 className="modal-title">{selectedKey.name}</h2>
+
+            <div className="key-details">
+              <span>{typeName(selectedKey.type)}{selectedKey.bits ? ` ${selectedKey.bits}` : ''}</span>
+              <code>{selectedKey.fingerprint}</code>
+              {selectedKey.comment && <span>{selectedKey.comment}</span>}
+              <span>
+                {selectedKey.path}
+                {!selectedKey.hasPrivateKey ? ' (public key only)' : selectedKey.encrypted ? ' (passphrase protected)' : ''}
+              </span>
+            </div>
+
+            <div className="form-group">
+              <label className="form-label">Public key</label>
+              <textarea
+                className="form-input form-textarea key-public"
+                readOnly
+                rows={4}
+                value={selectedKey.publicKey}
+                onFocus={e => e.target.select()}
+              />
+            </div>
+
+            <div className="form-group">
+              <label className="form-label">Install on host</label>
+              {hosts.length === 0 ? (
+                <div className="form-hint">Add a remote host first</div>
+              ) : (
+                <div className="key-install">
+                  <select className="form-input" value={installHost} onChange={e => setInstallHost(e.target.value)} disabled={installing}>
+                    {hosts.map(host => <option key={host} value={host}>{host}</option>)}
+                  </select>
+                  <button className="btn btn-primary" onClick={startInstall} disabled={installing || !installHost}>
+                    {installing ? 'Installing...' : 'Install'}
+                  </button>
+                </div>
+              )}
+              {install?.status === 'connecting' && <div className="form-hint">Logging in to {installHost}...</div>}
+              {install?.status === 'installing' && <div className="form-hint">Adding the key to ~/.ssh/authorized_keys...</div>}
+              {install?.status === 'done' && <div className="form-hint key-install-done">{install.message}</div>}
+              {install?.status === 'failed' && <div className="modal-error key-install-error">{install.message}</div>}
+              <div className="form-hint">Logs in once with the host&apos;s password and appends the key to ~/.ssh/authorized_keys, like ssh-copy-id</div>
+            </div>
+
+            <div className="modal-actions">
+              <button className="btn btn-cancel" onClick={closeKey}>
+                Close
+              </button>
+              <button className="btn btn-primary" onClick={copyPublicKey}>
+                {copied ? 'Copied' : 'Copy'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {authPrompt && (
+        <AuthPromptModal
+          request={authPrompt}
+          error={authError}
+          onSubmit={handleAuthSubmit}
+          onCancel={() => finishInstall({ status: 'failed', message: 'Cancelled' })}
+        />
+      )}
+
+      <HostKeyModal
+        unknown={hostKeyPrompt}
+        changed={hostKeyWarning}
+        onDecision={handleHostKeyDecision}
+        onDismiss={() => setHostKeyWarning(null)}
+      />
+
+      <style jsx>{`
+        .key-details {
+          display: flex;
+          flex-direction: column;
+          gap: 4px;
+          background: rgba(0, 0, 0, 0.3);
+          border-radius: 12px;
+          padding: 12px 14px;
+          margin-bottom: 16px;
+          color: #888;
+          font-size: 0.8rem;
+          word-break: break-all;
+        }
+        .key-details code {
+          color: #fff;
+        }
+        .key-public {
+          font-family: monospace;
+          font-size: 0.75rem;
+          word-break: break-all;
+        }
+        .key-install {
+          display: flex;
+          gap: 10px;
+        }
+        .key-install select {
+          flex: 1;
+          min-width: 0;
+        }
+        .key-install .btn {
+          flex: 0 0 auto;
+        }
+        .key-install-done {
+          color: #4ade80;
+        }
+        .key-install-error {
+          margin: 8px 0 0;
+        }
+      `}</style>
+    </>
+  )
+}
@@ -1,12 +1,13 @@
 'use client'
 
 import { useEffect } from 'react'
+import { withBasePath } from '@/lib/base-path'
 
 export function ServiceWorkerRegistration() {
   useEffect(() => {
     if ('serviceWorker' in navigator) {
       navigator.serviceWorker
-        .register('/sw.js')
+        .register(withBasePath('/sw.js'))
         .then((registration) => {
           console.log('SW registered:', registration.scope)
         })
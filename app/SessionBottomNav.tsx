@@ -1,13 +1,16 @@
 'use client'
 
 import { useSessionManager } from './SessionManager'
+import SignalIndicator from './terminal/[host]/SignalIndicator'
 
 interface SessionBottomNavProps {
   sessionId: string
   showExplorer: boolean
   showTerminal: boolean
+  showPreview: boolean
   onToggleExplorer: () => void
   onToggleTerminal: () => void
+  onTogglePreview: () => void
   hidden?: boolean
 }
 
@@ -15,8 +18,10 @@ export default function SessionBottomNav({
   sessionId,
   showExplorer,
   showTerminal,
+  showPreview,
   onToggleExplorer,
   onToggleTerminal,
+  onTogglePreview,
   hidden = false,
 }: SessionBottomNavProps) {
   const { switchToSession } = useSessionManager()
@@ -43,10 +48,20 @@ export default function SessionBottomNav({
         <span className="nav-label">Terminal</span>
       </button>
 
+      <button
+        className={`nav-btn ${showPreview ? 'active' : ''}`}
+        onClick={onTogglePreview}
+      >
+        <GlobeIcon />
+        <span className="nav-label">Preview</span>
+      </button>
+
       <button className="nav-btn" onClick={goHome}>
         <HomeIcon />
         <span className="nav-label">Sessions</span>
       </button>
+
+      <SignalIndicator hidden={hidden} />
     </nav>
   )
 }
@@ -68,6 +83,16 @@ function TerminalIcon() {
   )
 }
 
+function GlobeIcon() {
+  return (
+    <svg className="nav-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <circle cx="12" cy="12" r="10" />
+      <line x1="2" y1="12" x2="22" y2="12" />
+      <path d="M12 2a15.3 15.3 0 0 1 4 10 15.3 15.3 0 0 1-4 10 15.3 15.3 0 0 1-4-10 15.3 15.3 0 0 1 4-10z" />
+    </svg>
+  )
+}
+
 function HomeIcon() {
   return (
     <svg className="nav-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
@@ -1,6 +1,6 @@
 'use client'
 
-import { createContext, useContext, useState, useCallback, ReactNode } from 'react'
+import { createContext, useContext, useState, useCallback, useRef, ReactNode } from 'react'
 
 export interface SessionInfo {
   id: string
@@ -15,8 +15,10 @@ interface SessionManagerContextType {
   sessions: SessionInfo[]
   // Currently active session ID (null means home screen)
   activeSessionId: string | null
-  // Create a new session for a host
-  createSession: (host: string) => string
+  // Create a new session for a host, with passwords typed already by the hop they're for
+  createSession: (host: string, passwords?: Record<string, string>) => string
+  // The passwords given to createSession, kept only in memory until the session closes
+  sessionPasswords: (sessionId: string) => Record<string, string> | null
   // Switch to a session (or null for home)
   switchToSession: (sessionId: string | null) => void
   // Close a session
@@ -42,9 +44,11 @@ let sessionCounter = 0
 export function SessionManagerProvider({ children }: { children: ReactNode }) {
   const [sessions, setSessions] = useState<SessionInfo[]>([])
   const [activeSessionId, setActiveSessionId] = useState<string | null>(null)
+  const passwordsRef = useRef<Map<string, Record<string, string>>>(new Map())
 
-  const createSession = useCallback((host: string) => {
+  const createSession = useCallback((host: string, passwords?: Record<string, string>) => {
     const id = `session-${Date.now()}-${++sessionCounter}`
+    if (passwords) passwordsRef.current.set(id, passwords)
     const displayName = host === 'local' ? 'Local' : host
 
     const newSession: SessionInfo = {
@@ -60,12 +64,17 @@ export function SessionManagerProvider({ children }: { children: ReactNode }) {
     return id
   }, [])
 
+  const sessionPasswords = useCallback((sessionId: string) => {
+    return passwordsRef.current.get(sessionId) || null
+  }, [])
+
   const switchToSession = useCallback((sessionId: string | null) => {
     setActiveSessionId(sessionId)
   }, [])
 
   const closeSession = useCallback((sessionId: string) => {
     setSessions(prev => prev.filter(s => s.id !== sessionId))
+    passwordsRef.current.delete(sessionId)
     // If closing the active session, go back to home
     if (activeSessionId === sessionId) {
       setActiveSessionId(null)
@@ -85,6 +94,7 @@ export function SessionManagerProvider({ children }: { children: ReactNode }) {
       sessions,
       activeSessionId,
       createSession,
+      sessionPasswords,
       switchToSession,
       closeSession,
       updateSessionWorkspace,
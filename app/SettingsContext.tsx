@@ -5,6 +5,7 @@ import { createContext, useContext, useState, useEffect, ReactNode } from 'react
 interface Settings {
   terminalFontSize: number
   editorFontSize: number
+  vaultAutoLock: number // Minutes idle before the credential vault locks; 0 for never
 }
 
 interface SettingsContextType {
@@ -15,6 +16,7 @@ interface SettingsContextType {
 const defaultSettings: Settings = {
   terminalFontSize: 10,
   editorFontSize: 10,
+  vaultAutoLock: 5,
 }
 
 const SettingsContext = createContext<SettingsContextType | null>(null)
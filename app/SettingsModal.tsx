@@ -2,6 +2,17 @@
 
 import { useState, useEffect } from 'react'
 import { useSettings } from './SettingsContext'
+import { useVault } from './VaultContext'
+import { withBasePath } from '@/lib/base-path'
+import { MIN_PIN_LENGTH } from '@/lib/credential-vault'
+
+const AUTO_LOCK_OPTIONS = [
+  { minutes: 1, label: 'Lock after 1 minute' },
+  { minutes: 5, label: 'Lock after 5 minutes' },
+  { minutes: 15, label: 'Lock after 15 minutes' },
+  { minutes: 60, label: 'Lock after 1 hour' },
+  { minutes: 0, label: 'Lock only on reload' },
+]
 
 interface SettingsModalProps {
   isOpen: boolean
@@ -10,31 +21,82 @@ interface SettingsModalProps {
 
 export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
   const { settings, updateSettings } = useSettings()
+  const vault = useVault()
 
   // Local state for live preview
   const [terminalFontSize, setTerminalFontSize] = useState(settings.terminalFontSize)
   const [editorFontSize, setEditorFontSize] = useState(settings.editorFontSize)
+  const [vaultAutoLock, setVaultAutoLock] = useState(settings.vaultAutoLock)
+
+  // Vault actions take effect right away, not on Save
+  const [pin, setPin] = useState('')
+  const [pinConfirm, setPinConfirm] = useState('')
+  const [vaultError, setVaultError] = useState('')
+  const [confirmForget, setConfirmForget] = useState(false)
 
   // Sync local state when settings change or modal opens
   useEffect(() => {
     if (isOpen) {
       setTerminalFontSize(settings.terminalFontSize)
       setEditorFontSize(settings.editorFontSize)
+      setVaultAutoLock(settings.vaultAutoLock)
+      setPin('')
+      setPinConfirm('')
+      setVaultError('')
+      setConfirmForget(false)
     }
-  }, [isOpen, settings.terminalFontSize, settings.editorFontSize])
+  }, [isOpen, settings.terminalFontSize, settings.editorFontSize, settings.vaultAutoLock])
 
   const handleSave = () => {
     updateSettings({
       terminalFontSize,
       editorFontSize,
+      vaultAutoLock,
     })
     onClose()
   }
 
+  const handleSetPin = async () => {
+    if (pin.length < MIN_PIN_LENGTH) {
+      setVaultError(`The PIN needs at least ${MIN_PIN_LENGTH} characters`)
+      return
+    }
+    if (pin !== pinConfirm) {
+      setVaultError('The PINs don\'t match')
+      return
+    }
+    try {
+      await vault.setUp(pin)
+      setPin('')
+      setPinConfirm('')
+      setVaultError('')
+    } catch (err) {
+      setVaultError(err.message || 'Failed to set up the vault')
+    }
+  }
+
+  const handleForget = async () => {
+    if (!confirmForget) {
+      setConfirmForget(true)
+      return
+    }
+    setConfirmForget(false)
+    await vault.forget()
+  }
+
+  const handleLogout = async () => {
+    try {
+      await fetch(withBasePath('/api/auth/logout'), { method: 'POST' })
+    } finally {
+      window.location.href = withBasePath('/login')
+    }
+  }
+
   const handleCancel = () => {
     // Reset to original values
     setTerminalFontSize(settings.terminalFontSize)
     setEditorFontSize(settings.editorFontSize)
+    setVaultAutoLock(settings.vaultAutoLock)
     onClose()
   }
 
@@ -85,6 +147,80 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
               </span>
             </div>
           </div>
+
+          <div className="setting-item">
+            <div className="setting-header">
+              <label className="setting-label">Credential Vault</label>
+              <span className="setting-value">
+                {vault.status === 'unlocked' ? 'Unlocked' : vault.status === 'locked' ? 'Locked' : 'Off'}
+              </span>
+            </div>
+            {vault.status === 'unavailable' && (
+              <p className="setting-hint">Saving passwords needs HTTPS (or localhost) in this browser</p>
+            )}
+            {vault.status === 'none' && (
+              <>
+                <p className="setting-hint">
+                  Save SSH passwords and key passphrases on this device, encrypted with a PIN
+                </p>
+                <input
+                  type="password"
+                  className="form-input"
+                  placeholder="New PIN"
+                  autoComplete="new-password"
+                  value={pin}
+                  onChange={e => setPin(e.target.value)}
+                />
+                <input
+                  type="password"
+                  className="form-input"
+                  placeholder="Confirm PIN"
+                  autoComplete="new-password"
+                  value={pinConfirm}
+                  onChange={e => setPinConfirm(e.target.value)}
+                  onKeyDown={e => e.key === 'Enter' && handleSetPin()}
+                />
+                <button className="btn btn-primary" onClick={handleSetPin} disabled={!pin || !pinConfirm}>
+                  Set PIN
+                </button>
+              </>
+            )}
+            {(vault.status === 'locked' || vault.status === 'unlocked') && (
+              <>
+                <p className="setting-hint">
+                  {vault.rememberedHosts.length > 0
+                    ? `Remembering logins for ${vault.rememberedHosts.join(', ')}`
+                    : 'Turn on "Remember password" for a host to save its login'}
+                </p>
+                <select
+                  className="form-input"
+                  value={vaultAutoLock}
+                  onChange={e => setVaultAutoLock(parseInt(e.target.value, 10))}
+                >
+                  {AUTO_LOCK_OPTIONS.map(option => (
+                    <option key={option.minutes} value={option.minutes}>{option.label}</option>
+                  ))}
+                </select>
+                <div className="setting-buttons">
+                  {vault.status === 'unlocked' ? (
+                    <button className="btn btn-cancel" onClick={vault.lock}>Lock Now</button>
+                  ) : (
+                    <button className="btn btn-cancel" onClick={() => vault.requestUnlock('Enter the vault PIN')}>Unlock</button>
+                  )}
+                  <button className="btn btn-danger" onClick={handleForget}>
+                    {confirmForget ? 'Tap Again to Erase' : 'Forget All'}
+                  </button>
+                </div>
+              </>
+            )}
+            {vaultError && <div className="modal-error">{vaultError}</div>}
+          </div>
+
+          <div className="setting-item">
+            <button className="btn btn-cancel logout-btn" onClick={handleLogout}>
+              Log Out
+            </button>
+          </div>
         </div>
 
         <div className="modal-actions">
@@ -164,6 +300,19 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
             border: none;
             box-shadow: 0 2px 8px rgba(74, 124, 255, 0.4);
           }
+          .setting-hint {
+            color: #888;
+            font-size: 0.85rem;
+            line-height: 1.4;
+            margin: 0;
+          }
+          .setting-buttons {
+            display: flex;
+            gap: 12px;
+          }
+          .logout-btn {
+            color: #ff8888;
+          }
           .preview-box {
             background: rgba(0, 0, 0, 0.3);
             border: 1px solid rgba(255, 255, 255, 0.1);
@@ -1,13 +1,14 @@
 'use client'
 
-import { useState, useCallback, useEffect } from 'react'
+import { useState, useCallback, useEffect, useMemo } from 'react'
 import dynamic from 'next/dynamic'
 import { ConnectionProvider } from './terminal/[host]/ConnectionContext'
-import { PasswordContext } from './terminal/[host]/PasswordContext'
 import { useKeyboardHeight } from './terminal/[host]/useKeyboardHeight'
 import { getFileType, FileType } from './terminal/[host]/fileTypes'
 import { useSessionManager } from './SessionManager'
+import { useVault } from './VaultContext'
 import SessionBottomNav from './SessionBottomNav'
+import PortToast from './terminal/[host]/PortToast'
 
 const TerminalPanel = dynamic(() => import('./terminal/[host]/TerminalPanel'), {
   ssr: false,
@@ -19,6 +20,11 @@ const FileExplorer = dynamic(() => import('./terminal/[host]/FileExplorer'), {
   loading: () => <LoadingScreen message="Loading explorer..." />,
 })
 
+const PreviewPanel = dynamic(() => import('./terminal/[host]/PreviewPanel'), {
+  ssr: false,
+  loading: () => <LoadingScreen message="Loading preview..." />,
+})
+
 const EditorArea = dynamic(() => import('./terminal/[host]/EditorArea'), {
   ssr: false,
   loading: () => <LoadingScreen message="Loading editor..." />,
@@ -59,10 +65,15 @@ interface TerminalSessionProps {
 }
 
 export default function TerminalSession({ sessionId, host, isActive }: TerminalSessionProps) {
-  const { updateSessionWorkspace } = useSessionManager()
+  const { updateSessionWorkspace, sessionPasswords } = useSessionManager()
+  const { credentialsFor } = useVault()
+  const credentials = useMemo(() => credentialsFor(host), [credentialsFor, host])
 
-  // Cached password for this host session
-  const [cachedPassword, setCachedPassword] = useState<string | null>(null)
+  // Cached passwords for this host session by hop, starting with one typed on the home screen
+  const [cachedPasswords, setCachedPasswords] = useState<Record<string, string>>(() => sessionPasswords(sessionId) || {})
+  const cachePassword = useCallback((hop: string, password: string) => {
+    setCachedPasswords(prev => ({ ...prev, [hop]: password }))
+  }, [])
 
   // Workspace state
   const [workspacePath, setWorkspacePath] = useState<string>('')
@@ -75,6 +86,8 @@ export default function TerminalSession({ sessionId, host, isActive }: TerminalS
   // Panel visibility
   const [showExplorer, setShowExplorer] = useState(false)
   const [showTerminal, setShowTerminal] = useState(false)
+  const [showPreview, setShowPreview] = useState(false)
+  const [previewRequest, setPreviewRequest] = useState<{ port: number } | null>(null) // A port to open in the preview
 
   // Fullscreen state
   const [explorerFullscreen, setExplorerFullscreen] = useState(false)
@@ -160,6 +173,7 @@ export default function TerminalSession({ sessionId, host, isActive }: TerminalS
       setExplorerFullscreen(true)
       setShowTerminal(false)
       setTerminalFullscreen(false)
+      setShowPreview(false)
     }
   }, [showExplorer])
 
@@ -172,177 +186,217 @@ export default function TerminalSession({ sessionId, host, isActive }: TerminalS
       setTerminalFullscreen(true)
       setShowExplorer(false)
       setExplorerFullscreen(false)
+      setShowPreview(false)
     }
   }, [showTerminal])
 
+  // The preview is always fullscreen
+  const togglePreview = useCallback(() => {
+    if (!showPreview) {
+      setShowExplorer(false)
+      setExplorerFullscreen(false)
+      setShowTerminal(false)
+      setTerminalFullscreen(false)
+    }
+    setShowPreview(!showPreview)
+  }, [showPreview])
+
+  const openPreview = useCallback((port: number) => {
+    setShowExplorer(false)
+    setExplorerFullscreen(false)
+    setShowTerminal(false)
+    setTerminalFullscreen(false)
+    setShowPreview(true)
+    setPreviewRequest({ port })
+  }, [])
+
+  // Don't load the preview panel until it's first used
+  const [previewOpened, setPreviewOpened] = useState(false)
+  useEffect(() => {
+    if (showPreview) setPreviewOpened(true)
+  }, [showPreview])
+
   // Determine layout mode - but only if session is active
   const isExplorerFullscreen = isActive && showExplorer && explorerFullscreen
   const isTerminalFullscreen = isActive && showTerminal && terminalFullscreen
+  const isPreviewVisible = isActive && showPreview
 
   // Keyboard height detection
   const { keyboardHeight, viewportHeight, isKeyboardVisible } = useKeyboardHeight()
 
   return (
-    <ConnectionProvider host={host} password={cachedPassword}>
-      <PasswordContext.Provider value={{ password: cachedPassword, setPassword: setCachedPassword }}>
-        <div className="session-container">
-          {/* Content area - above bottom nav */}
-          <div className="content-area">
-            {/* File Explorer - Fullscreen (always mounted, hidden when not active) */}
-            <div className={`explorer-panel fullscreen ${isExplorerFullscreen ? 'visible' : 'hidden'}`}>
-              <FileExplorer
-                workspacePath={workspacePath}
-                isFullscreen={explorerFullscreen}
-                onSelectWorkspace={handleSelectWorkspace}
-                onOpenFile={handleOpenFile}
-              />
-            </div>
+    <ConnectionProvider host={host} sessionId={sessionId} passwords={cachedPasswords} onPasswordChange={cachePassword} credentials={credentials}>
+      <div className="session-container">
+        {/* Content area - above bottom nav */}
+        <div className="content-area">
+          {/* File Explorer - Fullscreen (always mounted, hidden when not active) */}
+          <div className={`explorer-panel fullscreen ${isExplorerFullscreen ? 'visible' : 'hidden'}`}>
+            <FileExplorer
+              workspacePath={workspacePath}
+              isFullscreen={explorerFullscreen}
+              onSelectWorkspace={handleSelectWorkspace}
+              onOpenFile={handleOpenFile}
+            />
+          </div>
+
+          {/* Terminal Panel - Fullscreen (always mounted, hidden when not active) */}
+          <div className={`terminal-fullscreen ${isTerminalFullscreen ? 'visible' : 'hidden'}`}>
+            <TerminalPanel
+              host={host}
+              workspacePath={workspacePath}
+              isVisible={isTerminalFullscreen && isActive}
+              isKeyboardVisible={isKeyboardVisible}
+            />
+          </div>
+
+          {/* Web Preview - Fullscreen (mounted once opened, so the page survives switching panels) */}
+          <div className={`preview-fullscreen ${isPreviewVisible ? 'visible' : 'hidden'}`}>
+            {previewOpened && <PreviewPanel host={host} request={previewRequest} />}
+          </div>
 
-            {/* Terminal Panel - Fullscreen (always mounted, hidden when not active) */}
-            <div className={`terminal-fullscreen ${isTerminalFullscreen ? 'visible' : 'hidden'}`}>
-              <TerminalPanel
+          {/* Editor Area - Hidden when another panel is fullscreen */}
+          {!isExplorerFullscreen && !isTerminalFullscreen && !isPreviewVisible && (
+            <div className="editor-area">
+              <EditorArea
+                files={openFiles}
+                activeIndex={activeFileIndex}
+                onFileChange={handleFileChange}
+                onFileSaved={handleFileSaved}
+                onCloseFile={handleCloseFile}
+                onSelectFile={setActiveFileIndex}
                 host={host}
                 workspacePath={workspacePath}
-                isVisible={isTerminalFullscreen && isActive}
-                isKeyboardVisible={isKeyboardVisible}
+                keyboardVisible={isKeyboardVisible}
               />
             </div>
+          )}
+        </div>
 
-            {/* Editor Area - Hidden when explorer or terminal is fullscreen */}
-            {!isExplorerFullscreen && !isTerminalFullscreen && (
-              <div className="editor-area">
-                <EditorArea
-                  files={openFiles}
-                  activeIndex={activeFileIndex}
-                  onFileChange={handleFileChange}
-                  onFileSaved={handleFileSaved}
-                  onCloseFile={handleCloseFile}
-                  onSelectFile={setActiveFileIndex}
-                  host={host}
-                  workspacePath={workspacePath}
-                  keyboardVisible={isKeyboardVisible}
-                />
-              </div>
-            )}
-          </div>
+        {/* Only the session on screen offers its new ports */}
+        <PortToast onOpenPreview={openPreview} hidden={!isActive || isPreviewVisible} />
 
-          {/* Bottom nav - hidden when keyboard is visible */}
-          <SessionBottomNav
-            sessionId={sessionId}
-            showExplorer={showExplorer}
-            showTerminal={showTerminal}
-            onToggleExplorer={toggleExplorer}
-            onToggleTerminal={toggleTerminal}
-            hidden={isKeyboardVisible}
-          />
-        </div>
+        {/* Bottom nav - hidden when keyboard is visible */}
+        <SessionBottomNav
+          sessionId={sessionId}
+          showExplorer={showExplorer}
+          showTerminal={showTerminal}
+          showPreview={showPreview}
+          onToggleExplorer={toggleExplorer}
+          onToggleTerminal={toggleTerminal}
+          onTogglePreview={togglePreview}
+          hidden={isKeyboardVisible}
+        />
+      </div>
 
-        <style jsx>{`
-          .session-container {
-            --bottom-nav-height: calc(56px + env(safe-area-inset-bottom, 0px));
-            height: ${isKeyboardVisible ? `${viewportHeight}px` : '100dvh'};
-            background: #1a1a2e;
-            display: flex;
-            flex-direction: column;
-            overflow: hidden;
-          }
-          .content-area {
-            flex: 1;
-            display: flex;
-            flex-direction: column;
-            overflow: hidden;
+      <style jsx>{`
+        .session-container {
+          --bottom-nav-height: calc(56px + env(safe-area-inset-bottom, 0px));
+          height: ${isKeyboardVisible ? `${viewportHeight}px` : '100dvh'};
+          background: #1a1a2e;
+          display: flex;
+          flex-direction: column;
+          overflow: hidden;
+        }
+        .content-area {
+          flex: 1;
+          display: flex;
+          flex-direction: column;
+          overflow: hidden;
+          position: relative;
+          min-height: 0;
+          padding-bottom: ${isKeyboardVisible ? '0' : 'var(--bottom-nav-height)'};
+        }
+        .explorer-panel {
+          position: absolute;
+          top: 0;
+          left: 0;
+          right: 0;
+          bottom: ${isKeyboardVisible ? '0' : 'var(--bottom-nav-height)'};
+          background: #16213e;
+          z-index: 10;
+          display: flex;
+          flex-direction: column;
+        }
+        .explorer-panel.fullscreen {
+          flex: 1;
+          min-height: 0;
+        }
+        .explorer-panel.hidden {
+          visibility: hidden;
+          pointer-events: none;
+          z-index: -1;
+        }
+        .explorer-panel.visible {
+          visibility: visible;
+          pointer-events: auto;
+          z-index: 10;
+        }
+        .editor-area {
+          flex: 1;
+          display: flex;
+          flex-direction: column;
+          overflow: hidden;
+        }
+        .terminal-fullscreen,
+        .preview-fullscreen {
+          position: absolute;
+          top: 0;
+          left: 0;
+          right: 0;
+          bottom: ${isKeyboardVisible ? '0' : 'var(--bottom-nav-height)'};
+          display: flex;
+          flex-direction: column;
+          min-height: 0;
+          z-index: 10;
+        }
+        .terminal-fullscreen.hidden,
+        .preview-fullscreen.hidden {
+          visibility: hidden;
+          pointer-events: none;
+          z-index: -1;
+        }
+        .terminal-fullscreen.visible,
+        .preview-fullscreen.visible {
+          visibility: visible;
+          pointer-events: auto;
+          z-index: 10;
+        }
+
+        @media (min-width: 768px) {
+          .explorer-panel:not(.fullscreen) {
             position: relative;
-            min-height: 0;
-            padding-bottom: ${isKeyboardVisible ? '0' : 'var(--bottom-nav-height)'};
+            width: 280px;
+            max-width: 280px;
           }
-          .explorer-panel {
-            position: absolute;
-            top: 0;
-            left: 0;
-            right: 0;
-            bottom: ${isKeyboardVisible ? '0' : 'var(--bottom-nav-height)'};
-            background: #16213e;
-            z-index: 10;
-            display: flex;
-            flex-direction: column;
-          }
-          .explorer-panel.fullscreen {
-            flex: 1;
-            min-height: 0;
-          }
-          .explorer-panel.hidden {
-            visibility: hidden;
-            pointer-events: none;
-            z-index: -1;
-          }
-          .explorer-panel.visible {
-            visibility: visible;
-            pointer-events: auto;
-            z-index: 10;
+          .content-area {
+            flex-direction: row;
+            flex-wrap: wrap;
           }
           .editor-area {
             flex: 1;
-            display: flex;
-            flex-direction: column;
-            overflow: hidden;
           }
-          .terminal-fullscreen {
-            position: absolute;
-            top: 0;
-            left: 0;
-            right: 0;
-            bottom: ${isKeyboardVisible ? '0' : 'var(--bottom-nav-height)'};
-            display: flex;
-            flex-direction: column;
-            min-height: 0;
-            z-index: 10;
-          }
-          .terminal-fullscreen.hidden {
-            visibility: hidden;
-            pointer-events: none;
-            z-index: -1;
+        }
+
+        @media (orientation: landscape) and (max-height: 500px),
+               (orientation: landscape) and (min-width: 1024px) {
+          .session-container {
+            --left-nav-width: calc(64px + env(safe-area-inset-left, 0px));
           }
-          .terminal-fullscreen.visible {
-            visibility: visible;
-            pointer-events: auto;
-            z-index: 10;
+          .content-area {
+            padding-left: var(--left-nav-width);
+            padding-bottom: 0;
           }
-
-          @media (min-width: 768px) {
-            .explorer-panel:not(.fullscreen) {
-              position: relative;
-              width: 280px;
-              max-width: 280px;
-            }
-            .content-area {
-              flex-direction: row;
-              flex-wrap: wrap;
-            }
-            .editor-area {
-              flex: 1;
-            }
+          .terminal-fullscreen,
+          .preview-fullscreen {
+            left: var(--left-nav-width);
+            bottom: 0;
           }
-
-          @media (orientation: landscape) and (max-height: 500px),
-                 (orientation: landscape) and (min-width: 1024px) {
-            .session-container {
-              --left-nav-width: calc(64px + env(safe-area-inset-left, 0px));
-            }
-            .content-area {
-              padding-left: var(--left-nav-width);
-              padding-bottom: 0;
-            }
-            .terminal-fullscreen {
-              left: var(--left-nav-width);
-              bottom: 0;
-            }
-            .explorer-panel {
-              left: var(--left-nav-width);
-              bottom: 0;
-            }
+          .explorer-panel {
+            left: var(--left-nav-width);
+            bottom: 0;
           }
-        `}</style>
-      </PasswordContext.Provider>
+        }
+      `}</style>
     </ConnectionProvider>
   )
 }
@@ -0,0 +1,179 @@
+'use client'
+
+import { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef, ReactNode } from 'react'
+import { isPasswordPrompt, AuthPasswordRequiredMessage } from '@/lib/connection-protocol'
+import {
+  loadVault,
+  vaultStatus,
+  onVaultChange,
+  createVault,
+  unlockVault,
+  lockVault,
+  destroyVault,
+  hasSecret,
+  readSecret,
+  writeSecret,
+  rememberedHosts as readRememberedHosts,
+  setRemembered as writeRemembered,
+  passwordId,
+  passphraseId,
+  VaultStatus,
+} from '@/lib/credential-vault'
+import type { SavedCredentials } from './terminal/[host]/ConnectionContext'
+import { useSettings } from './SettingsContext'
+import VaultUnlockModal from './VaultUnlockModal'
+
+interface VaultContextType {
+  status: VaultStatus
+  rememberedHosts: string[] // Hosts with "remember password" on
+  setRemembered: (host: string, remember: boolean) => Promise<void>
+  setUp: (pin: string) => Promise<void>
+  lock: () => void
+  forget: () => Promise<void> // Delete the vault and everything in it
+  // Ask for the PIN; resolves false if the user gives up
+  requestUnlock: (reason: string) => Promise<boolean>
+  // Saved logins for a session's connection, or null without a vault
+  credentialsFor: (host: string) => SavedCredentials | null
+}
+
+interface UnlockRequest {
+  reason: string
+  resolve: (unlocked: boolean) => void
+}
+
+const VaultContext = createContext<VaultContextType | null>(null)
+
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown'] as const
+
+// The vault id a prompt's answer is saved under, or null for answers that
+// are never saved, like one-time codes
+function secretId(host: string, request: AuthPasswordRequiredMessage): string | null {
+  if (request.kind === 'passphrase') return request.key ? passphraseId(request.key) : null
+  return isPasswordPrompt(request) ? passwordId(host, request.host) : null
+}
+
+export function VaultProvider({ children }: { children: ReactNode }) {
+  const { settings } = useSettings()
+  const [status, setStatus] = useState<VaultStatus>(vaultStatus)
+  const [rememberedHosts, setRememberedHosts] = useState<string[]>([])
+  const [unlockRequest, setUnlockRequest] = useState<UnlockRequest | null>(null)
+  const unlockPromiseRef = useRef<Promise<boolean> | null>(null)
+
+  const refreshRemembered = useCallback(() => {
+    readRememberedHosts().then(setRememberedHosts, err => console.error('Failed to read remembered hosts:', err))
+  }, [])
+
+  useEffect(() => {
+    const unsubscribe = onVaultChange(setStatus)
+    loadVault().then(setStatus).then(refreshRemembered)
+    return unsubscribe
+  }, [refreshRemembered])
+
+  // Lock after a while without taps or key presses
+  useEffect(() => {
+    if (status !== 'unlocked' || !settings.vaultAutoLock) return
+    let timer: ReturnType<typeof setTimeout>
+    const restart = () => {
+      clearTimeout(timer)
+      timer = setTimeout(lockVault, settings.vaultAutoLock * 60000)
+    }
+    restart()
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, restart, true))
+    return () => {
+      clearTimeout(timer)
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, restart, true))
+    }
+  }, [status, settings.vaultAutoLock])
+
+  // Several connections may want the vault at once; they share one prompt
+  const requestUnlock = useCallback((reason: string) => {
+    if (vaultStatus() === 'unlocked') return Promise.resolve(true)
+    if (vaultStatus() !== 'locked') return Promise.resolve(false)
+    if (!unlockPromiseRef.current) {
+      unlockPromiseRef.current = new Promise<boolean>(resolve => setUnlockRequest({ reason, resolve }))
+      unlockPromiseRef.current.then(() => {
+        unlockPromiseRef.current = null
+      })
+    }
+    return unlockPromiseRef.current
+  }, [])
+
+  const finishUnlock = (unlocked: boolean) => {
+    unlockRequest?.resolve(unlocked)
+    setUnlockRequest(null)
+  }
+
+  const setRemembered = useCallback(async (host: string, remember: boolean) => {
+    await writeRemembered(host, remember)
+    refreshRemembered()
+  }, [refreshRemembered])
+
+  const setUp = useCallback(async (pin: string) => {
+    await createVault(pin)
+    refreshRemembered()
+  }, [refreshRemembered])
+
+  const forget = useCallback(async () => {
+    await destroyVault()
+    setRememberedHosts([])
+  }, [])
+
+  const credentialsFor = useCallback((host: string): SavedCredentials | null => {
+    if (status === 'unavailable' || status === 'none') return null
+    const remember = rememberedHosts.includes(host)
+    return {
+      remember,
+      setRemember: value => {
+        setRemembered(host, value).catch(err => console.error('Failed to update vault:', err))
+      },
+      find: async request => {
+        const id = secretId(host, request)
+        if (!remember || !id || !(await hasSecret(id))) return null
+        if (!(await requestUnlock(`Unlock the vault to log in to ${host}`))) return null
+        return readSecret(id)
+      },
+      save: async (request, answer) => {
+        const id = secretId(host, request)
+        if (!id || !(await requestUnlock(`Unlock the vault to save the login for ${host}`))) return
+        await writeSecret(id, answer)
+      },
+    }
+  }, [status, rememberedHosts, setRemembered, requestUnlock])
+
+  const value = useMemo(() => ({
+    status,
+    rememberedHosts,
+    setRemembered,
+    setUp,
+    lock: lockVault,
+    forget,
+    requestUnlock,
+    credentialsFor,
+  }), [status, rememberedHosts, setRemembered, setUp, forget, requestUnlock, credentialsFor])
+
+  return (
+    <VaultContext.Provider value={value}>
+      {children}
+      {unlockRequest && (
+        <VaultUnlockModal
+          reason={unlockRequest.reason}
+          onUnlock={async pin => {
+            const result = await unlockVault(pin)
+            if (result === 'unlocked') finishUnlock(true)
+            if (result === 'wiped') setRememberedHosts([])
+            return result
+          }}
+          onCancel={() => finishUnlock(false)}
+        />
+      )}
+    </VaultContext.Provider>
+  )
+}
+
+export function useVault() {
+  const context = useContext(VaultContext)
+  if (!context) {
+    throw new Error('useVault must be used within a VaultProvider')
+  }
+  return context
+}
@@ -0,0 +1,73 @@
+'use client'
+
+import { useState } from 'react'
+import type { UnlockResult } from '@/lib/credential-vault'
+
+interface VaultUnlockModalProps {
+  reason: string
+  onUnlock: (pin: string) => Promise<UnlockResult>
+  onCancel: () => void
+}
+
+// Asks for the vault PIN when a connection needs a saved login
+export default function VaultUnlockModal({ reason, onUnlock, onCancel }: VaultUnlockModalProps) {
+  const [pin, setPin] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [unlocking, setUnlocking] = useState(false)
+  const [wiped, setWiped] = useState(false)
+
+  const handleUnlock = async () => {
+    if (!pin || unlocking) return
+    setUnlocking(true)
+    try {
+      const result = await onUnlock(pin)
+      if (result === 'wrong-pin') setError('Wrong PIN')
+      if (result === 'wiped') {
+        setWiped(true)
+        setError('Too many wrong PINs - the saved logins were erased')
+      }
+    } catch (err) {
+      setError(err.message || 'Failed to unlock')
+    } finally {
+      setUnlocking(false)
+      setPin('')
+    }
+  }
+
+  return (
+    <div className="modal-overlay" onClick={onCancel}>
+      <div className="modal" onClick={e => e.stopPropagation()}>
+        <div className="modal-title">Credential Vault</div>
+        {error && <div className="modal-error">{error}</div>}
+        {!wiped && (
+          <div className="form-group">
+            <label className="form-label">{reason}</label>
+            <input
+              type="password"
+              className="form-input"
+              placeholder="PIN"
+              autoComplete="off"
+              value={pin}
+              onChange={e => setPin(e.target.value)}
+              onKeyDown={e => {
+                if (e.key === 'Enter') handleUnlock()
+                if (e.key === 'Escape') onCancel()
+              }}
+              autoFocus
+            />
+          </div>
+        )}
+        <div className="modal-actions">
+          <button className="btn btn-cancel" onClick={onCancel}>
+            {wiped ? 'Close' : 'Not Now'}
+          </button>
+          {!wiped && (
+            <button className="btn btn-primary" onClick={handleUnlock} disabled={!pin || unlocking}>
+              {unlocking ? 'Unlocking...' : 'Unlock'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
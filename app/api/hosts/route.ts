@@ -1,5 +1,30 @@
 import { NextResponse } from 'next/server'
-import { parseSSHConfig, addSSHHost, updateSSHHost, deleteSSHHost } from '@/lib/ssh-parser'
+import { parseSSHConfig, sshHostNames, addSSHHost, updateSSHHost, deleteSSHHost } from '@/lib/ssh-parser'
+import { parseForwardRule, ForwardKind } from '@/lib/ssh-forward'
+
+// Forwarding rules from the host form: one per line or a list. Throws if one is invalid.
+function forwardRules(kind: ForwardKind, value: unknown): string[] {
+  const specs = Array.isArray(value) ? value.map(String) : String(value || '').split('\n')
+  return specs
+    .map(spec => spec.trim())
+    .filter(Boolean)
+    .map(spec => parseForwardRule(kind, spec).spec)
+}
+
+// Certificate files from the host form, one per line or a list
+function fileList(value: unknown): string[] {
+  const files = Array.isArray(value) ? value.map(String) : String(value || '').split('\n')
+  return files.map(file => file.trim()).filter(Boolean)
+}
+
+// The ForwardAgent toggle, as a boolean or the host's current value, which
+// may name a socket and is kept as it is; left alone when the form doesn't
+// send it
+function forwardAgent(value: unknown): string | undefined {
+  if (value === undefined) return undefined
+  if (typeof value === 'string') return value.trim() || 'no'
+  return value ? 'yes' : 'no'
+}
 
 export async function GET() {
   const hosts = parseSSHConfig()
@@ -15,13 +40,30 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Host name is required' }, { status: 400 })
     }
 
+    let dynamicForwards: string[]
+    let remoteForwards: string[]
+    try {
+      dynamicForwards = forwardRules('dynamic', body.dynamicForwards)
+      remoteForwards = forwardRules('remote', body.remoteForwards)
+    } catch (err) {
+      return NextResponse.json({ error: err.message }, { status: 400 })
+    }
+
     // Check if host already exists
-    const existingHosts = parseSSHConfig()
-    if (existingHosts.some(h => h.name === name)) {
+    if (sshHostNames().includes(name)) {
       return NextResponse.json({ error: 'Host with this name already exists' }, { status: 400 })
     }
 
-    addSSHHost({ name, hostname, user, port })
+    addSSHHost({
+      name,
+      hostname,
+      user,
+      port,
+      dynamicForwards,
+      remoteForwards,
+      certificateFiles: fileList(body.certificateFiles),
+      forwardAgent: forwardAgent(body.forwardAgent),
+    })
 
     return NextResponse.json({ success: true })
   } catch (error) {
@@ -39,6 +81,15 @@ export async function PUT(request: Request) {
       return NextResponse.json({ error: 'Host name is required' }, { status: 400 })
     }
 
+    let dynamicForwards: string[]
+    let remoteForwards: string[]
+    try {
+      dynamicForwards = forwardRules('dynamic', body.dynamicForwards)
+      remoteForwards = forwardRules('remote', body.remoteForwards)
+    } catch (err) {
+      return NextResponse.json({ error: err.message }, { status: 400 })
+    }
+
     // Sanitize values - trim and remove any stray encoding artifacts
     const sanitizedName = String(name || '').trim()
     const sanitizedHostname = hostname ? String(hostname).trim() : ''
@@ -47,8 +98,7 @@ export async function PUT(request: Request) {
 
     // Check if new name conflicts with existing host (unless it's the same host)
     if (oldName !== sanitizedName) {
-      const existingHosts = parseSSHConfig()
-      if (existingHosts.some(h => h.name === sanitizedName)) {
+      if (sshHostNames().includes(sanitizedName)) {
         return NextResponse.json({ error: 'Host with this name already exists' }, { status: 400 })
       }
     }
@@ -57,7 +107,11 @@ export async function PUT(request: Request) {
       name: sanitizedName,
       hostname: sanitizedHostname,
       user: sanitizedUser,
-      port: sanitizedPort
+      port: sanitizedPort,
+      dynamicForwards,
+      remoteForwards,
+      certificateFiles: fileList(body.certificateFiles),
+      forwardAgent: forwardAgent(body.forwardAgent),
     })
 
     return NextResponse.json({ success: true })
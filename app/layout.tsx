@@ -1,11 +1,12 @@
 import './globals.css'
 import type { Metadata } from 'next'
 import { ServiceWorkerRegistration } from './ServiceWorkerRegistration'
+import { withBasePath } from '@/lib/base-path'
 
 export const metadata: Metadata = {
   title: 'Codebook',
   description: 'SSH Host Manager & Terminal',
-  manifest: '/manifest.json',
+  manifest: withBasePath('/manifest.json'),
   themeColor: '#0f0f23',
   viewport: {
     width: 'device-width',
@@ -20,11 +21,11 @@ export const metadata: Metadata = {
   },
   icons: {
     icon: [
-      { url: '/favicon.png', sizes: '32x32', type: 'image/png' },
-      { url: '/icons/icon-192.png', sizes: '192x192', type: 'image/png' },
+      { url: withBasePath('/favicon.png'), sizes: '32x32', type: 'image/png' },
+      { url: withBasePath('/icons/icon-192.png'), sizes: '192x192', type: 'image/png' },
     ],
     apple: [
-      { url: '/icons/apple-touch-icon.png', sizes: '180x180', type: 'image/png' },
+      { url: withBasePath('/icons/apple-touch-icon.png'), sizes: '180x180', type: 'image/png' },
     ],
   },
 }
@@ -1,10 +1,10 @@
 'use client'
 
-import { useState } from 'react'
 import { useRouter } from 'next/navigation'
 import dynamic from 'next/dynamic'
 import HomeBottomNav from './HomeBottomNav'
 import { useKeyboardHeight } from '../terminal/[host]/useKeyboardHeight'
+import { ConnectionProvider } from '../terminal/[host]/ConnectionContext'
 
 const TerminalPanel = dynamic(() => import('../terminal/[host]/TerminalPanel'), {
   ssr: false,
@@ -22,22 +22,11 @@ const TerminalPanel = dynamic(() => import('../terminal/[host]/TerminalPanel'),
   ),
 })
 
-// Minimal provider to satisfy TerminalPanel's usePassword hook
-function PasswordProvider({ children }: { children: React.ReactNode }) {
-  const [password, setPassword] = useState<string | null>(null)
-  const { PasswordContext } = require('../terminal/[host]/PasswordContext')
-  return (
-    <PasswordContext.Provider value={{ password, setPassword }}>
-      {children}
-    </PasswordContext.Provider>
-  )
-}
-
 export default function LocalTerminalPage() {
   const { keyboardHeight, viewportHeight, isKeyboardVisible } = useKeyboardHeight()
 
   return (
-    <PasswordProvider>
+    <ConnectionProvider host="local">
       <div className="local-terminal-container">
         <div className="terminal-content">
           <TerminalPanel
@@ -79,6 +68,6 @@ export default function LocalTerminalPage() {
           }
         `}</style>
       </div>
-    </PasswordProvider>
+    </ConnectionProvider>
   )
 }
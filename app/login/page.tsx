@@ -0,0 +1,125 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { withBasePath } from '@/lib/base-path'
+
+export default function LoginPage() {
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [caAvailable, setCaAvailable] = useState(false)
+
+  // Allow "/login?token=..." links printed by the server to log in directly
+  useEffect(() => {
+    const token = new URLSearchParams(window.location.search).get('token')
+    if (token) {
+      setPassword(token)
+    }
+  }, [])
+
+  // A server using its own certificate authority offers it for other devices to trust
+  useEffect(() => {
+    fetch(withBasePath('/ca.crt'), { method: 'HEAD' })
+      .then(res => setCaAvailable(res.ok))
+      .catch(() => {})
+  }, [])
+
+  const handleLogin = async () => {
+    if (!password) return
+
+    setSubmitting(true)
+    setError('')
+
+    try {
+      const res = await fetch(withBasePath('/api/auth/login'), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password }),
+      })
+
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}))
+        setError(data.error || 'Login failed')
+        return
+      }
+
+      // Only follow same-site relative redirects
+      const next = new URLSearchParams(window.location.search).get('next')
+      window.location.href = next && next.startsWith('/') && !next.startsWith('//') ? next : withBasePath('/')
+    } catch (err) {
+      setError('Login failed')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="login-screen">
+      <div className="modal login-card">
+        <div className="login-logo">
+          <img src={withBasePath('/icons/icon-192.png')} alt="Codebook" width={64} height={64} />
+        </div>
+        <h1 className="modal-title">Codebook</h1>
+        <p className="login-hint">Enter your password or the access token printed by the server.</p>
+
+        {error && <div className="modal-error">{error}</div>}
+
+        <div className="form-group">
+          <input
+            type="password"
+            className="form-input"
+            placeholder="Password or access token"
+            value={password}
+            onChange={e => setPassword(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Enter') handleLogin()
+            }}
+            autoFocus
+          />
+        </div>
+
+        <div className="modal-actions">
+          <button className="btn btn-primary" onClick={handleLogin} disabled={submitting || !password}>
+            {submitting ? 'Logging in...' : 'Log In'}
+          </button>
+        </div>
+
+        {caAvailable && (
+          <p className="login-ca">
+            Certificate warning on this device? <a href={withBasePath('/ca.crt')} download="codebook-ca.crt">Download the CA certificate</a> and install it as a trusted CA.
+          </p>
+        )}
+      </div>
+
+      <style jsx>{`
+        .login-screen {
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          min-height: 100dvh;
+          padding: 24px;
+          background: linear-gradient(180deg, #16213e 0%, #0f0f23 100%);
+        }
+        .login-card {
+          text-align: center;
+        }
+        .login-logo {
+          margin-bottom: 12px;
+        }
+        .login-hint {
+          color: #888;
+          font-size: 0.9rem;
+          margin-bottom: 20px;
+        }
+        .login-ca {
+          color: #888;
+          font-size: 0.8rem;
+          margin-top: 20px;
+        }
+        .login-ca a {
+          color: #8ab4f8;
+        }
+      `}</style>
+    </div>
+  )
+}
@@ -0,0 +1,108 @@
+'use client'
+
+import type { AuthAttemptMessage } from '@/lib/connection-protocol'
+
+interface AuthProgressProps {
+  attempts: AuthAttemptMessage[]
+}
+
+const METHOD_NAMES: Record<AuthAttemptMessage['method'], string> = {
+  agent: 'SSH agent',
+  publickey: 'Key',
+  'keyboard-interactive': 'Keyboard-interactive',
+  password: 'Password',
+}
+
+const RESULT_NAMES: Record<AuthAttemptMessage['result'], string> = {
+  trying: 'trying…',
+  accepted: 'accepted',
+  partial: 'accepted, more needed',
+  refused: 'refused',
+  skipped: 'skipped',
+}
+
+// What was tried to log in so far, shown until the connection is up so that a
+// refused key or a failed login explains itself
+export default function AuthProgress({ attempts }: AuthProgressProps) {
+  const hosts = attempts.map(attempt => attempt.host)
+  const showHosts = hosts.some(host => host !== hosts[0]) // Only with jump hosts
+
+  return (
+    <div className="auth-progress">
+      <div className="auth-progress-title">Logging in</div>
+      {attempts.map((attempt, index) => (
+        <div key={index} className={`auth-attempt ${attempt.result}`}>
+          <span className="auth-attempt-method">
+            {showHosts && <span className="auth-attempt-host">{attempt.host}</span>}
+            {METHOD_NAMES[attempt.method]}{attempt.key && ` ${attempt.key}`}
+          </span>
+          <span className="auth-attempt-result" title={attempt.reason}>
+            {RESULT_NAMES[attempt.result]}{attempt.reason && ` - ${attempt.reason}`}
+          </span>
+        </div>
+      ))}
+
+      <style jsx>{`
+        .auth-progress {
+          position: fixed;
+          left: 50%;
+          bottom: calc(72px + env(safe-area-inset-bottom, 0px));
+          transform: translateX(-50%);
+          width: calc(100% - 32px);
+          max-width: 360px;
+          max-height: 40vh;
+          overflow-y: auto;
+          background: linear-gradient(180deg, #1e2a4a 0%, #16213e 100%);
+          border: 1px solid rgba(255, 255, 255, 0.08);
+          border-radius: 14px;
+          padding: 12px 14px;
+          box-shadow: 0 8px 24px rgba(0, 0, 0, 0.4);
+          z-index: 900;
+        }
+        .auth-progress-title {
+          color: #fff;
+          font-size: 0.85rem;
+          font-weight: 600;
+          margin-bottom: 8px;
+        }
+        .auth-attempt {
+          display: flex;
+          justify-content: space-between;
+          gap: 12px;
+          font-size: 0.75rem;
+          padding: 3px 0;
+          color: #aaa;
+        }
+        .auth-attempt-method {
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        }
+        .auth-attempt-host {
+          color: #666;
+          margin-right: 6px;
+        }
+        .auth-attempt-result {
+          flex-shrink: 0;
+          max-width: 50%;
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        }
+        .auth-attempt.accepted .auth-attempt-result,
+        .auth-attempt.partial .auth-attempt-result {
+          color: #4ade80;
+        }
+        .auth-attempt.refused .auth-attempt-result {
+          color: #ff6b6b;
+        }
+        .auth-attempt.skipped .auth-attempt-result {
+          color: #888;
+        }
+        .auth-attempt.trying .auth-attempt-result {
+          color: #8ab4f8;
+        }
+      `}</style>
+    </div>
+  )
+}
@@ -0,0 +1,226 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import type { AuthPasswordRequiredMessage } from '@/lib/connection-protocol'
+
+interface AuthPromptModalProps {
+  request: AuthPasswordRequiredMessage
+  error?: string | null // The previous answer was rejected
+  remember?: boolean // Offer to save the answer in the vault; unset to hide
+  onRememberChange?: (remember: boolean) => void
+  onSubmit: (responses: string[]) => void
+  onCancel: () => void
+}
+
+const PLACEHOLDERS: Record<AuthPasswordRequiredMessage['kind'], string> = {
+  password: 'Enter password',
+  passphrase: 'Enter passphrase',
+  'keyboard-interactive': '',
+}
+
+// Login prompts for an SSH connection, shown once per connection rather than
+// per tab: a password, a key passphrase, or a keyboard-interactive round with
+// any number of questions (a password and a verification code, say)
+export default function AuthPromptModal({ request, error, remember, onRememberChange, onSubmit, onCancel }: AuthPromptModalProps) {
+  const [responses, setResponses] = useState<string[]>(() => request.prompts.map(() => ''))
+  const inputsRef = useRef<(HTMLInputElement | null)[]>([])
+  const single = request.prompts.length === 1
+
+  // Each round starts empty
+  useEffect(() => {
+    setResponses(request.prompts.map(() => ''))
+    inputsRef.current[0]?.focus()
+  }, [request])
+
+  // Keyboard-interactive rounds can take empty answers ("press Enter to send
+  // a push"); a password or passphrase can't be empty
+  const handleSubmit = () => {
+    if (request.kind !== 'keyboard-interactive' && !responses[0]) return
+    onSubmit(responses)
+    setResponses(request.prompts.map(() => ''))
+  }
+
+  // Enter moves on to the next prompt, and submits from the last one
+  const handleKeyDown = (index: number, e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') onCancel()
+    if (e.key !== 'Enter') return
+    const next = inputsRef.current[index + 1]
+    if (next) {
+      next.focus()
+    } else {
+      handleSubmit()
+    }
+  }
+
+  const title = request.name || (single ? request.prompts[0].prompt : 'Authentication required')
+
+  return (
+    <div className="password-modal-overlay" onClick={onCancel}>
+      <div className="password-modal" onClick={e => e.stopPropagation()}>
+        <h3>{title}</h3>
+        {request.instructions && <p className="password-modal-instructions">{request.instructions}</p>}
+        {error && <div className="password-modal-error">{error}</div>}
+        {request.prompts.map((prompt, index) => (
+          <label key={index} className="password-modal-field">
+            {(!single || request.name) && <span>{prompt.prompt}</span>}
+            <input
+              ref={el => { inputsRef.current[index] = el }}
+              type={prompt.echo ? 'text' : 'password'}
+              placeholder={single ? PLACEHOLDERS[request.kind] : ''}
+              autoComplete={prompt.echo ? 'one-time-code' : 'current-password'}
+              value={responses[index] || ''}
+              onChange={e => setResponses(prev => prev.map((response, i) => i === index ? e.target.value : response))}
+              onKeyDown={e => handleKeyDown(index, e)}
+              autoFocus={index === 0}
+            />
+          </label>
+        ))}
+        {remember !== undefined && onRememberChange && (
+          <label className="password-modal-remember">
+            <input type="checkbox" checked={remember} onChange={e => onRememberChange(e.target.checked)} />
+            <span>Remember in the vault</span>
+          </label>
+        )}
+        <div className="password-modal-actions">
+          <button className="btn-cancel" onClick={onCancel}>
+            Cancel
+          </button>
+          <button className="btn-submit" onClick={handleSubmit}>
+            Connect
+          </button>
+        </div>
+      </div>
+
+      <style jsx>{`
+        .password-modal-overlay {
+          position: fixed;
+          top: 0;
+          left: 0;
+          right: 0;
+          bottom: 0;
+          background: rgba(0, 0, 0, 0.7);
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          z-index: 1000;
+          padding: 24px;
+          animation: fadeIn 0.15s ease-out;
+        }
+        @keyframes fadeIn {
+          from { opacity: 0; }
+          to { opacity: 1; }
+        }
+        .password-modal {
+          background: linear-gradient(180deg, #1e2a4a 0%, #16213e 100%);
+          border-radius: 20px;
+          padding: 24px;
+          width: 100%;
+          max-width: 360px;
+          animation: scaleIn 0.2s ease-out;
+          box-shadow: 0 20px 60px rgba(0, 0, 0, 0.4);
+        }
+        @keyframes scaleIn {
+          from { transform: scale(0.95); opacity: 0; }
+          to { transform: scale(1); opacity: 1; }
+        }
+        .password-modal h3 {
+          color: #fff;
+          margin: 0 0 20px;
+          font-size: 1.15rem;
+          font-weight: 600;
+        }
+        .password-modal-instructions {
+          color: #aaa;
+          font-size: 0.85rem;
+          line-height: 1.5;
+          margin: -8px 0 16px;
+          white-space: pre-wrap;
+        }
+        .password-modal-error {
+          color: #ff6b6b;
+          font-size: 0.9rem;
+          margin: -8px 0 16px;
+        }
+        .password-modal-field {
+          display: block;
+        }
+        .password-modal-field span {
+          display: block;
+          color: #aaa;
+          font-size: 0.85rem;
+          margin-bottom: 6px;
+        }
+        .password-modal input {
+          width: 100%;
+          padding: 14px 16px;
+          background: rgba(0, 0, 0, 0.3);
+          border: 1px solid rgba(255, 255, 255, 0.1);
+          border-radius: 12px;
+          color: #fff;
+          font-size: 1rem;
+          margin-bottom: 20px;
+          transition: all 0.15s;
+        }
+        .password-modal input:focus {
+          outline: none;
+          border-color: rgba(138, 180, 248, 0.5);
+          background: rgba(0, 0, 0, 0.4);
+        }
+        .password-modal input::placeholder {
+          color: #555;
+        }
+        .password-modal-remember {
+          display: flex;
+          align-items: center;
+          gap: 10px;
+          color: #aaa;
+          font-size: 0.9rem;
+          margin: -8px 0 20px;
+          cursor: pointer;
+        }
+        .password-modal .password-modal-remember input {
+          width: 18px;
+          height: 18px;
+          margin: 0;
+          padding: 0;
+          accent-color: #4a7cff;
+        }
+        .password-modal-actions {
+          display: flex;
+          gap: 12px;
+        }
+        .password-modal-actions button {
+          flex: 1;
+          padding: 14px 20px;
+          border-radius: 12px;
+          font-size: 0.95rem;
+          font-weight: 500;
+          cursor: pointer;
+          transition: all 0.15s;
+          min-height: 48px;
+        }
+        .password-modal-actions button:active {
+          transform: scale(0.97);
+        }
+        .btn-cancel {
+          background: rgba(255, 255, 255, 0.05);
+          border: 1px solid rgba(255, 255, 255, 0.1);
+          color: #888;
+        }
+        .btn-cancel:hover {
+          background: rgba(255, 255, 255, 0.1);
+          color: #fff;
+        }
+        .btn-submit {
+          background: linear-gradient(135deg, #4a7cff 0%, #3a6cef 100%);
+          border: none;
+          color: #fff;
+          box-shadow: 0 4px 12px rgba(74, 124, 255, 0.3);
+        }
+        .btn-submit:hover {
+          box-shadow: 0 6px 16px rgba(74, 124, 255, 0.4);
+        }
+      `}</style>
+    </div>
+  )
+}
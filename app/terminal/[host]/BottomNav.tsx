@@ -1,20 +1,25 @@
 'use client'
 
 import { useRouter } from 'next/navigation'
+import SignalIndicator from './SignalIndicator'
 
 interface BottomNavProps {
   showExplorer: boolean
   showTerminal: boolean
+  showPreview: boolean
   onToggleExplorer: () => void
   onToggleTerminal: () => void
+  onTogglePreview: () => void
   hidden?: boolean
 }
 
 export default function BottomNav({
   showExplorer,
   showTerminal,
+  showPreview,
   onToggleExplorer,
   onToggleTerminal,
+  onTogglePreview,
   hidden = false,
 }: BottomNavProps) {
   const router = useRouter()
@@ -41,6 +46,16 @@ export default function BottomNav({
         <TerminalIcon />
         <span className="nav-label">Terminal</span>
       </button>
+
+      <button
+        className={`nav-btn ${showPreview ? 'active' : ''}`}
+        onClick={onTogglePreview}
+      >
+        <GlobeIcon />
+        <span className="nav-label">Preview</span>
+      </button>
+
+      <SignalIndicator hidden={hidden} />
     </nav>
   )
 }
@@ -62,6 +77,16 @@ function TerminalIcon() {
   )
 }
 
+function GlobeIcon() {
+  return (
+    <svg className="nav-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <circle cx="12" cy="12" r="10" />
+      <line x1="2" y1="12" x2="22" y2="12" />
+      <path d="M12 2a15.3 15.3 0 0 1 4 10 15.3 15.3 0 0 1-4 10 15.3 15.3 0 0 1-4-10 15.3 15.3 0 0 1 4-10z" />
+    </svg>
+  )
+}
+
 function HomeIcon() {
   return (
     <svg className="nav-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
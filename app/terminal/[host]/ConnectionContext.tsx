@@ -1,126 +1,634 @@
 'use client'
 
 import { createContext, useContext, useRef, useState, useCallback, useEffect, ReactNode } from 'react'
-import type { FileEntry } from '@/lib/file-protocol'
+import type { FileEntry, FileRequestBody, FileResponseFor } from '@/lib/file-protocol'
+import { PROTOCOL_VERSION, isPasswordPrompt, ClientMessage, ServerMessage, ServerHelloMessage, ForwardStatus, AuthPasswordRequiredMessage, AuthAttemptMessage, AuthHostKeyUnknownMessage, AuthHostKeyChangedMessage, ConnectionReconnectingMessage, HostKeyDecision } from '@/lib/connection-protocol'
+import { webSocketUrl } from '@/lib/base-path'
+import { FRAME_TERMINAL, FRAME_FILE, FRAME_EXEC_STDOUT, FRAME_EXEC_STDERR, encodeFrame, decodeFrame, concatBytes, bytesToBase64, base64ToBytes } from '@/lib/frame-protocol'
+import AuthPromptModal from './AuthPromptModal'
+import AuthProgress from './AuthProgress'
+import HostKeyModal from './HostKeyModal'
+import ReconnectBanner from './ReconnectBanner'
+import TransferProgress from './TransferProgress'
+
+export interface TerminalHandlers {
+  onData: (data: Uint8Array) => void // Raw terminal bytes - xterm decodes UTF-8 across chunks
+  // The server started a new shell (resumed: false) or reattached to a live one
+  onOpened?: (info: { resumed: boolean }) => void
+  // The shell is running and takes input - sent again after every reattach
+  onReady?: () => void
+  onExit?: (info: { exitCode: number | null; signal: string | null }) => void
+}
+
+// Logins kept between visits, such as in the credential vault. Only passwords
+// and key passphrases are kept, never one-time codes.
+export interface SavedCredentials {
+  remember: boolean // Save answers the server accepts
+  setRemember: (remember: boolean) => void
+  // The saved answer to a prompt, or null; may ask the user to unlock first
+  find: (request: AuthPasswordRequiredMessage) => Promise<string | null>
+  save: (request: AuthPasswordRequiredMessage, answer: string) => Promise<void>
+}
+
+// One keepalive round trip, for the connection quality indicator
+export interface QualitySample {
+  time: number // When the pong arrived
+  latency: number // Milliseconds from the browser to the Codebook server and back
+  hostLatency: number | null // Milliseconds from the server to the SSH host and back
+  bytesIn: number // Per second over the socket since the previous sample
+  bytesOut: number
+}
+
+// A chunked file transfer in progress, shown with a progress bar
+export interface FileTransfer {
+  id: string
+  path: string
+  direction: 'download' | 'upload'
+  loaded: number
+  total: number
+}
+
+export interface TransferOptions {
+  onProgress?: (loaded: number, total: number) => void
+}
+
+export interface ExecOptions {
+  cwd?: string // Default: the home directory
+  env?: Record<string, string>
+  timeout?: number // Milliseconds; 0 for none
+  signal?: AbortSignal // Stops the command; the result then reports the signal it got
+  // Output as it arrives
+  onStdout?: (text: string) => void
+  onStderr?: (text: string) => void
+}
+
+export interface ExecResult {
+  stdout: string
+  stderr: string
+  exitCode: number | null
+  signal: string | null // Set when the command was killed, e.g. after a timeout or cancel
+  timedOut: boolean
+}
 
 interface ConnectionContextType {
   host: string
   connected: boolean
   error: string | null
+  server: ServerHelloMessage | null // Backend, supported operations and limits, once the server said hello
+  quality: QualitySample[] // Oldest first, up to QUALITY_HISTORY of them
 
   // File operations
   listFiles: (path: string) => Promise<FileEntry[]>
-  readFile: (path: string) => Promise<{ content: string; encoding: string; size: number }>
-  writeFile: (path: string, content: string, encoding?: 'utf8' | 'base64') => Promise<void>
+  readFile: (path: string, options?: TransferOptions) => Promise<{ content: string; encoding: string; size: number }>
+  writeFile: (path: string, content: string, encoding?: 'utf8' | 'base64', options?: TransferOptions) => Promise<void>
   createFile: (path: string, isDirectory: boolean) => Promise<void>
   deleteFile: (path: string, recursive?: boolean) => Promise<void>
   renameFile: (oldPath: string, newPath: string) => Promise<void>
+  transfers: FileTransfer[]
+  cancelTransfer: (id: string) => void
+
+  // TCP ports listening on the host, and newly opened ones not yet dismissed
+  listeningPorts: number[]
+  openedPorts: number[]
+  dismissOpenedPort: (port: number) => void
+
+  // The host's SOCKS and remote forwarding rules
+  forwards: ForwardStatus[]
+  startForward: (id: string) => void
+  stopForward: (id: string) => void
+
+  // Run a command on the host without a terminal
+  exec: (command: string, options?: ExecOptions) => Promise<ExecResult>
+
+  // Terminal channels, one per tab, all multiplexed over the host connection
+  openTerminal: (id: string, cols: number, rows: number, handlers: TerminalHandlers) => void
+  writeTerminal: (id: string, data: string) => void
+  resizeTerminal: (id: string, cols: number, rows: number) => void
+  closeTerminal: (id: string) => void
+}
+
+interface TerminalChannel {
+  handlers: TerminalHandlers
+  channel: number // Frame channel on the current socket
+  cols: number
+  rows: number
+  received: number // Bytes received, so a reconnect can ask for the rest
+}
+
+interface RunningExec {
+  options: ExecOptions
+  stdout: string
+  stderr: string
+  decoders: { stdout: TextDecoder; stderr: TextDecoder } // Output may split UTF-8 sequences
+  resolve: (result: ExecResult) => void
+  reject: (err: Error) => void
+}
+
+interface ActiveTransfer extends FileTransfer {
+  cancelled: boolean
+  onCancel: Set<() => void>
+}
 
-  // Terminal access
-  sendTerminalData: (data: string) => void
-  sendResize: (cols: number, rows: number) => void
-  onTerminalData: (callback: (data: string) => void) => () => void
+const FILE_CHUNK_SIZE = 256 * 1024 // Small enough to make steady progress on a slow mobile link
+const TRANSFER_MAX_RETRIES = 5 // Reconnects survived per chunk before a transfer fails
+const TRANSFER_RECONNECT_TIMEOUT = 60000
+const EXEC_DEFAULT_TIMEOUT = 30000
+const PING_INTERVAL = 5000 // Keeps the socket alive and measures latency
+export const QUALITY_HISTORY = 60 // Samples kept for the graph - five minutes' worth
+
+// The socket went away - requests can be retried once it is back
+class ConnectionLostError extends Error {}
+
+const textEncoder = new TextEncoder()
+const textDecoder = new TextDecoder()
+
+// Returns the size sent, for the throughput figures
+function sendMessage(ws: WebSocket, message: ClientMessage): number {
+  const text = JSON.stringify(message)
+  ws.send(text)
+  return text.length
+}
+
+function canSave(request: AuthPasswordRequiredMessage): boolean {
+  return request.kind === 'passphrase' || isPasswordPrompt(request)
 }
 
 const ConnectionContext = createContext<ConnectionContextType | null>(null)
 
 interface ConnectionProviderProps {
   host: string
-  password?: string | null
+  // Lets the server keep the connection (and its shells) alive across reconnects
+  sessionId?: string | null
+  // Passwords for this session by the hop that asked for them (user@host:port),
+  // as a jump host has a password of its own
+  passwords?: Record<string, string> | null
+  onPasswordChange?: (hop: string, password: string) => void
+  credentials?: SavedCredentials | null
   children: ReactNode
 }
 
-export function ConnectionProvider({ host, password, children }: ConnectionProviderProps) {
+export function ConnectionProvider({ host, sessionId, passwords, onPasswordChange, credentials, children }: ConnectionProviderProps) {
   const wsRef = useRef<WebSocket | null>(null)
   const pendingRequests = useRef<Map<string, { resolve: (data: any) => void; reject: (err: Error) => void }>>(new Map())
-  const terminalCallbacks = useRef<Set<(data: string) => void>>(new Set())
+  const terminalsRef = useRef<Map<string, TerminalChannel>>(new Map())
+  const channelTerminalsRef = useRef<Map<number, string>>(new Map()) // Frame channel -> terminal id
+  const fileDataRef = useRef<Map<number, Uint8Array[]>>(new Map()) // Frame channel -> file contents received
+  const nextChannelRef = useRef(1)
+  const readyRef = useRef(false)
+  const readyWaitersRef = useRef<Set<() => void>>(new Set())
+  const transfersRef = useRef<Map<string, ActiveTransfer>>(new Map())
+  const execsRef = useRef<Map<number, RunningExec>>(new Map()) // Frame channel -> command waiting for exec:exit
+  const [transfers, setTransfers] = useState<FileTransfer[]>([])
   const [connected, setConnected] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const passwordRef = useRef(password)
-  const sshAuthenticatedRef = useRef(false)
-
-  // Keep password ref updated when prop changes
+  const [authPrompt, setAuthPrompt] = useState<AuthPasswordRequiredMessage | null>(null)
+  const [authError, setAuthError] = useState<string | null>(null) // Why the last answer was rejected
+  const [authAttempts, setAuthAttempts] = useState<AuthAttemptMessage[]>([]) // Until the connection is up
+  const [reconnecting, setReconnecting] = useState<ConnectionReconnectingMessage | null>(null) // The server lost the host
+  const [hostKeyPrompt, setHostKeyPrompt] = useState<AuthHostKeyUnknownMessage | null>(null)
+  const [hostKeyWarning, setHostKeyWarning] = useState<AuthHostKeyChangedMessage | null>(null) // Stays up after the connection ends
+  const [server, setServer] = useState<ServerHelloMessage | null>(null)
+  const [listeningPorts, setListeningPorts] = useState<number[]>([])
+  const [openedPorts, setOpenedPorts] = useState<number[]>([])
+  const [forwards, setForwards] = useState<ForwardStatus[]>([])
+  const [quality, setQuality] = useState<QualitySample[]>([])
+  const trafficRef = useRef({ received: 0, sent: 0, since: Date.now() }) // Bytes over the socket since the last sample
+  const passwordsRef = useRef(passwords)
+  const endedRef = useRef(false) // Connection ended for good - don't reconnect
+  const onPasswordChangeRef = useRef(onPasswordChange)
+  const credentialsRef = useRef(credentials)
+  // The last answer sent that isn't saved yet - saved once the server takes it
+  const unsavedAnswerRef = useRef<{ request: AuthPasswordRequiredMessage; answer: string } | null>(null)
+
+  // Keep refs updated when props change
+  useEffect(() => {
+    passwordsRef.current = passwords
+  }, [passwords])
+  useEffect(() => {
+    onPasswordChangeRef.current = onPasswordChange
+  }, [onPasswordChange])
   useEffect(() => {
-    passwordRef.current = password
-  }, [password])
+    credentialsRef.current = credentials
+  }, [credentials])
+
+  const send = useCallback((message: ClientMessage) => {
+    const ws = wsRef.current
+    if (ws && ws.readyState === WebSocket.OPEN) {
+      trafficRef.current.sent += sendMessage(ws, message)
+    }
+  }, [])
+
+  const sendFrame = useCallback((type: number, channel: number, payload: Uint8Array) => {
+    const ws = wsRef.current
+    if (ws && ws.readyState === WebSocket.OPEN) {
+      const frame = encodeFrame(type, channel, payload)
+      ws.send(frame)
+      trafficRef.current.sent += frame.byteLength
+    }
+  }, [])
 
-  // Single WebSocket connection management
+  // Single WebSocket connection management. The server keeps the host connection
+  // alive across disconnects, so we reconnect with the same session id and reopen
+  // every terminal with the number of characters already received.
   useEffect(() => {
-    const wsUrl = `ws://${window.location.hostname}:3001?host=${encodeURIComponent(host)}`
-    console.log('ConnectionContext: Connecting to', wsUrl)
-    const ws = new WebSocket(wsUrl)
-    wsRef.current = ws
-
-    ws.onopen = () => {
-      console.log('ConnectionContext: WebSocket connected')
-      // For local host, we're immediately ready
-      // For SSH hosts, we wait for SSH authentication
-      if (host === 'local') {
-        sshAuthenticatedRef.current = true
-        setConnected(true)
-      }
-      setError(null)
+    let disposed = false
+    endedRef.current = false
+    let reconnectDelay = 1000
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null
+    let pingInterval: ReturnType<typeof setInterval> | null = null
+    const cachedTried = new Set<string>() // Hops whose cached password was tried on this socket
+    const savedTried = new Set<string>() // Prompts already answered from saved logins on this socket
+
+    const rejectPending = (reason: string) => {
+      pendingRequests.current.forEach(({ reject }) => reject(new ConnectionLostError(reason)))
+      pendingRequests.current.clear()
+      // The server stops commands whose socket is gone
+      execsRef.current.forEach(({ reject }) => reject(new ConnectionLostError(reason)))
+      execsRef.current.clear()
     }
 
-    ws.onclose = () => {
-      console.log('ConnectionContext: Disconnected')
-      sshAuthenticatedRef.current = false
-      setConnected(false)
+    const endConnection = (reason: string) => {
+      endedRef.current = true
+      setError(reason)
+      setReconnecting(null)
+      setAuthPrompt(null)
+      setHostKeyPrompt(null)
+      wsRef.current?.close()
     }
 
-    ws.onerror = () => {
-      setError('Connection error')
+    const scheduleReconnect = () => {
+      if (reconnectTimer || disposed || endedRef.current) return
+      reconnectTimer = setTimeout(() => {
+        reconnectTimer = null
+        connect()
+      }, reconnectDelay)
+      reconnectDelay = Math.min(reconnectDelay * 2, 15000)
     }
 
-    ws.onmessage = (event) => {
-      const data = event.data
-      try {
-        const parsed = JSON.parse(data)
-        console.log('ConnectionContext: received message type:', parsed.type, 'requestId:', parsed.requestId)
-
-        // Handle password authentication request
-        if (parsed.type === 'auth:password-required') {
-          console.log('ConnectionContext: Password required, auto-submitting cached password')
-          if (passwordRef.current) {
-            ws.send(JSON.stringify({
-              type: 'auth:password',
-              password: passwordRef.current
-            }))
+    // Reconnect right away when the app comes back to the foreground
+    const onWake = () => {
+      if (document.visibilityState !== 'visible') return
+      const state = wsRef.current?.readyState
+      if (state === WebSocket.OPEN || state === WebSocket.CONNECTING) return
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer)
+        reconnectTimer = null
+      }
+      reconnectDelay = 1000
+      scheduleReconnect()
+    }
+    document.addEventListener('visibilitychange', onWake)
+    window.addEventListener('online', onWake)
+
+    const handleMessage = (ws: WebSocket, parsed: ServerMessage) => {
+      switch (parsed.type) {
+        case 'hello':
+          if (parsed.version !== PROTOCOL_VERSION) {
+            endConnection('Codebook was updated on the server - reload the page')
+            return
+          }
+          setServer(parsed)
+          return
+        case 'connection:ready':
+          readyRef.current = true
+          readyWaitersRef.current.forEach(resolve => resolve())
+          setConnected(true)
+          setError(null)
+          setAuthPrompt(null)
+          setAuthAttempts([])
+          setReconnecting(null)
+          return
+        case 'connection:reconnecting':
+          // The server lost the host and is connecting again, so the login
+          // starts over: the cached passwords and saved logins get another go
+          if (readyRef.current) {
+            readyRef.current = false
+            setConnected(false)
+            rejectPending(parsed.error)
+          }
+          cachedTried.clear()
+          savedTried.clear()
+          setAuthAttempts([])
+          setReconnecting(parsed)
+          return
+        case 'connection:error':
+          endConnection(parsed.error || 'Connection failed')
+          return
+        case 'session:detached':
+          endConnection('Session opened on another device')
+          return
+        case 'auth:password-required': {
+          // Try the hop's cached password once per connection, then a saved
+          // login, then ask the user. Only a password prompt gets the cached
+          // password - not a passphrase or a one-time code.
+          const cached = passwordsRef.current?.[parsed.host]
+          if (cached && !cachedTried.has(parsed.host) && isPasswordPrompt(parsed)) {
+            console.log('ConnectionContext: Password required, auto-submitting cached password for', parsed.host)
+            cachedTried.add(parsed.host)
+            unsavedAnswerRef.current = { request: parsed, answer: cached }
+            sendMessage(ws, { type: 'auth:password', password: cached })
+            return
+          }
+          const saved = credentialsRef.current
+          const promptKey = `${parsed.kind} ${parsed.host} ${parsed.key || ''}`
+          if (!saved || !canSave(parsed) || savedTried.has(promptKey)) {
+            setAuthPrompt(parsed)
+            return
+          }
+          savedTried.add(promptKey)
+          saved.find(parsed).catch(() => null).then((answer) => {
+            if (wsRef.current !== ws || ws.readyState !== WebSocket.OPEN) return
+            if (!answer) {
+              setAuthPrompt(parsed)
+              return
+            }
+            console.log('ConnectionContext: Answering', parsed.kind, 'prompt from the vault')
+            unsavedAnswerRef.current = null
+            sendMessage(ws, { type: 'auth:password', responses: [answer] })
+            if (isPasswordPrompt(parsed)) {
+              passwordsRef.current = { ...passwordsRef.current, [parsed.host]: answer }
+              onPasswordChangeRef.current?.(parsed.host, answer)
+            }
+          })
+          return
+        }
+        case 'auth:attempt': {
+          // A passphrase is right once its key gets tried; a password once the server accepts it
+          const unsaved = unsavedAnswerRef.current
+          const taken = unsaved?.request.kind === 'passphrase'
+            ? parsed.method === 'publickey' && parsed.result === 'trying' && parsed.key === unsaved.request.key
+            : (parsed.result === 'accepted' || parsed.result === 'partial') && parsed.host === unsaved?.request.host
+          if (unsaved && taken) {
+            unsavedAnswerRef.current = null
+            if (credentialsRef.current?.remember) {
+              credentialsRef.current.save(unsaved.request, unsaved.answer)
+                .catch(err => console.error('ConnectionContext: Failed to save login:', err))
+            }
+          }
+          setAuthAttempts(prev => {
+            // An answer replaces the 'trying' entry for the same attempt
+            const index = prev.findIndex(attempt => attempt.result === 'trying' &&
+              attempt.host === parsed.host && attempt.method === parsed.method && attempt.key === parsed.key)
+            if (index === -1 || parsed.result === 'trying') return [...prev, parsed]
+            return prev.map((attempt, i) => i === index ? parsed : attempt)
+          })
+          return
+        }
+        case 'auth:hostkey-unknown':
+          setHostKeyPrompt(parsed)
+          return
+        case 'auth:hostkey-changed':
+          setHostKeyWarning(parsed)
+          return
+        case 'auth:ok':
+          setAuthError(null)
+          return
+        case 'auth:failed':
+          unsavedAnswerRef.current = null
+          if (parsed.retry) {
+            // Shown with the prompt that follows
+            setAuthError(parsed.error)
           } else {
-            console.warn('ConnectionContext: Password required but no cached password available')
-            setError('SSH authentication required')
+            endConnection(parsed.error)
+          }
+          return
+        case 'terminal:opened': {
+          const terminal = terminalsRef.current.get(parsed.id)
+          if (terminal) {
+            terminal.received = parsed.offset
+            terminal.handlers.onOpened?.({ resumed: parsed.resumed })
           }
           return
         }
-
-        // Check if this is a response to a pending request
-        if (parsed.requestId && pendingRequests.current.has(parsed.requestId)) {
-          const { resolve, reject } = pendingRequests.current.get(parsed.requestId)!
-          pendingRequests.current.delete(parsed.requestId)
-          if (parsed.success) {
-            resolve(parsed)
+        case 'shell:ready':
+          terminalsRef.current.get(parsed.id)?.handlers.onReady?.()
+          return
+        case 'shell:exit': {
+          const terminal = terminalsRef.current.get(parsed.id)
+          if (terminal) {
+            terminalsRef.current.delete(parsed.id)
+            channelTerminalsRef.current.delete(terminal.channel)
+            terminal.handlers.onExit?.({ exitCode: parsed.exitCode, signal: parsed.signal })
+          }
+          return
+        }
+        case 'exec:exit': {
+          const running = execsRef.current.get(parsed.channel)
+          if (!running) return
+          execsRef.current.delete(parsed.channel)
+          if (parsed.error) {
+            running.reject(new Error(parsed.error))
           } else {
-            reject(new Error(parsed.error || 'Operation failed'))
+            running.resolve({
+              stdout: running.stdout,
+              stderr: running.stderr,
+              exitCode: parsed.exitCode,
+              signal: parsed.signal,
+              timedOut: parsed.timedOut,
+            })
           }
           return
         }
-      } catch {
-        // Not JSON - it's terminal data, which means SSH is authenticated
-        if (!sshAuthenticatedRef.current && host !== 'local') {
-          console.log('ConnectionContext: SSH authenticated (received terminal data)')
-          sshAuthenticatedRef.current = true
-          setConnected(true)
+        case 'ports:changed':
+          setListeningPorts(parsed.ports)
+          // Ports that closed again don't need announcing
+          setOpenedPorts(prev => [...prev, ...parsed.opened].filter((port, i, all) =>
+            parsed.ports.includes(port) && all.indexOf(port) === i
+          ))
+          return
+        case 'forwards:changed':
+          setForwards(parsed.forwards)
+          return
+        case 'key:installed':
+          // Only the Keys screen installs keys, on a connection of its own
+          return
+        case 'pong': {
+          if (typeof parsed.sent !== 'number') return
+          const now = Date.now()
+          const traffic = trafficRef.current
+          const seconds = Math.max((now - traffic.since) / 1000, 1)
+          const sample: QualitySample = {
+            time: now,
+            latency: Math.round(performance.now() - parsed.sent),
+            hostLatency: parsed.hostLatency === null ? null : Math.round(parsed.hostLatency),
+            bytesIn: Math.round(traffic.received / seconds),
+            bytesOut: Math.round(traffic.sent / seconds),
+          }
+          trafficRef.current = { received: 0, sent: 0, since: now }
+          setQuality(prev => [...prev.slice(1 - QUALITY_HISTORY), sample])
+          return
+        }
+      }
+
+      // Check if this is a response to a pending request
+      if (parsed.requestId && pendingRequests.current.has(parsed.requestId)) {
+        const { resolve, reject } = pendingRequests.current.get(parsed.requestId)!
+        pendingRequests.current.delete(parsed.requestId)
+        if (parsed.success) {
+          resolve(parsed)
+        } else {
+          reject(new Error(parsed.error || 'Operation failed'))
+        }
+      }
+    }
+
+    const handleFrame = (data: ArrayBuffer) => {
+      const frame = decodeFrame(data)
+      if (!frame) return
+
+      if (frame.type === FRAME_TERMINAL) {
+        const id = channelTerminalsRef.current.get(frame.channel)
+        const terminal = id ? terminalsRef.current.get(id) : undefined
+        if (terminal) {
+          terminal.received += frame.payload.byteLength
+          terminal.handlers.onData(frame.payload)
+        }
+      } else if (frame.type === FRAME_FILE) {
+        // Collected until the matching file:read response arrives
+        const chunks = fileDataRef.current.get(frame.channel) || []
+        chunks.push(frame.payload)
+        fileDataRef.current.set(frame.channel, chunks)
+      } else if (frame.type === FRAME_EXEC_STDOUT || frame.type === FRAME_EXEC_STDERR) {
+        const running = execsRef.current.get(frame.channel)
+        if (!running) return
+        if (frame.type === FRAME_EXEC_STDOUT) {
+          const text = running.decoders.stdout.decode(frame.payload, { stream: true })
+          running.stdout += text
+          running.options.onStdout?.(text)
+        } else {
+          const text = running.decoders.stderr.decode(frame.payload, { stream: true })
+          running.stderr += text
+          running.options.onStderr?.(text)
+        }
+      }
+    }
+
+    const connect = () => {
+      let wsUrl = webSocketUrl(`/ws?host=${encodeURIComponent(host)}`)
+      if (sessionId) {
+        wsUrl += `&session=${encodeURIComponent(sessionId)}`
+      }
+      console.log('ConnectionContext: Connecting to', wsUrl)
+      const ws = new WebSocket(wsUrl)
+      ws.binaryType = 'arraybuffer'
+      wsRef.current = ws
+      cachedTried.clear()
+
+      ws.onopen = () => {
+        console.log('ConnectionContext: WebSocket connected')
+        reconnectDelay = 1000
+        sendMessage(ws, { type: 'hello', version: PROTOCOL_VERSION })
+
+        // (Re)open every terminal on a fresh channel - the server queues them until the host is ready
+        channelTerminalsRef.current.clear()
+        fileDataRef.current.clear()
+        terminalsRef.current.forEach((terminal, id) => {
+          terminal.channel = nextChannelRef.current++
+          channelTerminalsRef.current.set(terminal.channel, id)
+          sendMessage(ws, {
+            type: 'terminal:open',
+            id,
+            channel: terminal.channel,
+            cols: terminal.cols,
+            rows: terminal.rows,
+            offset: terminal.received,
+          })
+        })
+
+        // Keepalive ping, also timing the round trip; the first goes right away
+        const ping = () => {
+          if (ws.readyState === WebSocket.OPEN) {
+            trafficRef.current.sent += sendMessage(ws, { type: 'ping', sent: performance.now() })
+          }
+        }
+        ping()
+        pingInterval = setInterval(ping, PING_INTERVAL)
+      }
+
+      ws.onclose = () => {
+        if (pingInterval) {
+          clearInterval(pingInterval)
+          pingInterval = null
+        }
+        if (wsRef.current !== ws) return
+        console.log('ConnectionContext: Disconnected')
+        readyRef.current = false
+        setConnected(false)
+        rejectPending('Connection lost')
+        scheduleReconnect()
+      }
+
+      ws.onerror = () => {
+        setError('Connection error')
+      }
+
+      ws.onmessage = (event) => {
+        trafficRef.current.received += typeof event.data === 'string' ? event.data.length : event.data.byteLength
+        if (typeof event.data !== 'string') {
+          handleFrame(event.data)
+          return
+        }
+        try {
+          handleMessage(ws, JSON.parse(event.data))
+        } catch (e) {
+          console.error('ConnectionContext: Bad message', e)
         }
       }
-      // Forward to terminal callbacks
-      terminalCallbacks.current.forEach((cb) => cb(data))
     }
 
+    connect()
+
     return () => {
-      ws.close()
+      disposed = true
+      if (reconnectTimer) clearTimeout(reconnectTimer)
+      document.removeEventListener('visibilitychange', onWake)
+      window.removeEventListener('online', onWake)
+      const ws = wsRef.current
       wsRef.current = null
+      if (ws) {
+        // Unmounting means the session was closed - end it on the server too
+        if (ws.readyState === WebSocket.OPEN) {
+          sendMessage(ws, { type: 'session:close' })
+        }
+        ws.close()
+      }
+      rejectPending('Connection closed')
+      readyRef.current = false
+      setConnected(false)
+    }
+  }, [host, sessionId])
+
+  const handleAuthSubmit = useCallback((responses: string[]) => {
+    send({ type: 'auth:password', responses })
+    // An empty answer is only ever for this round - nothing to keep
+    if (authPrompt && canSave(authPrompt) && responses[0]) {
+      unsavedAnswerRef.current = { request: authPrompt, answer: responses[0] }
+    }
+    // Cache the password for reconnects, but not passphrases or codes
+    if (authPrompt && isPasswordPrompt(authPrompt) && responses[0]) {
+      passwordsRef.current = { ...passwordsRef.current, [authPrompt.host]: responses[0] }
+      onPasswordChangeRef.current?.(authPrompt.host, responses[0])
+    }
+    setAuthPrompt(null)
+    setAuthError(null)
+  }, [send, authPrompt])
+
+  const handleAuthCancel = useCallback(() => {
+    // Don't keep reconnecting (and re-prompting) for a login the user declined
+    endedRef.current = true
+    send({ type: 'session:close' })
+    setAuthPrompt(null)
+    setError('Authentication cancelled')
+  }, [send])
+
+  const handleHostKeyDecision = useCallback((decision: HostKeyDecision) => {
+    if (decision === 'reject') {
+      // Like cancelling a password prompt - don't reconnect and ask again
+      endedRef.current = true
     }
-  }, [host])
+    send({ type: 'auth:hostkey', decision })
+    setHostKeyPrompt(null)
+  }, [send])
 
   // Generate unique request ID
   const generateRequestId = useCallback(() => {
@@ -128,13 +636,13 @@ export function ConnectionProvider({ host, password, children }: ConnectionProvi
   }, [])
 
   // Send request and wait for response
-  const sendRequest = useCallback(<T,>(message: Record<string, any>): Promise<T> => {
+  const sendRequest = useCallback(<R extends FileRequestBody>(message: R): Promise<FileResponseFor<R['type']>> => {
     return new Promise((resolve, reject) => {
       const ws = wsRef.current
       console.log('ConnectionContext: sendRequest called, ws state:', ws?.readyState, 'type:', message.type)
       if (!ws || ws.readyState !== WebSocket.OPEN) {
         console.error('ConnectionContext: WebSocket not ready, state:', ws?.readyState)
-        reject(new Error('Not connected'))
+        reject(new ConnectionLostError('Not connected'))
         return
       }
 
@@ -148,7 +656,7 @@ export function ConnectionProvider({ host, password, children }: ConnectionProvi
       setTimeout(() => {
         if (pendingRequests.current.has(requestId)) {
           pendingRequests.current.delete(requestId)
-          reject(new Error('Request timeout'))
+          reject(new ConnectionLostError('Request timeout'))
         }
       }, 30000)
     })
@@ -156,33 +664,186 @@ export function ConnectionProvider({ host, password, children }: ConnectionProvi
 
   // File operations
   const listFiles = useCallback(async (path: string): Promise<FileEntry[]> => {
-    const response = await sendRequest<{ entries: FileEntry[] }>({
+    const response = await sendRequest({
       type: 'file:list',
       path,
     })
     return response.entries || []
   }, [sendRequest])
 
-  const readFile = useCallback(async (path: string) => {
-    const response = await sendRequest<{ content: string; encoding: string; size: number }>({
-      type: 'file:read',
+  // Chunked transfers
+  const publishTransfers = useCallback(() => {
+    // Only transfers that take more than one chunk get a progress bar
+    setTransfers(Array.from(transfersRef.current.values())
+      .filter(t => t.total > FILE_CHUNK_SIZE)
+      .map(({ id, path, direction, loaded, total }) => ({ id, path, direction, loaded, total })))
+  }, [])
+
+  const beginTransfer = useCallback((path: string, direction: FileTransfer['direction'], total = 0) => {
+    const transfer: ActiveTransfer = {
+      id: generateRequestId(),
       path,
-    })
-    return {
-      content: response.content || '',
-      encoding: response.encoding || 'utf8',
-      size: response.size || 0,
+      direction,
+      loaded: 0,
+      total,
+      cancelled: false,
+      onCancel: new Set(),
     }
-  }, [sendRequest])
+    transfersRef.current.set(transfer.id, transfer)
+    return transfer
+  }, [generateRequestId])
 
-  const writeFile = useCallback(async (path: string, content: string, encoding: 'utf8' | 'base64' = 'utf8') => {
-    await sendRequest({
-      type: 'file:write',
-      path,
-      content,
-      encoding,
+  const updateTransfer = useCallback((transfer: ActiveTransfer, loaded: number, total: number, options: TransferOptions) => {
+    transfer.loaded = loaded
+    transfer.total = total
+    options.onProgress?.(loaded, total)
+    publishTransfers()
+  }, [publishTransfers])
+
+  const endTransfer = useCallback((transfer: ActiveTransfer) => {
+    transfersRef.current.delete(transfer.id)
+    publishTransfers()
+  }, [publishTransfers])
+
+  const cancelTransfer = useCallback((id: string) => {
+    const transfer = transfersRef.current.get(id)
+    if (transfer) {
+      transfer.cancelled = true
+      transfer.onCancel.forEach(cancel => cancel())
+    }
+  }, [])
+
+  const dismissOpenedPort = useCallback((port: number) => {
+    setOpenedPorts(prev => prev.filter(p => p !== port))
+  }, [])
+
+  const startForward = useCallback((id: string) => {
+    send({ type: 'forward:start', id })
+  }, [send])
+
+  const stopForward = useCallback((id: string) => {
+    send({ type: 'forward:stop', id })
+  }, [send])
+
+  // Wait until the host connection is usable again after a drop
+  const waitForReady = useCallback((transfer: ActiveTransfer) => {
+    return new Promise<void>((resolve, reject) => {
+      if (readyRef.current) {
+        resolve()
+        return
+      }
+      const done = (err?: Error) => {
+        clearTimeout(timer)
+        readyWaitersRef.current.delete(onReady)
+        transfer.onCancel.delete(onCancel)
+        if (err) {
+          reject(err)
+        } else {
+          resolve()
+        }
+      }
+      const onReady = () => done()
+      const onCancel = () => done(new Error('Transfer cancelled'))
+      const timer = setTimeout(() => done(new Error('Connection lost')), TRANSFER_RECONNECT_TIMEOUT)
+      readyWaitersRef.current.add(onReady)
+      transfer.onCancel.add(onCancel)
     })
-  }, [sendRequest])
+  }, [])
+
+  // Run one chunk request, retrying it from the same offset after a reconnect
+  const runChunk = useCallback(async <T,>(transfer: ActiveTransfer, attempt: () => Promise<T>): Promise<T> => {
+    for (let retries = 0; ; retries++) {
+      if (transfer.cancelled) {
+        throw new Error('Transfer cancelled')
+      }
+      try {
+        return await attempt()
+      } catch (err) {
+        if (!(err instanceof ConnectionLostError) || retries >= TRANSFER_MAX_RETRIES) {
+          throw err
+        }
+        console.log(`ConnectionContext: ${err.message} during transfer of ${transfer.path}, resuming`)
+        await waitForReady(transfer)
+      }
+    }
+  }, [waitForReady])
+
+  const readFile = useCallback(async (path: string, options: TransferOptions = {}) => {
+    const transfer = beginTransfer(path, 'download')
+    try {
+      const chunks: Uint8Array[] = []
+      let offset = 0
+      let eof = false
+
+      while (!eof) {
+        const chunk = await runChunk(transfer, async () => {
+          const channel = nextChannelRef.current++
+          try {
+            const response = await sendRequest({
+              type: 'file:read:chunk',
+              path,
+              offset,
+              length: FILE_CHUNK_SIZE,
+              channel,
+            })
+            return { ...response, data: concatBytes(fileDataRef.current.get(channel) || []) }
+          } finally {
+            fileDataRef.current.delete(channel)
+          }
+        })
+        chunks.push(chunk.data)
+        offset += chunk.data.byteLength
+        eof = chunk.eof || chunk.data.byteLength === 0
+        updateTransfer(transfer, offset, chunk.size, options)
+      }
+
+      const bytes = concatBytes(chunks)
+      // Files containing NUL bytes are treated as binary
+      const isBinary = bytes.includes(0)
+      return {
+        content: isBinary ? bytesToBase64(bytes) : textDecoder.decode(bytes),
+        encoding: isBinary ? 'base64' : 'utf8',
+        size: bytes.byteLength,
+      }
+    } finally {
+      endTransfer(transfer)
+    }
+  }, [sendRequest, beginTransfer, updateTransfer, endTransfer, runChunk])
+
+  const writeFile = useCallback(async (path: string, content: string, encoding: 'utf8' | 'base64' = 'utf8', options: TransferOptions = {}) => {
+    const bytes = encoding === 'base64' ? base64ToBytes(content) : textEncoder.encode(content)
+    const transfer = beginTransfer(path, 'upload', bytes.byteLength)
+    try {
+      let offset = 0
+      // Always at least one chunk, so empty files are written too
+      do {
+        const chunk = bytes.subarray(offset, offset + FILE_CHUNK_SIZE)
+        const final = offset + chunk.byteLength >= bytes.byteLength
+        await runChunk(transfer, () => {
+          // Contents go first as a binary frame, the request refers to them by channel
+          const channel = nextChannelRef.current++
+          sendFrame(FRAME_FILE, channel, chunk)
+          return sendRequest({
+            type: 'file:write:chunk',
+            path,
+            offset,
+            final,
+            channel,
+          })
+        })
+        offset += chunk.byteLength
+        updateTransfer(transfer, offset, bytes.byteLength, options)
+      } while (offset < bytes.byteLength)
+    } catch (err) {
+      if (transfer.cancelled) {
+        // Throw away the partial upload; the original file is untouched
+        sendRequest({ type: 'file:write:cancel', path }).catch(() => {})
+      }
+      throw err
+    } finally {
+      endTransfer(transfer)
+    }
+  }, [sendRequest, sendFrame, beginTransfer, updateTransfer, endTransfer, runChunk])
 
   const createFile = useCallback(async (path: string, isDirectory: boolean) => {
     await sendRequest({
@@ -208,46 +869,141 @@ export function ConnectionProvider({ host, password, children }: ConnectionProvi
     })
   }, [sendRequest])
 
-  // Terminal operations
-  const sendTerminalData = useCallback((data: string) => {
-    const ws = wsRef.current
-    if (ws && ws.readyState === WebSocket.OPEN) {
-      ws.send(data)
-    }
-  }, [])
+  const exec = useCallback((command: string, options: ExecOptions = {}): Promise<ExecResult> => {
+    return new Promise((resolve, reject) => {
+      const ws = wsRef.current
+      if (!ws || ws.readyState !== WebSocket.OPEN) {
+        reject(new ConnectionLostError('Not connected'))
+        return
+      }
+      if (options.signal?.aborted) {
+        reject(new Error('Command cancelled'))
+        return
+      }
 
-  const sendResize = useCallback((cols: number, rows: number) => {
-    const ws = wsRef.current
-    if (ws && ws.readyState === WebSocket.OPEN) {
-      ws.send(JSON.stringify({ type: 'resize', cols, rows }))
+      const channel = nextChannelRef.current++
+      const onAbort = () => send({ type: 'exec:cancel', channel })
+      const settle = () => options.signal?.removeEventListener('abort', onAbort)
+      execsRef.current.set(channel, {
+        options,
+        stdout: '',
+        stderr: '',
+        decoders: { stdout: new TextDecoder(), stderr: new TextDecoder() },
+        resolve: (result) => {
+          settle()
+          resolve(result)
+        },
+        reject: (err) => {
+          settle()
+          reject(err)
+        },
+      })
+      options.signal?.addEventListener('abort', onAbort)
+
+      sendMessage(ws, {
+        type: 'exec:run',
+        channel,
+        command,
+        cwd: options.cwd,
+        env: options.env,
+        timeout: options.timeout ?? EXEC_DEFAULT_TIMEOUT,
+      })
+    })
+  }, [send])
+
+  // Terminal channels
+  const openTerminal = useCallback((id: string, cols: number, rows: number, handlers: TerminalHandlers) => {
+    const existing = terminalsRef.current.get(id)
+    if (existing) {
+      existing.handlers = handlers
+      return
     }
-  }, [])
+    const channel = nextChannelRef.current++
+    terminalsRef.current.set(id, { handlers, channel, cols, rows, received: 0 })
+    channelTerminalsRef.current.set(channel, id)
+    send({ type: 'terminal:open', id, channel, cols, rows, offset: 0 })
+  }, [send])
+
+  const writeTerminal = useCallback((id: string, data: string) => {
+    const terminal = terminalsRef.current.get(id)
+    if (terminal) {
+      sendFrame(FRAME_TERMINAL, terminal.channel, textEncoder.encode(data))
+    }
+  }, [sendFrame])
 
-  const onTerminalData = useCallback((callback: (data: string) => void) => {
-    terminalCallbacks.current.add(callback)
-    return () => {
-      terminalCallbacks.current.delete(callback)
+  const resizeTerminal = useCallback((id: string, cols: number, rows: number) => {
+    const terminal = terminalsRef.current.get(id)
+    if (terminal) {
+      terminal.cols = cols
+      terminal.rows = rows
     }
-  }, [])
+    send({ type: 'terminal:resize', id, cols, rows })
+  }, [send])
+
+  const closeTerminal = useCallback((id: string) => {
+    const terminal = terminalsRef.current.get(id)
+    if (terminal) {
+      terminalsRef.current.delete(id)
+      channelTerminalsRef.current.delete(terminal.channel)
+    }
+    send({ type: 'terminal:close', id })
+  }, [send])
 
   const value: ConnectionContextType = {
     host,
     connected,
     error,
+    server,
+    quality,
     listFiles,
     readFile,
     writeFile,
     createFile,
     deleteFile,
     renameFile,
-    sendTerminalData,
-    sendResize,
-    onTerminalData,
+    transfers,
+    cancelTransfer,
+    listeningPorts,
+    openedPorts,
+    dismissOpenedPort,
+    forwards,
+    startForward,
+    stopForward,
+    exec,
+    openTerminal,
+    writeTerminal,
+    resizeTerminal,
+    closeTerminal,
   }
 
   return (
     <ConnectionContext.Provider value={value}>
       {children}
+      {authPrompt && (
+        <AuthPromptModal
+          request={authPrompt}
+          error={authError}
+          remember={credentials && canSave(authPrompt) ? credentials.remember : undefined}
+          onRememberChange={credentials?.setRemember}
+          onSubmit={handleAuthSubmit}
+          onCancel={handleAuthCancel}
+        />
+      )}
+      {!connected && authAttempts.length > 0 && <AuthProgress attempts={authAttempts} />}
+      {!connected && reconnecting && !authPrompt && (
+        <ReconnectBanner host={host} status={reconnecting} onRetry={() => send({ type: 'connection:retry' })} />
+      )}
+      {(hostKeyPrompt || hostKeyWarning) && (
+        <HostKeyModal
+          unknown={hostKeyPrompt}
+          changed={hostKeyWarning}
+          onDecision={handleHostKeyDecision}
+          onDismiss={() => setHostKeyWarning(null)}
+        />
+      )}
+      {transfers.length > 0 && (
+        <TransferProgress transfers={transfers} onCancel={cancelTransfer} />
+      )}
     </ConnectionContext.Provider>
   )
 }
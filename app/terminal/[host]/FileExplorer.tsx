@@ -23,7 +23,7 @@ export default function FileExplorer({
   onSelectWorkspace,
   onOpenFile,
 }: FileExplorerProps) {
-  const { host, listFiles, readFile, createFile, deleteFile, renameFile } = useConnection()
+  const { host, server, listFiles, readFile, createFile, deleteFile, renameFile } = useConnection()
 
   const [currentPath, setCurrentPath] = useState<string>(workspacePath || '')
   const [entries, setEntries] = useState<FileEntry[]>([])
@@ -75,6 +75,12 @@ export default function FileExplorer({
       return
     }
 
+    const maxFileSize = server?.limits.maxFileSize
+    if (maxFileSize && entry.size > maxFileSize) {
+      setError(`${entry.name} is ${formatSize(entry.size)}, larger than the server's ${formatSize(maxFileSize)} limit`)
+      return
+    }
+
     // Read file and open in editor
     setLoading(true)
     try {
@@ -85,7 +91,7 @@ export default function FileExplorer({
     } finally {
       setLoading(false)
     }
-  }, [loadDirectory, readFile, onOpenFile])
+  }, [loadDirectory, readFile, onOpenFile, server])
 
   // Navigate up
   const goUp = useCallback(() => {
@@ -0,0 +1,163 @@
+'use client'
+
+import { useConnection } from './ConnectionContext'
+
+interface ForwardsPanelProps {
+  onClose: () => void
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`
+}
+
+// The host's DynamicForward (SOCKS) and RemoteForward rules with start/stop
+// controls and traffic counters. Rules are edited with the host on the home screen.
+export default function ForwardsPanel({ onClose }: ForwardsPanelProps) {
+  const { forwards, startForward, stopForward, connected } = useConnection()
+
+  return (
+    <div className="forwards-panel">
+      <div className="forwards-header">
+        <span className="forwards-title">Tunnels</span>
+        <button className="forwards-close" onClick={onClose}>Done</button>
+      </div>
+
+      {forwards.length === 0 ? (
+        <div className="forwards-empty">
+          No tunnels for this host. Add SOCKS proxies and remote forwards when editing the host on the home screen.
+        </div>
+      ) : (
+        <div className="forwards-list">
+          {forwards.map(forward => (
+            <div key={forward.id} className={`forward-item ${forward.active ? 'active' : ''}`}>
+              <div className="forward-info">
+                <span className="forward-description">{forward.description}</span>
+                <span className="forward-spec">{forward.kind === 'dynamic' ? 'DynamicForward' : 'RemoteForward'} {forward.spec}</span>
+                {forward.error ? (
+                  <span className="forward-error">{forward.error}</span>
+                ) : (forward.active || forward.bytesToHost > 0 || forward.bytesFromHost > 0) && (
+                  <span className="forward-stats">
+                    {forward.connections} open · ↑ {formatBytes(forward.bytesToHost)} · ↓ {formatBytes(forward.bytesFromHost)}
+                  </span>
+                )}
+              </div>
+              <button
+                className={`forward-toggle ${forward.active ? 'stop' : ''}`}
+                onClick={() => forward.active ? stopForward(forward.id) : startForward(forward.id)}
+                disabled={!connected || !forward.valid}
+              >
+                {forward.active ? 'Stop' : 'Start'}
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <style jsx>{`
+        .forwards-panel {
+          position: absolute;
+          inset: 0;
+          display: flex;
+          flex-direction: column;
+          background: #0f0f23;
+          z-index: 5;
+        }
+        .forwards-header {
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+          min-height: 43px;
+          padding: 0 12px;
+          background: rgba(22, 33, 62, 0.95);
+          border-bottom: 1px solid rgba(255, 255, 255, 0.05);
+        }
+        .forwards-title {
+          color: #fff;
+          font-size: 0.9rem;
+          font-weight: 600;
+        }
+        .forwards-close {
+          background: none;
+          border: none;
+          color: #8ab4f8;
+          font-size: 0.85rem;
+          cursor: pointer;
+        }
+        .forwards-empty {
+          padding: 24px;
+          color: #888;
+          font-size: 0.9rem;
+          text-align: center;
+        }
+        .forwards-list {
+          flex: 1;
+          overflow-y: auto;
+          padding: 12px;
+          display: flex;
+          flex-direction: column;
+          gap: 10px;
+        }
+        .forward-item {
+          display: flex;
+          align-items: center;
+          gap: 12px;
+          padding: 12px 14px;
+          background: rgba(255, 255, 255, 0.03);
+          border: 1px solid rgba(255, 255, 255, 0.08);
+          border-radius: 12px;
+        }
+        .forward-item.active {
+          border-color: rgba(74, 222, 128, 0.3);
+        }
+        .forward-info {
+          flex: 1;
+          min-width: 0;
+          display: flex;
+          flex-direction: column;
+          gap: 3px;
+        }
+        .forward-description {
+          color: #fff;
+          font-size: 0.85rem;
+        }
+        .forward-spec {
+          color: #666;
+          font-family: monospace;
+          font-size: 0.75rem;
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        }
+        .forward-stats {
+          color: #4ade80;
+          font-size: 0.75rem;
+        }
+        .forward-error {
+          color: #ff6b6b;
+          font-size: 0.75rem;
+        }
+        .forward-toggle {
+          background: rgba(74, 222, 128, 0.1);
+          border: 1px solid rgba(74, 222, 128, 0.3);
+          border-radius: 8px;
+          color: #4ade80;
+          font-size: 0.8rem;
+          padding: 6px 14px;
+          cursor: pointer;
+        }
+        .forward-toggle.stop {
+          background: rgba(255, 107, 107, 0.1);
+          border-color: rgba(255, 107, 107, 0.3);
+          color: #ff6b6b;
+        }
+        .forward-toggle:disabled {
+          opacity: 0.4;
+          cursor: default;
+        }
+      `}</style>
+    </div>
+  )
+}
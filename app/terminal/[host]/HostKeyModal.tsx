@@ -0,0 +1,163 @@
+'use client'
+
+import type { AuthHostKeyUnknownMessage, AuthHostKeyChangedMessage, HostKeyDecision } from '@/lib/connection-protocol'
+
+interface HostKeyModalProps {
+  unknown?: AuthHostKeyUnknownMessage | null
+  changed?: AuthHostKeyChangedMessage | null
+  onDecision: (decision: HostKeyDecision) => void
+  onDismiss: () => void // Close the changed-key warning
+}
+
+// Asks whether to trust a host key seen for the first time, or warns that the
+// key no longer matches the one on record. The warning has no way to connect anyway.
+export default function HostKeyModal({ unknown, changed, onDecision, onDismiss }: HostKeyModalProps) {
+  if (!changed && !unknown) return null
+
+  return (
+    <div className="hostkey-overlay">
+      {changed ? (
+        <div className="hostkey-modal danger">
+          <h3>{changed.revoked ? 'Host key revoked' : 'Host key has changed!'}</h3>
+          <p>
+            {changed.revoked
+              ? <>The key offered by <strong>{changed.host}</strong> is marked as revoked in your known hosts.</>
+              : <>The key offered by <strong>{changed.host}</strong> does not match the one in your known hosts. Someone could be intercepting the connection, or the server was reinstalled.</>}
+          </p>
+          <div className="hostkey-fingerprint">
+            <span>{changed.keyType}</span>
+            <code>{changed.fingerprint}</code>
+          </div>
+          {!changed.revoked && changed.file && (
+            <p className="hostkey-hint">
+              If you are sure the new key is legitimate, remove the old one ({changed.file}{changed.line ? ` line ${changed.line}` : ''}),
+              for example with <code>ssh-keygen -R &apos;{changed.host}&apos;</code>, and connect again.
+            </p>
+          )}
+          <div className="hostkey-actions">
+            <button className="btn-danger" onClick={onDismiss}>Close</button>
+          </div>
+        </div>
+      ) : (
+        <div className="hostkey-modal">
+          <h3>Unknown host</h3>
+          <p>
+            The authenticity of <strong>{unknown.host}</strong> can&apos;t be established.
+            {unknown.knownTypes.length > 0 && ` Keys of another type (${unknown.knownTypes.join(', ')}) are on record for it.`}
+            {' '}Check the fingerprint with the server&apos;s administrator before trusting it.
+          </p>
+          <div className="hostkey-fingerprint">
+            <span>{unknown.keyType}</span>
+            <code>{unknown.fingerprint}</code>
+          </div>
+          <div className="hostkey-actions">
+            <button className="btn-cancel" onClick={() => onDecision('reject')}>Reject</button>
+            <button className="btn-secondary" onClick={() => onDecision('accept-once')}>Accept once</button>
+            <button className="btn-submit" onClick={() => onDecision('accept-save')}>Accept &amp; save</button>
+          </div>
+        </div>
+      )}
+
+      <style jsx>{`
+        .hostkey-overlay {
+          position: fixed;
+          inset: 0;
+          background: rgba(0, 0, 0, 0.75);
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          z-index: 1001;
+          padding: 24px;
+        }
+        .hostkey-modal {
+          background: linear-gradient(180deg, #1e2a4a 0%, #16213e 100%);
+          border-radius: 20px;
+          padding: 24px;
+          width: 100%;
+          max-width: 420px;
+          box-shadow: 0 20px 60px rgba(0, 0, 0, 0.4);
+          color: #ccc;
+          font-size: 0.9rem;
+          line-height: 1.5;
+        }
+        .hostkey-modal.danger {
+          background: linear-gradient(180deg, #4a1e24 0%, #2e1418 100%);
+          border: 2px solid #ff6b6b;
+        }
+        .hostkey-modal h3 {
+          color: #fff;
+          margin: 0 0 12px;
+          font-size: 1.15rem;
+          font-weight: 600;
+        }
+        .hostkey-modal.danger h3 {
+          color: #ff6b6b;
+        }
+        .hostkey-modal p {
+          margin: 0 0 16px;
+        }
+        .hostkey-modal strong {
+          color: #fff;
+          word-break: break-all;
+        }
+        .hostkey-fingerprint {
+          display: flex;
+          flex-direction: column;
+          gap: 4px;
+          background: rgba(0, 0, 0, 0.3);
+          border-radius: 12px;
+          padding: 12px 14px;
+          margin-bottom: 16px;
+        }
+        .hostkey-fingerprint span {
+          color: #888;
+          font-size: 0.75rem;
+        }
+        .hostkey-fingerprint code {
+          color: #fff;
+          font-size: 0.8rem;
+          word-break: break-all;
+        }
+        .hostkey-hint {
+          font-size: 0.8rem;
+          color: #aaa;
+        }
+        .hostkey-hint code {
+          color: #fff;
+          word-break: break-all;
+        }
+        .hostkey-actions {
+          display: flex;
+          flex-wrap: wrap;
+          gap: 10px;
+        }
+        .hostkey-actions button {
+          flex: 1;
+          padding: 12px 14px;
+          border-radius: 12px;
+          font-size: 0.9rem;
+          font-weight: 500;
+          cursor: pointer;
+          min-height: 48px;
+          white-space: nowrap;
+        }
+        .hostkey-actions .btn-cancel,
+        .hostkey-actions .btn-secondary {
+          background: rgba(255, 255, 255, 0.05);
+          border: 1px solid rgba(255, 255, 255, 0.1);
+          color: #aaa;
+        }
+        .hostkey-actions .btn-submit {
+          background: linear-gradient(135deg, #4a7cff 0%, #3a6cef 100%);
+          border: none;
+          color: #fff;
+        }
+        .hostkey-actions .btn-danger {
+          background: #ff6b6b;
+          border: none;
+          color: #fff;
+        }
+      `}</style>
+    </div>
+  )
+}
@@ -0,0 +1,91 @@
+'use client'
+
+import { useEffect } from 'react'
+import { useConnection } from './ConnectionContext'
+
+interface PortToastProps {
+  onOpenPreview: (port: number) => void
+  hidden?: boolean // While the preview is showing
+}
+
+const TOAST_DURATION = 10000
+
+// Offers to preview a port that just started listening on the host, e.g. a dev
+// server started from the terminal. One port at a time, oldest first.
+export default function PortToast({ onOpenPreview, hidden = false }: PortToastProps) {
+  const { openedPorts, dismissOpenedPort } = useConnection()
+  const port = openedPorts[0]
+
+  useEffect(() => {
+    if (port === undefined || hidden) return
+    const timer = setTimeout(() => dismissOpenedPort(port), TOAST_DURATION)
+    return () => clearTimeout(timer)
+  }, [port, hidden, dismissOpenedPort])
+
+  if (port === undefined || hidden) return null
+
+  return (
+    <div className="port-toast">
+      <span className="port-message">Port {port} is now listening</span>
+      <button
+        className="port-open"
+        onClick={() => {
+          dismissOpenedPort(port)
+          onOpenPreview(port)
+        }}
+      >
+        Open preview
+      </button>
+      <button className="port-dismiss" onClick={() => dismissOpenedPort(port)} title="Dismiss">
+        ×
+      </button>
+
+      <style jsx>{`
+        .port-toast {
+          position: fixed;
+          left: 50%;
+          top: calc(56px + env(safe-area-inset-top, 0px));
+          transform: translateX(-50%);
+          width: calc(100% - 32px);
+          max-width: 360px;
+          display: flex;
+          align-items: center;
+          gap: 10px;
+          background: linear-gradient(180deg, #1e2a4a 0%, #16213e 100%);
+          border: 1px solid rgba(138, 180, 248, 0.2);
+          border-radius: 14px;
+          padding: 10px 12px 10px 14px;
+          box-shadow: 0 8px 24px rgba(0, 0, 0, 0.4);
+          z-index: 900;
+        }
+        .port-message {
+          flex: 1;
+          color: #fff;
+          font-size: 0.85rem;
+        }
+        .port-open {
+          background: rgba(138, 180, 248, 0.15);
+          border: 1px solid rgba(138, 180, 248, 0.3);
+          border-radius: 8px;
+          color: #8ab4f8;
+          font-size: 0.8rem;
+          padding: 6px 10px;
+          cursor: pointer;
+          white-space: nowrap;
+        }
+        .port-dismiss {
+          background: none;
+          border: none;
+          color: #666;
+          font-size: 1.2rem;
+          line-height: 1;
+          padding: 0 2px;
+          cursor: pointer;
+        }
+        .port-dismiss:hover {
+          color: #fff;
+        }
+      `}</style>
+    </div>
+  )
+}
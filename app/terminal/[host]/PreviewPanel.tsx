@@ -0,0 +1,364 @@
+'use client'
+
+import { useState, useRef, useCallback, useEffect } from 'react'
+import { withBasePath } from '@/lib/base-path'
+import { useConnection } from './ConnectionContext'
+import ForwardsPanel from './ForwardsPanel'
+
+interface PreviewPanelProps {
+  host: string
+  request?: { port: number } | null // Open this port, e.g. from the new port toast
+}
+
+// Ports previewed before, most recent first, kept per host
+const RECENT_PORTS_KEY = 'codebook-preview-ports'
+const MAX_RECENT_PORTS = 5
+
+function loadRecentPorts(host: string): number[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RECENT_PORTS_KEY) || '{}')
+    return Array.isArray(stored[host]) ? stored[host] : []
+  } catch {
+    return []
+  }
+}
+
+function saveRecentPorts(host: string, ports: number[]) {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RECENT_PORTS_KEY) || '{}')
+    stored[host] = ports
+    localStorage.setItem(RECENT_PORTS_KEY, JSON.stringify(stored))
+  } catch {
+    // Storage full or unavailable - recent ports are a convenience
+  }
+}
+
+// Anything the previewed page may do in the frame: not navigate Codebook itself
+const FRAME_SANDBOX = 'allow-scripts allow-same-origin allow-forms allow-modals allow-downloads allow-popups allow-popups-to-escape-sandbox'
+
+// A link to `path` on the preview server that logs in there first, with a
+// ticket from the app
+async function previewLink(path: string): Promise<string> {
+  const res = await fetch(withBasePath('/api/preview'), { method: 'POST' })
+  const data = await res.json()
+  if (!res.ok) {
+    throw new Error(data.error || 'Web preview is unavailable')
+  }
+  return `${data.origin}${data.loginPath}?ticket=${encodeURIComponent(data.ticket)}&next=${encodeURIComponent(path)}`
+}
+
+// In-app browser for web servers running on the host. Pages are loaded through
+// the preview server's /preview/<host>/<port>/ proxy, which forwards over the
+// host's SSH connection, so a dev server bound to the remote's localhost still
+// works. The preview server is another origin, so the pages can't reach the app.
+export default function PreviewPanel({ host, request }: PreviewPanelProps) {
+  const { listeningPorts, forwards } = useConnection()
+  const [showForwards, setShowForwards] = useState(false)
+  const [recentPorts, setRecentPorts] = useState<number[]>(() => loadRecentPorts(host))
+  const [port, setPort] = useState<number | null>(null)
+  const [portInput, setPortInput] = useState(() => String(loadRecentPorts(host)[0] || 3000))
+  const [address, setAddress] = useState('/')
+  const [frameKey, setFrameKey] = useState(0)
+  const [src, setSrc] = useState('')
+  const [error, setError] = useState('')
+  const openCount = useRef(0) // Only the latest open() sets the frame
+
+  const prefix = port ? `/preview/${encodeURIComponent(host)}/${port}` : ''
+
+  const open = useCallback((nextPort: number, path: string) => {
+    const normalized = path.startsWith('/') ? path : `/${path}`
+    setPort(nextPort)
+    setAddress(normalized)
+    setError('')
+    const count = ++openCount.current
+    previewLink(`/preview/${encodeURIComponent(host)}/${nextPort}${normalized}`).then((link) => {
+      if (count !== openCount.current) return
+      setSrc(link)
+      setFrameKey(key => key + 1)
+    }, (err) => {
+      if (count === openCount.current) setError(err.message)
+    })
+
+    const ports = [nextPort, ...recentPorts.filter(p => p !== nextPort)].slice(0, MAX_RECENT_PORTS)
+    setRecentPorts(ports)
+    saveRecentPorts(host, ports)
+  }, [host, recentPorts])
+
+  // Only for a new request, not whenever open() changes
+  useEffect(() => {
+    if (request) {
+      setPortInput(String(request.port))
+      open(request.port, '/')
+    }
+  }, [request]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const handleConnect = (e: React.FormEvent) => {
+    e.preventDefault()
+    const nextPort = parseInt(portInput, 10)
+    if (nextPort >= 1 && nextPort <= 65535) {
+      open(nextPort, '/')
+    }
+  }
+
+  const handleNavigate = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (port) open(port, address)
+  }
+
+  // The tab is opened right away, before the ticket arrives, or popup blockers
+  // step in
+  const openInNewTab = () => {
+    const tab = window.open('', '_blank')
+    if (!tab) return
+    tab.opener = null
+    previewLink(prefix + address).then((link) => {
+      tab.location.href = link
+    }, (err) => {
+      tab.close()
+      setError(err.message)
+    })
+  }
+
+  return (
+    <div className="preview-panel">
+      <div className="preview-header">
+        <form className="port-form" onSubmit={handleConnect}>
+          <span className="port-label">Port</span>
+          <input
+            className="port-input"
+            type="number"
+            inputMode="numeric"
+            min={1}
+            max={65535}
+            value={portInput}
+            onChange={(e) => setPortInput(e.target.value)}
+          />
+          <button type="submit" className="header-btn">Open</button>
+        </form>
+        {host !== 'local' && (
+          <button className="header-btn tunnels-btn" onClick={() => setShowForwards(true)} title="SOCKS proxies and remote forwards">
+            Tunnels
+            {forwards.some(forward => forward.active) && (
+              <span className="tunnels-count">{forwards.filter(forward => forward.active).length}</span>
+            )}
+          </button>
+        )}
+        {port && (
+          <form className="address-form" onSubmit={handleNavigate}>
+            <input
+              className="address-input"
+              value={address}
+              onChange={(e) => setAddress(e.target.value)}
+              autoCapitalize="off"
+              autoCorrect="off"
+              spellCheck={false}
+            />
+            <button type="button" className="header-btn" onClick={() => open(port, address)} title="Reload">
+              <ReloadIcon />
+            </button>
+            <button type="button" className="header-btn" onClick={openInNewTab} title="Open in new tab">
+              <ExternalIcon />
+            </button>
+          </form>
+        )}
+      </div>
+
+      {showForwards && <ForwardsPanel onClose={() => setShowForwards(false)} />}
+
+      {port && error ? (
+        <div className="preview-empty">
+          <p className="preview-error">{error}</p>
+        </div>
+      ) : port ? (
+        // The frame is on the preview origin, so its address can't be followed
+        // here; the address bar shows what was last opened
+        <iframe key={frameKey} className="preview-frame" src={src} sandbox={FRAME_SANDBOX} />
+      ) : (
+        <div className="preview-empty">
+          <p>Open a web server running on {host === 'local' ? 'this machine' : host}, such as a dev server started from the terminal.</p>
+          {listeningPorts.length > 0 && (
+            <div className="port-group">
+              <span className="port-group-title">Listening</span>
+              <div className="port-list">
+                {listeningPorts.map(p => (
+                  <button key={p} className="port-chip listening" onClick={() => open(p, '/')}>:{p}</button>
+                ))}
+              </div>
+            </div>
+          )}
+          {recentPorts.some(p => !listeningPorts.includes(p)) && (
+            <div className="port-group">
+              <span className="port-group-title">Recent</span>
+              <div className="port-list">
+                {recentPorts.filter(p => !listeningPorts.includes(p)).map(p => (
+                  <button key={p} className="port-chip" onClick={() => open(p, '/')}>:{p}</button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      <style jsx>{`
+        .preview-panel {
+          display: flex;
+          flex-direction: column;
+          height: 100%;
+          background: #0f0f23;
+          position: relative;
+        }
+        .preview-header {
+          display: flex;
+          flex-wrap: wrap;
+          align-items: center;
+          gap: 8px;
+          background: rgba(22, 33, 62, 0.95);
+          border-bottom: 1px solid rgba(255, 255, 255, 0.05);
+          min-height: 43px;
+          padding: 5px 10px;
+        }
+        .port-form,
+        .address-form {
+          display: flex;
+          align-items: center;
+          gap: 6px;
+        }
+        .address-form {
+          flex: 1;
+          min-width: 200px;
+        }
+        .port-label {
+          color: #888;
+          font-size: 0.8rem;
+        }
+        .port-input,
+        .address-input {
+          background: rgba(255, 255, 255, 0.05);
+          border: 1px solid rgba(255, 255, 255, 0.1);
+          border-radius: 8px;
+          color: #fff;
+          font-size: 0.85rem;
+          padding: 6px 8px;
+          outline: none;
+        }
+        .port-input {
+          width: 80px;
+        }
+        .address-input {
+          flex: 1;
+          min-width: 0;
+          font-family: monospace;
+        }
+        .port-input:focus,
+        .address-input:focus {
+          border-color: rgba(138, 180, 248, 0.4);
+        }
+        .header-btn {
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          min-width: 32px;
+          height: 32px;
+          padding: 0 10px;
+          background: rgba(255, 255, 255, 0.03);
+          border: 1px solid rgba(255, 255, 255, 0.08);
+          border-radius: 9px;
+          color: #888;
+          font-size: 0.82rem;
+          cursor: pointer;
+          transition: all 0.15s;
+        }
+        .header-btn:hover {
+          background: rgba(255, 255, 255, 0.08);
+          color: #fff;
+        }
+        .header-btn:active {
+          transform: scale(0.92);
+        }
+        .tunnels-btn {
+          gap: 6px;
+        }
+        .tunnels-count {
+          background: #4ade80;
+          color: #0f0f23;
+          border-radius: 8px;
+          font-size: 0.7rem;
+          font-weight: 600;
+          padding: 0 6px;
+        }
+        .preview-frame {
+          flex: 1;
+          width: 100%;
+          border: none;
+          background: #fff;
+        }
+        .preview-empty {
+          flex: 1;
+          display: flex;
+          flex-direction: column;
+          align-items: center;
+          justify-content: center;
+          gap: 16px;
+          padding: 24px;
+          color: #888;
+          font-size: 0.9rem;
+          text-align: center;
+        }
+        .preview-error {
+          color: #ff6b6b;
+        }
+        .port-group {
+          display: flex;
+          flex-direction: column;
+          align-items: center;
+          gap: 8px;
+        }
+        .port-group-title {
+          font-size: 0.75rem;
+          text-transform: uppercase;
+          letter-spacing: 0.05em;
+        }
+        .port-list {
+          display: flex;
+          flex-wrap: wrap;
+          justify-content: center;
+          gap: 8px;
+        }
+        .port-chip {
+          background: rgba(255, 255, 255, 0.03);
+          border: 1px solid rgba(255, 255, 255, 0.08);
+          border-radius: 9px;
+          color: #aaa;
+          font-family: monospace;
+          font-size: 0.9rem;
+          padding: 8px 14px;
+          cursor: pointer;
+        }
+        .port-chip.listening {
+          background: rgba(74, 222, 128, 0.08);
+          border-color: rgba(74, 222, 128, 0.25);
+          color: #4ade80;
+        }
+      `}</style>
+    </div>
+  )
+}
+
+function ReloadIcon() {
+  return (
+    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <polyline points="23 4 23 10 17 10" />
+      <path d="M20.49 15a9 9 0 1 1-2.12-9.36L23 10" />
+    </svg>
+  )
+}
+
+function ExternalIcon() {
+  return (
+    <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+      <path d="M18 13v6a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V8a2 2 0 0 1 2-2h6" />
+      <polyline points="15 3 21 3 21 9" />
+      <line x1="10" y1="14" x2="21" y2="3" />
+    </svg>
+  )
+}
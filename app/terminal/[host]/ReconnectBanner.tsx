@@ -0,0 +1,93 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { ConnectionReconnectingMessage } from '@/lib/connection-protocol'
+
+interface ReconnectBannerProps {
+  host: string
+  status: ConnectionReconnectingMessage
+  onRetry: () => void
+}
+
+// Shown while the server connects to the host again after losing it, with a
+// countdown to the next attempt and a way to skip the wait
+export default function ReconnectBanner({ host, status, onRetry }: ReconnectBannerProps) {
+  const [secondsLeft, setSecondsLeft] = useState(0)
+
+  useEffect(() => {
+    const startsAt = Date.now() + status.delay
+    const tick = () => setSecondsLeft(Math.max(0, Math.ceil((startsAt - Date.now()) / 1000)))
+    tick()
+    if (!status.delay) return
+    const timer = setInterval(tick, 1000)
+    return () => clearInterval(timer)
+  }, [status])
+
+  const waiting = secondsLeft > 0
+
+  return (
+    <div className="reconnect-banner">
+      <div className="reconnect-text">
+        <span className="reconnect-title">
+          Reconnecting to {host} (attempt {status.attempt}){waiting ? ` in ${secondsLeft}s` : '…'}
+        </span>
+        {status.error && <span className="reconnect-error" title={status.error}>{status.error}</span>}
+      </div>
+      <button className="reconnect-retry" onClick={onRetry} disabled={!waiting}>
+        Retry now
+      </button>
+
+      <style jsx>{`
+        .reconnect-banner {
+          position: fixed;
+          left: 50%;
+          top: calc(56px + env(safe-area-inset-top, 0px));
+          transform: translateX(-50%);
+          width: calc(100% - 32px);
+          max-width: 360px;
+          display: flex;
+          align-items: center;
+          gap: 10px;
+          background: linear-gradient(180deg, #1e2a4a 0%, #16213e 100%);
+          border: 1px solid rgba(251, 191, 36, 0.3);
+          border-radius: 14px;
+          padding: 10px 12px 10px 14px;
+          box-shadow: 0 8px 24px rgba(0, 0, 0, 0.4);
+          z-index: 900;
+        }
+        .reconnect-text {
+          flex: 1;
+          min-width: 0;
+          display: flex;
+          flex-direction: column;
+          gap: 2px;
+        }
+        .reconnect-title {
+          color: #fff;
+          font-size: 0.85rem;
+        }
+        .reconnect-error {
+          color: #888;
+          font-size: 0.75rem;
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        }
+        .reconnect-retry {
+          background: rgba(138, 180, 248, 0.15);
+          border: 1px solid rgba(138, 180, 248, 0.3);
+          border-radius: 8px;
+          color: #8ab4f8;
+          font-size: 0.8rem;
+          padding: 6px 10px;
+          cursor: pointer;
+          white-space: nowrap;
+        }
+        .reconnect-retry:disabled {
+          opacity: 0.5;
+          cursor: default;
+        }
+      `}</style>
+    </div>
+  )
+}
@@ -0,0 +1,212 @@
+'use client'
+
+import { useState } from 'react'
+import { useConnection, QualitySample, QUALITY_HISTORY } from './ConnectionContext'
+
+interface SignalIndicatorProps {
+  hidden?: boolean // Along with the bottom nav
+}
+
+const GRAPH_WIDTH = 280
+const GRAPH_HEIGHT = 56
+const GRAPH_MIN_SCALE = 100 // Milliseconds at the top of the graph, at least
+
+// Round trips (ms) up to which the signal shows 4, 3 and 2 bars
+const BAR_LIMITS = [100, 250, 600]
+const SLOW = BAR_LIMITS[1]
+
+function totalLatency(sample: QualitySample): number {
+  return sample.latency + (sample.hostLatency ?? 0)
+}
+
+function signalBars(sample: QualitySample | undefined): number {
+  if (!sample) return 0
+  const total = totalLatency(sample)
+  return 4 - BAR_LIMITS.filter(limit => total > limit).length
+}
+
+function formatRate(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B/s`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB/s`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB/s`
+}
+
+// Which leg of the trip is to blame when things are slow
+function diagnosis(sample: QualitySample): string {
+  if (totalLatency(sample) <= SLOW) return 'Connection is good'
+  if (sample.hostLatency !== null && sample.hostLatency > sample.latency) {
+    return 'Slow between Codebook and the host'
+  }
+  return 'Slow between this device and Codebook - likely the Wi-Fi or mobile network'
+}
+
+// Stacked area path for the graph, newest sample at the right edge
+function areaPath(values: number[], scale: number): string {
+  const step = GRAPH_WIDTH / (QUALITY_HISTORY - 1)
+  const x = (index: number) => (GRAPH_WIDTH - (values.length - 1 - index) * step).toFixed(1)
+  const y = (ms: number) => (GRAPH_HEIGHT - Math.min(ms / scale, 1) * GRAPH_HEIGHT).toFixed(1)
+  const line = values.map((ms, index) => `L${x(index)},${y(ms)}`).join(' ')
+  return `M${x(0)},${GRAPH_HEIGHT} ${line} L${x(values.length - 1)},${GRAPH_HEIGHT} Z`
+}
+
+// Signal bars in the bottom nav with the latest round trip; tapping shows
+// where the time goes (this device to Codebook, Codebook to the host) over
+// the last few minutes, and the traffic on the connection
+export default function SignalIndicator({ hidden = false }: SignalIndicatorProps) {
+  const { quality, connected, server } = useConnection()
+  const [open, setOpen] = useState(false)
+  const latest = connected ? quality[quality.length - 1] : undefined
+  const bars = signalBars(latest)
+  const level = bars >= 3 ? 'good' : bars === 2 ? 'fair' : 'poor'
+  const remote = server?.backend === 'ssh'
+
+  const totals = quality.map(totalLatency)
+  const scale = Math.max(GRAPH_MIN_SCALE, ...totals)
+
+  return (
+    <>
+      <button
+        className={`nav-btn signal ${open ? 'active' : ''} ${latest ? level : 'offline'}`}
+        onClick={() => setOpen(!open)}
+        title="Connection quality"
+      >
+        <svg className="nav-icon" viewBox="0 0 24 24" fill="currentColor">
+          {[0, 1, 2, 3].map(bar => (
+            <rect
+              key={bar}
+              x={3 + bar * 5}
+              y={18 - bar * 4}
+              width="3"
+              height={4 + bar * 4}
+              rx="1"
+              opacity={bar < bars ? 1 : 0.25}
+            />
+          ))}
+        </svg>
+        <span className="nav-label">{latest ? `${totalLatency(latest)} ms` : 'Offline'}</span>
+      </button>
+
+      {open && !hidden && (
+        <>
+          <div className="signal-backdrop" onClick={() => setOpen(false)} />
+          <div className="signal-panel">
+            <div className="signal-title">Connection</div>
+            {latest ? (
+              <>
+                <div className="signal-row">
+                  <span><i className="swatch device" />This device ↔ Codebook</span>
+                  <span>{latest.latency} ms</span>
+                </div>
+                {remote && (
+                  <div className="signal-row">
+                    <span><i className="swatch host" />Codebook ↔ host</span>
+                    <span>{latest.hostLatency === null ? '-' : `${latest.hostLatency} ms`}</span>
+                  </div>
+                )}
+                <div className="signal-row">
+                  <span>Traffic</span>
+                  <span>↓ {formatRate(latest.bytesIn)} ↑ {formatRate(latest.bytesOut)}</span>
+                </div>
+                {quality.length > 1 && (
+                  <svg className="signal-graph" viewBox={`0 0 ${GRAPH_WIDTH} ${GRAPH_HEIGHT}`} preserveAspectRatio="none">
+                    <path d={areaPath(totals, scale)} className="area device" />
+                    {remote && <path d={areaPath(quality.map(sample => sample.hostLatency ?? 0), scale)} className="area host" />}
+                  </svg>
+                )}
+                {quality.length > 1 && <div className="signal-scale">Up to {Math.round(scale)} ms</div>}
+                <div className={`signal-diagnosis ${level}`}>{diagnosis(latest)}</div>
+              </>
+            ) : (
+              <div className="signal-diagnosis poor">Not connected</div>
+            )}
+          </div>
+        </>
+      )}
+
+      <style jsx>{`
+        .signal.good { color: #4ade80; }
+        .signal.fair { color: #fbbf24; }
+        .signal.poor { color: #ff6b6b; }
+        .signal .nav-label {
+          font-variant-numeric: tabular-nums;
+          white-space: nowrap;
+        }
+        .signal-backdrop {
+          position: fixed;
+          inset: 0;
+          z-index: 1000;
+        }
+        .signal-panel {
+          position: fixed;
+          left: 50%;
+          bottom: calc(72px + env(safe-area-inset-bottom, 0px));
+          transform: translateX(-50%);
+          width: calc(100% - 32px);
+          max-width: 320px;
+          background: linear-gradient(180deg, #1e2a4a 0%, #16213e 100%);
+          border: 1px solid rgba(255, 255, 255, 0.08);
+          border-radius: 14px;
+          padding: 12px 14px;
+          box-shadow: 0 8px 24px rgba(0, 0, 0, 0.4);
+          z-index: 1001;
+        }
+        .signal-title {
+          color: #fff;
+          font-size: 0.85rem;
+          font-weight: 600;
+          margin-bottom: 8px;
+        }
+        .signal-row {
+          display: flex;
+          justify-content: space-between;
+          gap: 12px;
+          font-size: 0.75rem;
+          padding: 3px 0;
+          color: #aaa;
+          font-variant-numeric: tabular-nums;
+        }
+        .swatch {
+          display: inline-block;
+          width: 8px;
+          height: 8px;
+          border-radius: 2px;
+          margin-right: 6px;
+        }
+        .swatch.device { background: #8ab4f8; }
+        .swatch.host { background: #c084fc; }
+        .signal-graph {
+          display: block;
+          width: 100%;
+          height: ${GRAPH_HEIGHT}px;
+          margin-top: 8px;
+          background: rgba(0, 0, 0, 0.2);
+          border-radius: 6px;
+        }
+        .area.device { fill: rgba(138, 180, 248, 0.6); }
+        .area.host { fill: rgba(192, 132, 252, 0.8); }
+        .signal-scale {
+          font-size: 0.65rem;
+          color: #666;
+          margin-top: 4px;
+        }
+        .signal-diagnosis {
+          font-size: 0.75rem;
+          margin-top: 8px;
+        }
+        .signal-diagnosis.good { color: #4ade80; }
+        .signal-diagnosis.fair { color: #fbbf24; }
+        .signal-diagnosis.poor { color: #ff6b6b; }
+
+        /* Next to the nav when it moves to the left side */
+        @media (orientation: landscape) and (max-height: 500px),
+               (orientation: landscape) and (min-width: 1024px) {
+          .signal-panel {
+            left: calc(84px + env(safe-area-inset-left, 0px));
+            bottom: 16px;
+            transform: none;
+          }
+        }
+      `}</style>
+    </>
+  )
+}
@@ -4,7 +4,7 @@ import { useEffect, useRef, useState, useCallback } from 'react'
 import { Terminal } from '@xterm/xterm'
 import { FitAddon } from '@xterm/addon-fit'
 import '@xterm/xterm/css/xterm.css'
-import { usePassword } from './PasswordContext'
+import { useConnection } from './ConnectionContext'
 import QuickKeysPanel, { QuickKeysPanelRef } from './QuickKeysPanel'
 import { TerminalTabState } from '@/lib/session-storage'
 import { serializeTerminalBuffer, restoreTerminalBuffer } from '@/lib/terminal-serializer'
@@ -13,10 +13,10 @@ import { useSettings } from '@/app/SettingsContext'
 interface TerminalTab {
   id: string
   title: string
-  ws: WebSocket | null
   term: Terminal | null
   fitAddon: FitAddon | null
   connected: boolean
+  exited?: boolean // Shell ended - the tab stays open but won't reconnect
   containerEl: HTMLDivElement | null
   initialContent?: string // Content to restore after connection
 }
@@ -40,25 +40,11 @@ export default function TerminalPanel({
   initialTerminalTabs = [],
   onTerminalStateChange,
 }: TerminalPanelProps) {
-  const { password: cachedPassword, setPassword: setCachedPassword } = usePassword()
+  const { connected, server, openTerminal, writeTerminal, resizeTerminal, closeTerminal } = useConnection()
   const { settings } = useSettings()
   const initialTabsRestoredRef = useRef(false)
-
-  // On mount, check sessionStorage for password from home page
-  useEffect(() => {
-    const storedPassword = sessionStorage.getItem(`ssh_password_${host}`)
-    if (storedPassword && !cachedPassword) {
-      setCachedPassword(storedPassword)
-      // Clear from sessionStorage after reading
-      sessionStorage.removeItem(`ssh_password_${host}`)
-    }
-  }, [host, cachedPassword, setCachedPassword])
   const [tabs, setTabs] = useState<TerminalTab[]>([])
   const [activeTabId, setActiveTabId] = useState<string | null>(null)
-  const [showPasswordModal, setShowPasswordModal] = useState(false)
-  const [passwordPrompt, setPasswordPrompt] = useState('')
-  const [passwordInput, setPasswordInput] = useState('')
-  const [pendingTabId, setPendingTabId] = useState<string | null>(null)
   const [gestureMode, setGestureMode] = useState(true) // Gesture mode enabled by default
   const containerRef = useRef<HTMLDivElement>(null)
   const tabCounter = useRef(0)
@@ -104,22 +90,22 @@ export default function TerminalPanel({
   }, [gestureMode])
 
   // Write buffer for batching terminal output using requestAnimationFrame
-  const writeBuffers = useRef<Map<string, string[]>>(new Map())
+  const writeBuffers = useRef<Map<string, (string | Uint8Array)[]>>(new Map())
   const rafIds = useRef<Map<string, number>>(new Map())
 
   // Flush buffered writes on animation frame for smooth scrolling
   const flushWrites = useCallback((tabId: string, term: Terminal) => {
     const buffer = writeBuffers.current.get(tabId)
     if (buffer && buffer.length > 0) {
-      const data = buffer.join('')
+      // Raw output bytes are written as-is so xterm can decode UTF-8 split across chunks
+      buffer.forEach(chunk => term.write(chunk))
       buffer.length = 0
-      term.write(data)
     }
     rafIds.current.delete(tabId)
   }, [])
 
   // Queue data for batched writing
-  const queueWrite = useCallback((tabId: string, term: Terminal, data: string) => {
+  const queueWrite = useCallback((tabId: string, term: Terminal, data: string | Uint8Array) => {
     let buffer = writeBuffers.current.get(tabId)
     if (!buffer) {
       buffer = []
@@ -146,7 +132,6 @@ export default function TerminalPanel({
       newTabRef = {
         id,
         title,
-        ws: null,
         term: null,
         fitAddon: null,
         connected: false,
@@ -176,7 +161,6 @@ export default function TerminalPanel({
         newTabRef = {
           id,
           title,
-          ws: null,
           term: null,
           fitAddon: null,
           connected: false,
@@ -201,7 +185,8 @@ export default function TerminalPanel({
     setTabs(prev => {
       const tab = prev.find(t => t.id === id)
       if (tab) {
-        tab.ws?.close()
+        // End the server-side shell rather than leaving it around for reattach
+        closeTerminal(id)
         tab.term?.dispose()
         tab.containerEl?.remove()
       }
@@ -213,7 +198,7 @@ export default function TerminalPanel({
       }
       return newTabs
     })
-  }, [activeTabId])
+  }, [activeTabId, closeTerminal])
 
   // Initialize tabs on mount (restore from session or create new)
   useEffect(() => {
@@ -288,38 +273,18 @@ export default function TerminalPanel({
       term.loadAddon(fitAddon)
       term.open(termDiv)
 
-      // Create WebSocket connection for this tab
-      const wsUrl = `ws://${window.location.hostname}:3001?host=${encodeURIComponent(host)}`
-      const ws = new WebSocket(wsUrl)
+      // Terminal channel for this tab, multiplexed over the host connection. The
+      // server keeps the shell alive across disconnects and replays what we missed.
       const tabId = tab.id
+      let hasOpened = false
+      let channelEnded = false
 
-      // Keepalive ping interval to prevent connection timeout
-      let pingInterval: ReturnType<typeof setInterval> | null = null
-
-      ws.onopen = () => {
-        console.log('WebSocket connected for tab:', tabId)
-        setTabs(prev => prev.map(t =>
-          t.id === tabId ? { ...t, connected: true } : t
-        ))
-
-        // Start keepalive ping every 30 seconds
-        pingInterval = setInterval(() => {
-          if (ws.readyState === WebSocket.OPEN) {
-            ws.send(JSON.stringify({ type: 'ping' }))
-          }
-        }, 30000)
-      }
-
-      ws.onclose = () => {
-        // Clear keepalive interval
-        if (pingInterval) {
-          clearInterval(pingInterval)
-          pingInterval = null
+      const send = (data: string) => {
+        if (!channelEnded) {
+          writeTerminal(tabId, data)
         }
-        setTabs(prev => prev.map(t =>
-          t.id === tabId ? { ...t, connected: false } : t
-        ))
       }
+      const sendResize = () => resizeTerminal(tabId, term.cols, term.rows)
 
       let initialCommandsSent = false
       const hasInitialContent = !!tab.initialContent
@@ -330,7 +295,7 @@ export default function TerminalPanel({
         setTimeout(() => {
           try {
             fitAddon.fit()
-            ws.send(JSON.stringify({ type: 'resize', cols: term.cols, rows: term.rows }))
+            sendResize()
 
             // If restoring from session, write initial content first
             if (hasInitialContent && tab.initialContent) {
@@ -346,9 +311,9 @@ export default function TerminalPanel({
               const cdCommand = hasInitialContent
                 ? `cd "${workspacePath.includes(' ') ? workspacePath : workspacePath}"\n`
                 : workspacePath.includes(' ') ? `cd "${workspacePath}" && clear\n` : `cd ${workspacePath} && clear\n`
-              ws.send(cdCommand)
+              send(cdCommand)
             } else if (!hasInitialContent) {
-              ws.send('clear\n')
+              send('clear\n')
             }
           } catch (e) {
             console.error('Error sending initial commands:', e)
@@ -356,44 +321,44 @@ export default function TerminalPanel({
         }, 100)
       }
 
-      ws.onmessage = (event) => {
-        const data = event.data
-        try {
-          const parsed = JSON.parse(data)
-          if (parsed.type === 'auth:password-required') {
-            // Server is asking for password
-            if (cachedPassword) {
-              // Use cached password automatically
-              console.log('Using cached password for', host)
-              ws.send(JSON.stringify({
-                type: 'auth:password',
-                password: cachedPassword
-              }))
-              return
-            }
-            // No cached password - show modal
-            console.log('Password required - showing modal')
-            const prompt = parsed.prompts?.[0]?.prompt || 'Password:'
-            setPasswordPrompt(prompt)
-            setPendingTabId(tabId)
-            setShowPasswordModal(true)
-            return
-          }
-          // Ignore pong responses (keepalive) and file operation responses
-          if (parsed.type === 'pong') return
-          if (parsed.type?.startsWith('file:')) return
-        } catch {
-          // Not JSON - terminal data, connection is ready
-          if (!initialCommandsSent) {
-            sendInitialCommands()
+      openTerminal(tabId, term.cols, term.rows, {
+        onData: (data) => {
+          // Use batched writes for smooth scrolling
+          queueWrite(tabId, term, data)
+        },
+        onOpened: ({ resumed }) => {
+          if (resumed) {
+            // The server replays what we missed - nothing to restore or re-run
+            initialCommandsSent = true
+            fitAddon.fit()
+            sendResize()
+          } else if (hasOpened) {
+            // The old shell is gone (server restarted or session reaped)
+            queueWrite(tabId, term, '\r\n\x1b[33m[Session expired - started a new shell]\x1b[0m\r\n')
+            initialCommandsSent = false
           }
-        }
-        // Use batched writes for smooth scrolling
-        queueWrite(tabId, term, data)
-      }
+          hasOpened = true
+        },
+        onReady: () => {
+          // Input sent before this (e.g. while an SSH login is pending) would be lost
+          setTabs(prev => prev.map(t =>
+            t.id === tabId ? { ...t, connected: true } : t
+          ))
+          sendInitialCommands()
+        },
+        onExit: ({ exitCode, signal }) => {
+          // Shell exited - the tab stays open but won't be reopened
+          channelEnded = true
+          setTabs(prev => prev.map(t =>
+            t.id === tabId ? { ...t, connected: false, exited: true } : t
+          ))
+          const status = signal ? ` (${signal})` : exitCode ? ` with code ${exitCode}` : ''
+          queueWrite(tabId, term, `\r\n\x1b[90m[Process exited${status}]\x1b[0m\r\n`)
+        },
+      })
 
       term.onData((data) => {
-        if (ws.readyState === WebSocket.OPEN) {
+        if (!channelEnded) {
           let dataToSend = data
 
           // Apply quick key modifiers to single character input
@@ -423,7 +388,7 @@ export default function TerminalPanel({
           // Clear completion pending state on Enter or Escape (user committed or cancelled)
           if (dataToSend === '\r' || dataToSend === '\x1b') {
             tabCompletionPendingRef.current.delete(tabId)
-            ws.send(dataToSend)
+            send(dataToSend)
             return
           }
           // If TAB completion list is showing and user types anything (except TAB),
@@ -431,16 +396,14 @@ export default function TerminalPanel({
           if (tabCompletionPendingRef.current.has(tabId) && dataToSend.length > 0 && dataToSend !== '\t') {
             tabCompletionPendingRef.current.delete(tabId)
             // Send character first so shell registers it
-            ws.send(dataToSend)
+            send(dataToSend)
             // Then clear screen after a delay to remove completion list
             setTimeout(() => {
-              if (ws.readyState === WebSocket.OPEN) {
-                ws.send('\x0c') // Ctrl+L to clear and redraw with updated command
-              }
+              send('\x0c') // Ctrl+L to clear and redraw with updated command
             }, 100)
             return
           }
-          ws.send(dataToSend)
+          send(dataToSend)
         }
       })
 
@@ -471,11 +434,10 @@ export default function TerminalPanel({
             // 2. Dimensions actually changed
             // 3. Container wasn't just shown (wasHidden was false)
             // This prevents resize when switching tabs
-            if (ws.readyState === WebSocket.OPEN &&
-                lastCols > 0 && lastRows > 0 &&
+            if (lastCols > 0 && lastRows > 0 &&
                 !wasHidden &&
                 (newCols !== lastCols || newRows !== lastRows)) {
-              ws.send(JSON.stringify({ type: 'resize', cols: newCols, rows: newRows }))
+              resizeTerminal(tabId, newCols, newRows)
             }
 
             lastCols = newCols
@@ -562,9 +524,7 @@ export default function TerminalPanel({
         }
 
         const sendKey = (key: string) => {
-          if (ws.readyState === WebSocket.OPEN) {
-            ws.send(key)
-          }
+          send(key)
         }
 
         const onTouchStart = (e: TouchEvent) => {
@@ -710,9 +670,7 @@ export default function TerminalPanel({
           if (isPinching) {
             isPinching = false
             // Send resize to server after zoom completes
-            if (ws.readyState === WebSocket.OPEN) {
-              ws.send(JSON.stringify({ type: 'resize', cols: term.cols, rows: term.rows }))
-            }
+            sendResize()
             term.focus()
             return
           }
@@ -770,22 +728,22 @@ export default function TerminalPanel({
 
       // Update tab with terminal instances
       setTabs(prev => prev.map(t =>
-        t.id === tabId ? { ...t, ws, term, fitAddon, containerEl: termDiv } : t
+        t.id === tabId ? { ...t, term, fitAddon, containerEl: termDiv } : t
       ))
     })
-  }, [tabs, activeTabId, host, workspacePath, cachedPassword, queueWrite, settings.terminalFontSize])
+  }, [tabs, activeTabId, host, workspacePath, queueWrite, openTerminal, writeTerminal, resizeTerminal, settings.terminalFontSize])
 
   // Change directory when workspace changes
   useEffect(() => {
     if (workspacePath && workspacePath !== lastWorkspacePath.current) {
       lastWorkspacePath.current = workspacePath
       const tab = tabs.find(t => t.id === activeTabId)
-      if (tab?.ws?.readyState === WebSocket.OPEN) {
+      if (tab?.connected) {
         const cdCommand = workspacePath.includes(' ') ? `cd "${workspacePath}" && clear\n` : `cd ${workspacePath} && clear\n`
-        tab.ws.send(cdCommand)
+        writeTerminal(tab.id, cdCommand)
       }
     }
-  }, [workspacePath, activeTabId, tabs])
+  }, [workspacePath, activeTabId, tabs, writeTerminal])
 
   // Re-fit terminal when panel becomes visible
   // Note: We only call fit() here - the ResizeObserver handles sending resize events
@@ -817,16 +775,14 @@ export default function TerminalPanel({
           try {
             tab.fitAddon.fit()
             // Send resize to server
-            if (tab.ws?.readyState === WebSocket.OPEN) {
-              tab.ws.send(JSON.stringify({ type: 'resize', cols: tab.term.cols, rows: tab.term.rows }))
-            }
+            resizeTerminal(tab.id, tab.term.cols, tab.term.rows)
           } catch (e) {
             // Ignore
           }
         }
       }
     })
-  }, [settings.terminalFontSize, tabs])
+  }, [settings.terminalFontSize, tabs, resizeTerminal])
 
   // Periodic serialization to persist terminal state (every 5 seconds)
   useEffect(() => {
@@ -863,44 +819,13 @@ export default function TerminalPanel({
 
   const activeTab = tabs.find(t => t.id === activeTabId)
 
-  const handlePasswordSubmit = useCallback(() => {
-    if (!pendingTabId || !passwordInput) return
-
-    const tab = tabs.find(t => t.id === pendingTabId)
-    if (tab?.ws?.readyState === WebSocket.OPEN) {
-      tab.ws.send(JSON.stringify({
-        type: 'auth:password',
-        password: passwordInput
-      }))
-      // Cache the password for future terminal tabs
-      setCachedPassword(passwordInput)
-    }
-
-    setShowPasswordModal(false)
-    setPasswordInput('')
-    setPendingTabId(null)
-  }, [pendingTabId, passwordInput, tabs, setCachedPassword])
-
-  const handlePasswordCancel = useCallback(() => {
-    // Close the connection if password is cancelled
-    if (pendingTabId) {
-      const tab = tabs.find(t => t.id === pendingTabId)
-      if (tab?.ws) {
-        tab.ws.close()
-      }
-    }
-    setShowPasswordModal(false)
-    setPasswordInput('')
-    setPendingTabId(null)
-  }, [pendingTabId, tabs])
-
   // Handler for quick keys panel
   const handleQuickKeyPress = useCallback((key: string) => {
     const tab = tabs.find(t => t.id === activeTabId)
-    if (tab?.ws?.readyState === WebSocket.OPEN) {
-      tab.ws.send(key)
+    if (tab?.connected) {
+      writeTerminal(tab.id, key)
     }
-  }, [tabs, activeTabId])
+  }, [tabs, activeTabId, writeTerminal])
 
   // Handler for quick key modifier changes
   const handleModifierChange = useCallback((mods: { ctrl: boolean; alt: boolean; shift: boolean }) => {
@@ -934,7 +859,12 @@ export default function TerminalPanel({
           </button>
         </div>
         <div className="header-actions">
-          <span className={`status-dot ${activeTab?.connected ? 'connected' : ''}`} />
+          {server && !server.operations.includes('terminal:resize') && (
+            <span className="fixed-size" title="node-pty is not installed on the server, so terminals keep their initial size">
+              Fixed size
+            </span>
+          )}
+          <span className={`status-dot ${connected && activeTab?.connected ? 'connected' : ''}`} />
         </div>
       </div>
       <div className="terminal-wrapper">
@@ -1073,6 +1003,11 @@ export default function TerminalPanel({
           gap: 10px;
           padding: 0 8px;
         }
+        .fixed-size {
+          color: #888;
+          font-size: 0.7rem;
+          white-space: nowrap;
+        }
         .status-dot {
           width: 10px;
           height: 10px;
@@ -1133,126 +1068,8 @@ export default function TerminalPanel({
           color: #fff;
           box-shadow: 0 4px 16px rgba(74, 74, 138, 0.4);
         }
-        .password-modal-overlay {
-          position: fixed;
-          top: 0;
-          left: 0;
-          right: 0;
-          bottom: 0;
-          background: rgba(0, 0, 0, 0.7);
-          display: flex;
-          align-items: center;
-          justify-content: center;
-          z-index: 1000;
-          padding: 24px;
-          animation: fadeIn 0.15s ease-out;
-        }
-        @keyframes fadeIn {
-          from { opacity: 0; }
-          to { opacity: 1; }
-        }
-        .password-modal {
-          background: linear-gradient(180deg, #1e2a4a 0%, #16213e 100%);
-          border-radius: 20px;
-          padding: 24px;
-          width: 100%;
-          max-width: 360px;
-          animation: scaleIn 0.2s ease-out;
-          box-shadow: 0 20px 60px rgba(0, 0, 0, 0.4);
-        }
-        @keyframes scaleIn {
-          from { transform: scale(0.95); opacity: 0; }
-          to { transform: scale(1); opacity: 1; }
-        }
-        .password-modal h3 {
-          color: #fff;
-          margin: 0 0 20px;
-          font-size: 1.15rem;
-          font-weight: 600;
-        }
-        .password-modal input {
-          width: 100%;
-          padding: 14px 16px;
-          background: rgba(0, 0, 0, 0.3);
-          border: 1px solid rgba(255, 255, 255, 0.1);
-          border-radius: 12px;
-          color: #fff;
-          font-size: 1rem;
-          margin-bottom: 20px;
-          transition: all 0.15s;
-        }
-        .password-modal input:focus {
-          outline: none;
-          border-color: rgba(138, 180, 248, 0.5);
-          background: rgba(0, 0, 0, 0.4);
-        }
-        .password-modal input::placeholder {
-          color: #555;
-        }
-        .password-modal-actions {
-          display: flex;
-          gap: 12px;
-        }
-        .password-modal-actions button {
-          flex: 1;
-          padding: 14px 20px;
-          border-radius: 12px;
-          font-size: 0.95rem;
-          font-weight: 500;
-          cursor: pointer;
-          transition: all 0.15s;
-          min-height: 48px;
-        }
-        .password-modal-actions button:active {
-          transform: scale(0.97);
-        }
-        .btn-cancel {
-          background: rgba(255, 255, 255, 0.05);
-          border: 1px solid rgba(255, 255, 255, 0.1);
-          color: #888;
-        }
-        .btn-cancel:hover {
-          background: rgba(255, 255, 255, 0.1);
-          color: #fff;
-        }
-        .btn-submit {
-          background: linear-gradient(135deg, #4a7cff 0%, #3a6cef 100%);
-          border: none;
-          color: #fff;
-          box-shadow: 0 4px 12px rgba(74, 124, 255, 0.3);
-        }
-        .btn-submit:hover {
-          box-shadow: 0 6px 16px rgba(74, 124, 255, 0.4);
-        }
       `}</style>
 
-      {/* Password Modal */}
-      {showPasswordModal && (
-        <div className="password-modal-overlay" onClick={handlePasswordCancel}>
-          <div className="password-modal" onClick={e => e.stopPropagation()}>
-            <h3>{passwordPrompt}</h3>
-            <input
-              type="password"
-              placeholder="Enter password"
-              value={passwordInput}
-              onChange={e => setPasswordInput(e.target.value)}
-              onKeyDown={e => {
-                if (e.key === 'Enter') handlePasswordSubmit()
-                if (e.key === 'Escape') handlePasswordCancel()
-              }}
-              autoFocus
-            />
-            <div className="password-modal-actions">
-              <button className="btn-cancel" onClick={handlePasswordCancel}>
-                Cancel
-              </button>
-              <button className="btn-submit" onClick={handlePasswordSubmit}>
-                Connect
-              </button>
-            </div>
-          </div>
-        </div>
-      )}
     </div>
   )
 }
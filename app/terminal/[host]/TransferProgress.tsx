@@ -0,0 +1,110 @@
+'use client'
+
+import type { FileTransfer } from './ConnectionContext'
+
+interface TransferProgressProps {
+  transfers: FileTransfer[]
+  onCancel: (id: string) => void
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+// Progress bars for large file downloads/uploads, stacked above the bottom nav
+export default function TransferProgress({ transfers, onCancel }: TransferProgressProps) {
+  return (
+    <div className="transfer-list">
+      {transfers.map(transfer => {
+        const name = transfer.path.split('/').pop() || transfer.path
+        const percent = transfer.total > 0 ? Math.min(100, Math.round((transfer.loaded / transfer.total) * 100)) : 0
+        return (
+          <div key={transfer.id} className="transfer-item">
+            <div className="transfer-header">
+              <span className="transfer-name">
+                {transfer.direction === 'download' ? 'Opening' : 'Saving'} {name}
+              </span>
+              <button className="transfer-cancel" onClick={() => onCancel(transfer.id)}>
+                Cancel
+              </button>
+            </div>
+            <div className="transfer-bar">
+              <div className="transfer-bar-fill" style={{ width: `${percent}%` }} />
+            </div>
+            <div className="transfer-status">
+              {formatSize(transfer.loaded)} of {formatSize(transfer.total)} ({percent}%)
+            </div>
+          </div>
+        )
+      })}
+
+      <style jsx>{`
+        .transfer-list {
+          position: fixed;
+          left: 50%;
+          bottom: calc(72px + env(safe-area-inset-bottom, 0px));
+          transform: translateX(-50%);
+          width: calc(100% - 32px);
+          max-width: 360px;
+          display: flex;
+          flex-direction: column;
+          gap: 8px;
+          z-index: 900;
+        }
+        .transfer-item {
+          background: linear-gradient(180deg, #1e2a4a 0%, #16213e 100%);
+          border: 1px solid rgba(255, 255, 255, 0.08);
+          border-radius: 14px;
+          padding: 12px 14px;
+          box-shadow: 0 8px 24px rgba(0, 0, 0, 0.4);
+        }
+        .transfer-header {
+          display: flex;
+          align-items: center;
+          justify-content: space-between;
+          gap: 12px;
+          margin-bottom: 8px;
+        }
+        .transfer-name {
+          color: #fff;
+          font-size: 0.85rem;
+          overflow: hidden;
+          text-overflow: ellipsis;
+          white-space: nowrap;
+        }
+        .transfer-cancel {
+          background: rgba(255, 255, 255, 0.05);
+          border: 1px solid rgba(255, 255, 255, 0.1);
+          border-radius: 8px;
+          color: #888;
+          font-size: 0.8rem;
+          padding: 4px 10px;
+          cursor: pointer;
+          flex-shrink: 0;
+        }
+        .transfer-cancel:hover {
+          color: #fff;
+          background: rgba(255, 255, 255, 0.1);
+        }
+        .transfer-bar {
+          height: 6px;
+          background: rgba(255, 255, 255, 0.1);
+          border-radius: 3px;
+          overflow: hidden;
+        }
+        .transfer-bar-fill {
+          height: 100%;
+          background: linear-gradient(135deg, #4a7cff 0%, #3a6cef 100%);
+          transition: width 0.2s ease-out;
+        }
+        .transfer-status {
+          color: #888;
+          font-size: 0.75rem;
+          margin-top: 6px;
+        }
+      `}</style>
+    </div>
+  )
+}
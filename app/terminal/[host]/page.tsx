@@ -4,8 +4,8 @@ import { useState, useCallback, useEffect, useRef, Suspense } from 'react'
 import { useParams, useSearchParams } from 'next/navigation'
 import dynamic from 'next/dynamic'
 import { ConnectionProvider } from './ConnectionContext'
-import { PasswordContext } from './PasswordContext'
 import BottomNav from './BottomNav'
+import PortToast from './PortToast'
 import { useKeyboardHeight } from './useKeyboardHeight'
 import { getFileType, FileType } from './fileTypes'
 import {
@@ -26,6 +26,11 @@ const FileExplorer = dynamic(() => import('./FileExplorer'), {
   loading: () => <LoadingScreen message="Loading explorer..." />,
 })
 
+const PreviewPanel = dynamic(() => import('./PreviewPanel'), {
+  ssr: false,
+  loading: () => <LoadingScreen message="Loading preview..." />,
+})
+
 const EditorArea = dynamic(() => import('./EditorArea'), {
   ssr: false,
   loading: () => <LoadingScreen message="Loading editor..." />,
@@ -65,8 +70,11 @@ export default function TerminalPage() {
   const host = params.host as string
   const sessionIdParam = searchParams.get('session')
 
-  // Cached password for this host session
-  const [cachedPassword, setCachedPassword] = useState<string | null>(null)
+  // Cached passwords for this host session, by hop
+  const [cachedPasswords, setCachedPasswords] = useState<Record<string, string>>({})
+  const cachePassword = useCallback((hop: string, password: string) => {
+    setCachedPasswords(prev => ({ ...prev, [hop]: password }))
+  }, [])
 
   // Session state
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(null)
@@ -82,6 +90,8 @@ export default function TerminalPage() {
   // Panel visibility
   const [showExplorer, setShowExplorer] = useState(false)
   const [showTerminal, setShowTerminal] = useState(false)
+  const [showPreview, setShowPreview] = useState(false)
+  const [previewRequest, setPreviewRequest] = useState<{ port: number } | null>(null) // A port to open in the preview
 
   // Fullscreen state
   const [explorerFullscreen, setExplorerFullscreen] = useState(false)
@@ -273,6 +283,7 @@ export default function TerminalPage() {
       setExplorerFullscreen(true)
       setShowTerminal(false)
       setTerminalFullscreen(false)
+      setShowPreview(false)
     }
   }, [showExplorer])
 
@@ -285,9 +296,36 @@ export default function TerminalPage() {
       setTerminalFullscreen(true)
       setShowExplorer(false)
       setExplorerFullscreen(false)
+      setShowPreview(false)
     }
   }, [showTerminal])
 
+  // The preview is always fullscreen
+  const togglePreview = useCallback(() => {
+    if (!showPreview) {
+      setShowExplorer(false)
+      setExplorerFullscreen(false)
+      setShowTerminal(false)
+      setTerminalFullscreen(false)
+    }
+    setShowPreview(!showPreview)
+  }, [showPreview])
+
+  const openPreview = useCallback((port: number) => {
+    setShowExplorer(false)
+    setExplorerFullscreen(false)
+    setShowTerminal(false)
+    setTerminalFullscreen(false)
+    setShowPreview(true)
+    setPreviewRequest({ port })
+  }, [])
+
+  // Don't load the preview panel until it's first used
+  const [previewOpened, setPreviewOpened] = useState(false)
+  useEffect(() => {
+    if (showPreview) setPreviewOpened(true)
+  }, [showPreview])
+
   // Determine layout mode
   const isExplorerFullscreen = showExplorer && explorerFullscreen
   const isTerminalFullscreen = showTerminal && terminalFullscreen
@@ -296,183 +334,194 @@ export default function TerminalPage() {
   const { keyboardHeight, viewportHeight, isKeyboardVisible } = useKeyboardHeight()
 
   return (
-    <ConnectionProvider host={host} password={cachedPassword}>
-      <PasswordContext.Provider value={{ password: cachedPassword, setPassword: setCachedPassword }}>
-        <div className="session-container">
-        {/* Content area - above bottom nav */}
-        <div className="content-area">
-          {/* File Explorer - Fullscreen (always mounted, hidden when not active) */}
-          <div className={`explorer-panel fullscreen ${isExplorerFullscreen ? 'visible' : 'hidden'}`}>
-            <FileExplorer
+    <ConnectionProvider host={host} sessionId={currentSessionId} passwords={cachedPasswords} onPasswordChange={cachePassword}>
+      <div className="session-container">
+      {/* Content area - above bottom nav */}
+      <div className="content-area">
+        {/* File Explorer - Fullscreen (always mounted, hidden when not active) */}
+        <div className={`explorer-panel fullscreen ${isExplorerFullscreen ? 'visible' : 'hidden'}`}>
+          <FileExplorer
+            workspacePath={workspacePath}
+            isFullscreen={explorerFullscreen}
+            onSelectWorkspace={handleSelectWorkspace}
+            onOpenFile={handleOpenFile}
+          />
+        </div>
+
+        {/* Terminal Panel - Fullscreen (always mounted, hidden when not active) */}
+        <div className={`terminal-fullscreen ${isTerminalFullscreen ? 'visible' : 'hidden'}`}>
+          {sessionReady && (
+            <TerminalPanel
+              host={host}
               workspacePath={workspacePath}
-              isFullscreen={explorerFullscreen}
-              onSelectWorkspace={handleSelectWorkspace}
-              onOpenFile={handleOpenFile}
+              isVisible={isTerminalFullscreen}
+              isKeyboardVisible={isKeyboardVisible}
+              sessionId={currentSessionId}
+              initialTerminalTabs={terminalTabs}
+              onTerminalStateChange={handleTerminalStateChange}
             />
-          </div>
-
-          {/* Terminal Panel - Fullscreen (always mounted, hidden when not active) */}
-          <div className={`terminal-fullscreen ${isTerminalFullscreen ? 'visible' : 'hidden'}`}>
-            {sessionReady && (
-              <TerminalPanel
-                host={host}
-                workspacePath={workspacePath}
-                isVisible={isTerminalFullscreen}
-                isKeyboardVisible={isKeyboardVisible}
-                sessionId={currentSessionId}
-                initialTerminalTabs={terminalTabs}
-                onTerminalStateChange={handleTerminalStateChange}
-              />
-            )}
-          </div>
-
-          {/* Editor Area - Hidden when explorer or terminal is fullscreen */}
-          {!isExplorerFullscreen && !isTerminalFullscreen && (
-            <div className="editor-area">
-              <EditorArea
-                files={openFiles}
-                activeIndex={activeFileIndex}
-                onFileChange={handleFileChange}
-                onFileSaved={handleFileSaved}
-                onCloseFile={handleCloseFile}
-                onSelectFile={setActiveFileIndex}
-                host={host}
-                workspacePath={workspacePath}
-                keyboardVisible={isKeyboardVisible}
-              />
-            </div>
           )}
+        </div>
 
-          {/* Terminal Panel - Bottom panel (non-fullscreen) - removed duplicate, using fullscreen only */}
+        {/* Web Preview - Fullscreen (mounted once opened, so the page survives switching panels) */}
+        <div className={`preview-fullscreen ${showPreview ? 'visible' : 'hidden'}`}>
+          {previewOpened && <PreviewPanel host={host} request={previewRequest} />}
         </div>
 
-        {/* Bottom nav - hidden when keyboard is visible */}
-        <BottomNav
-          showExplorer={showExplorer}
-          showTerminal={showTerminal}
-          onToggleExplorer={toggleExplorer}
-          onToggleTerminal={toggleTerminal}
-          hidden={isKeyboardVisible}
-        />
+        {/* Editor Area - Hidden when another panel is fullscreen */}
+        {!isExplorerFullscreen && !isTerminalFullscreen && !showPreview && (
+          <div className="editor-area">
+            <EditorArea
+              files={openFiles}
+              activeIndex={activeFileIndex}
+              onFileChange={handleFileChange}
+              onFileSaved={handleFileSaved}
+              onCloseFile={handleCloseFile}
+              onSelectFile={setActiveFileIndex}
+              host={host}
+              workspacePath={workspacePath}
+              keyboardVisible={isKeyboardVisible}
+            />
+          </div>
+        )}
+
+        {/* Terminal Panel - Bottom panel (non-fullscreen) - removed duplicate, using fullscreen only */}
       </div>
 
-      <style jsx>{`
-        .session-container {
-          --bottom-nav-height: calc(50px + env(safe-area-inset-bottom, 0px));
-          height: ${isKeyboardVisible ? `${viewportHeight}px` : '100dvh'};
-          background: #1a1a2e;
-          display: flex;
-          flex-direction: column;
-          overflow: hidden;
-        }
-        .content-area {
-          flex: 1;
-          display: flex;
-          flex-direction: column;
-          overflow: hidden;
+      <PortToast onOpenPreview={openPreview} hidden={showPreview} />
+
+      {/* Bottom nav - hidden when keyboard is visible */}
+      <BottomNav
+        showExplorer={showExplorer}
+        showTerminal={showTerminal}
+        showPreview={showPreview}
+        onToggleExplorer={toggleExplorer}
+        onToggleTerminal={toggleTerminal}
+        onTogglePreview={togglePreview}
+        hidden={isKeyboardVisible}
+      />
+    </div>
+
+    <style jsx>{`
+      .session-container {
+        --bottom-nav-height: calc(50px + env(safe-area-inset-bottom, 0px));
+        height: ${isKeyboardVisible ? `${viewportHeight}px` : '100dvh'};
+        background: #1a1a2e;
+        display: flex;
+        flex-direction: column;
+        overflow: hidden;
+      }
+      .content-area {
+        flex: 1;
+        display: flex;
+        flex-direction: column;
+        overflow: hidden;
+        position: relative;
+        min-height: 0;
+        padding-bottom: ${isKeyboardVisible ? '0' : 'var(--bottom-nav-height)'};
+      }
+      .explorer-panel {
+        position: absolute;
+        top: 0;
+        left: 0;
+        right: 0;
+        bottom: 0;
+        background: #16213e;
+        z-index: 10;
+        display: flex;
+        flex-direction: column;
+      }
+      .explorer-panel.fullscreen {
+        flex: 1;
+        min-height: 0;
+      }
+      .explorer-panel.hidden {
+        visibility: hidden;
+        pointer-events: none;
+        z-index: -1;
+      }
+      .explorer-panel.visible {
+        visibility: visible;
+        pointer-events: auto;
+        z-index: 10;
+      }
+      .editor-area {
+        flex: 1;
+        display: flex;
+        flex-direction: column;
+        overflow: hidden;
+      }
+      .terminal-panel {
+        height: 40%;
+        min-height: 150px;
+        max-height: 60%;
+        border-top: 1px solid #2a2a4a;
+        display: flex;
+        flex-direction: column;
+      }
+      .terminal-fullscreen,
+      .preview-fullscreen {
+        position: absolute;
+        top: 0;
+        left: 0;
+        right: 0;
+        bottom: ${isKeyboardVisible ? '0' : 'var(--bottom-nav-height)'};
+        display: flex;
+        flex-direction: column;
+        min-height: 0;
+        z-index: 10;
+      }
+      .terminal-fullscreen.hidden,
+      .preview-fullscreen.hidden {
+        visibility: hidden;
+        pointer-events: none;
+        z-index: -1;
+      }
+      .terminal-fullscreen.visible,
+      .preview-fullscreen.visible {
+        visibility: visible;
+        pointer-events: auto;
+        z-index: 10;
+      }
+
+      @media (min-width: 768px) {
+        .explorer-panel:not(.fullscreen) {
           position: relative;
-          min-height: 0;
-          padding-bottom: ${isKeyboardVisible ? '0' : 'var(--bottom-nav-height)'};
+          width: 280px;
+          max-width: 280px;
         }
-        .explorer-panel {
-          position: absolute;
-          top: 0;
-          left: 0;
-          right: 0;
-          bottom: 0;
-          background: #16213e;
-          z-index: 10;
-          display: flex;
-          flex-direction: column;
-        }
-        .explorer-panel.fullscreen {
-          flex: 1;
-          min-height: 0;
-        }
-        .explorer-panel.hidden {
-          visibility: hidden;
-          pointer-events: none;
-          z-index: -1;
-        }
-        .explorer-panel.visible {
-          visibility: visible;
-          pointer-events: auto;
-          z-index: 10;
+        .content-area {
+          flex-direction: row;
+          flex-wrap: wrap;
         }
         .editor-area {
           flex: 1;
-          display: flex;
-          flex-direction: column;
-          overflow: hidden;
         }
         .terminal-panel {
-          height: 40%;
-          min-height: 150px;
-          max-height: 60%;
-          border-top: 1px solid #2a2a4a;
-          display: flex;
-          flex-direction: column;
+          width: 100%;
+          flex-shrink: 0;
         }
-        .terminal-fullscreen {
-          position: absolute;
-          top: 0;
-          left: 0;
-          right: 0;
-          bottom: ${isKeyboardVisible ? '0' : 'var(--bottom-nav-height)'};
-          display: flex;
-          flex-direction: column;
-          min-height: 0;
-          z-index: 10;
-        }
-        .terminal-fullscreen.hidden {
-          visibility: hidden;
-          pointer-events: none;
-          z-index: -1;
+      }
+
+      @media (orientation: landscape) and (max-height: 500px),
+             (orientation: landscape) and (min-width: 1024px) {
+        .session-container {
+          --left-nav-width: calc(64px + env(safe-area-inset-left, 0px));
         }
-        .terminal-fullscreen.visible {
-          visibility: visible;
-          pointer-events: auto;
-          z-index: 10;
+        .content-area {
+          padding-left: var(--left-nav-width);
+          padding-bottom: 0;
         }
-
-        @media (min-width: 768px) {
-          .explorer-panel:not(.fullscreen) {
-            position: relative;
-            width: 280px;
-            max-width: 280px;
-          }
-          .content-area {
-            flex-direction: row;
-            flex-wrap: wrap;
-          }
-          .editor-area {
-            flex: 1;
-          }
-          .terminal-panel {
-            width: 100%;
-            flex-shrink: 0;
-          }
+        .terminal-fullscreen,
+        .preview-fullscreen {
+          left: var(--left-nav-width);
+          bottom: 0;
         }
-
-        @media (orientation: landscape) and (max-height: 500px),
-               (orientation: landscape) and (min-width: 1024px) {
-          .session-container {
-            --left-nav-width: calc(64px + env(safe-area-inset-left, 0px));
-          }
-          .content-area {
-            padding-left: var(--left-nav-width);
-            padding-bottom: 0;
-          }
-          .terminal-fullscreen {
-            left: var(--left-nav-width);
-            bottom: 0;
-          }
-          .explorer-panel {
-            left: var(--left-nav-width);
-          }
+        .explorer-panel {
+          left: var(--left-nav-width);
         }
-      `}</style>
-      </PasswordContext.Provider>
+      }
+    `}</style>
     </ConnectionProvider>
   )
 }
@@ -0,0 +1,13 @@
+// Path prefix the app is served under (e.g. "/codebook"), from CODEBOOK_BASE_PATH at build time.
+// Next.js adds it to router links; fetch(), window.location and WebSocket URLs need it added here.
+export const BASE_PATH: string = process.env.NEXT_PUBLIC_BASE_PATH || ''
+
+export function withBasePath(path: string): string {
+  return `${BASE_PATH}${path}`
+}
+
+// WebSocket URL for a path on the origin the page was loaded from (wss behind HTTPS)
+export function webSocketUrl(path: string): string {
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:'
+  return `${protocol}//${window.location.host}${withBasePath(path)}`
+}
@@ -0,0 +1,342 @@
+// Control messages for a host connection's WebSocket. Terminal I/O and file
+// contents travel as binary frames (see frame-protocol.ts); everything else is JSON.
+
+import type { FileRequest, FileResponse } from './file-protocol'
+import type { ForwardKind } from './ssh-forward'
+
+// Bumped whenever a message changes incompatibly; both sides announce it in their hello
+export const PROTOCOL_VERSION = 1
+
+// What a host connection runs on. A fallback PTY can't be resized.
+export type BackendKind = 'node-pty' | 'fallback-pty' | 'ssh'
+
+// A DynamicForward or RemoteForward rule from the host's config and how it's doing
+export interface ForwardStatus {
+  id: string
+  kind: ForwardKind
+  spec: string // The rule as written in the config
+  description: string // e.g. "SOCKS5 proxy on 127.0.0.1:1080"
+  valid: boolean // The rule could be understood; invalid ones can't be started
+  active: boolean
+  connections: number // Currently open through it
+  bytesToHost: number
+  bytesFromHost: number
+  error: string | null // Why the rule is invalid or stopped
+}
+
+export interface AuthPrompt {
+  prompt: string
+  echo: boolean
+}
+
+// What an auth:password-required asks for. A cached login password is only
+// ever a valid answer to 'password' and 'keyboard-interactive'.
+export type AuthPromptKind = 'password' | 'keyboard-interactive' | 'passphrase'
+
+// Ways of logging in to an SSH server, in the order they are tried
+export type AuthMethodName = 'agent' | 'publickey' | 'keyboard-interactive' | 'password'
+
+// Client -> Server messages
+
+// First message on every socket
+export interface ClientHelloMessage {
+  type: 'hello'
+  version: number
+}
+
+// Open a terminal for a tab, or reattach to it and replay output after `offset`
+export interface TerminalOpenMessage {
+  type: 'terminal:open'
+  id: string
+  channel: number // Terminal frames for this tab use this channel on the current socket
+  cols: number
+  rows: number
+  offset: number // Output bytes already received
+}
+
+export interface TerminalResizeMessage {
+  type: 'terminal:resize'
+  id: string
+  cols: number
+  rows: number
+}
+
+export interface TerminalCloseMessage {
+  type: 'terminal:close'
+  id: string
+}
+
+// Keepalive, also timing the round trip to the server
+export interface PingMessage {
+  type: 'ping'
+  sent?: number // Client clock when sent, echoed back in the pong
+}
+
+export interface SessionCloseMessage {
+  type: 'session:close'
+}
+
+// Try to reconnect to the host now instead of waiting out the backoff
+export interface ConnectionRetryMessage {
+  type: 'connection:retry'
+}
+
+// Run a command without a terminal. Its output streams back as FRAME_EXEC_STDOUT
+// and FRAME_EXEC_STDERR frames on `channel`, then exec:exit reports how it ended.
+export interface ExecRunMessage {
+  type: 'exec:run'
+  channel: number
+  command: string // Run by /bin/sh (the login shell over SSH)
+  cwd?: string // Default: the home directory
+  env?: Record<string, string> // Added to the server's environment
+  timeout?: number // Milliseconds before the command is stopped; 0 for none
+}
+
+export interface ExecCancelMessage {
+  type: 'exec:cancel'
+  channel: number
+}
+
+// Start or stop one of the host's forwarding rules
+export interface ForwardStartMessage {
+  type: 'forward:start'
+  id: string
+}
+
+export interface ForwardStopMessage {
+  type: 'forward:stop'
+  id: string
+}
+
+// Answer to auth:password-required - a single password or one response per prompt
+export interface AuthPasswordMessage {
+  type: 'auth:password'
+  password?: string
+  responses?: string[]
+}
+
+// Answer to auth:hostkey-unknown: connect this time only, connect and save the
+// key to known_hosts, or don't connect
+export type HostKeyDecision = 'accept-once' | 'accept-save' | 'reject'
+
+export interface AuthHostKeyMessage {
+  type: 'auth:hostkey'
+  decision: HostKeyDecision
+}
+
+// Append a public key to the host's ~/.ssh/authorized_keys, as ssh-copy-id does.
+// Answered with key:installed.
+export interface KeyInstallMessage {
+  type: 'key:install'
+  publicKey: string // One line of a .pub file
+}
+
+export type ClientMessage =
+  | ClientHelloMessage
+  | TerminalOpenMessage
+  | TerminalResizeMessage
+  | TerminalCloseMessage
+  | PingMessage
+  | SessionCloseMessage
+  | ConnectionRetryMessage
+  | AuthPasswordMessage
+  | AuthHostKeyMessage
+  | ExecRunMessage
+  | ExecCancelMessage
+  | ForwardStartMessage
+  | ForwardStopMessage
+  | KeyInstallMessage
+  | FileRequest
+
+// Server -> Client messages
+
+// Sent as soon as a socket opens, before anything else
+export interface ServerHelloMessage {
+  type: 'hello'
+  version: number
+  backend: BackendKind
+  operations: string[] // Client message types this backend handles
+  limits: {
+    maxFileSize: number // Bytes; 0 for no limit
+    maxChunkSize: number
+    scrollback: number // Bytes of output replayed per terminal after a reconnect
+    sessionIdleTimeout: number // Seconds a detached session is kept
+  }
+}
+
+// The host is connected; terminals and file operations can be used
+export interface ConnectionReadyMessage {
+  type: 'connection:ready'
+}
+
+// The host connection failed for good
+export interface ConnectionErrorMessage {
+  type: 'connection:error'
+  error: string
+}
+
+// The connection to the host dropped after it was up. Terminals stay open and
+// get a new shell once it is back; sent with each attempt.
+export interface ConnectionReconnectingMessage {
+  type: 'connection:reconnecting'
+  attempt: number // 1 for the first try
+  delay: number // Milliseconds until this attempt starts; 0 once it has
+  error: string // Why the connection dropped, or the last attempt failed
+}
+
+// Another client attached to this session
+export interface SessionDetachedMessage {
+  type: 'session:detached'
+}
+
+// Questions to answer with an auth:password, one response per prompt. A
+// keyboard-interactive login may ask several rounds of them, e.g. a password
+// and then a verification code.
+export interface AuthPasswordRequiredMessage {
+  type: 'auth:password-required'
+  kind: AuthPromptKind
+  prompts: AuthPrompt[]
+  host: string // user@host[:port] of the server asking
+  key?: string // Passphrase only: the key file, as ~/path
+  name?: string // Keyboard-interactive only: a title for the round
+  instructions?: string // and text to show above the prompts
+}
+
+// A step of logging in: sent with 'trying' when a method is tried, then again
+// with the server's answer. 'skipped' means it was never offered, e.g. a key
+// that couldn't be read or decrypted.
+export interface AuthAttemptMessage {
+  type: 'auth:attempt'
+  host: string // user@host[:port] of the server being logged in to
+  method: AuthMethodName
+  key: string | null // The key file, for publickey
+  result: 'trying' | 'accepted' | 'partial' | 'refused' | 'skipped'
+  reason?: string // Why it was skipped
+}
+
+// The server's host key isn't in known_hosts; the connection waits for an auth:hostkey answer
+export interface AuthHostKeyUnknownMessage {
+  type: 'auth:hostkey-unknown'
+  host: string // As known_hosts names it: host, [host]:port or the HostKeyAlias
+  keyType: string // e.g. ssh-ed25519
+  fingerprint: string // SHA256:...
+  knownTypes: string[] // Key types already on record for the host, if any
+}
+
+// The server's host key doesn't match the one in known_hosts, or was revoked.
+// The connection is refused; a connection:error follows.
+export interface AuthHostKeyChangedMessage {
+  type: 'auth:hostkey-changed'
+  host: string
+  keyType: string
+  fingerprint: string // Of the key the server offered
+  revoked: boolean
+  file: string | null // Where the key on record is
+  line: number | null
+}
+
+// The SSH server accepted our credentials
+export interface AuthOkMessage {
+  type: 'auth:ok'
+}
+
+// The SSH server rejected them. With `retry` a new auth:password-required follows;
+// without it the connection is closed.
+export interface AuthFailedMessage {
+  type: 'auth:failed'
+  error: string
+  retry: boolean
+}
+
+export interface TerminalOpenedMessage {
+  type: 'terminal:opened'
+  id: string
+  resumed: boolean // Reattached to a live shell rather than starting a new one
+  offset: number // Offset of the first output byte that follows
+}
+
+// The shell behind a terminal is running and takes input
+export interface ShellReadyMessage {
+  type: 'shell:ready'
+  id: string
+}
+
+// The shell ended on its own
+export interface ShellExitMessage {
+  type: 'shell:exit'
+  id: string
+  exitCode: number | null
+  signal: string | null
+}
+
+// An exec:run command ended. `error` is set when it couldn't be started.
+export interface ExecExitMessage {
+  type: 'exec:exit'
+  channel: number
+  exitCode: number | null
+  signal: string | null
+  timedOut: boolean
+  error?: string
+}
+
+// The TCP ports listening on the host changed. `opened` are the ones that are
+// new since the last check; the first report for a connection has none.
+export interface PortsChangedMessage {
+  type: 'ports:changed'
+  ports: number[]
+  opened: number[]
+}
+
+// The host's forwarding rules, sent after attaching and whenever one changes
+// (byte counters at most once a second)
+export interface ForwardsChangedMessage {
+  type: 'forwards:changed'
+  forwards: ForwardStatus[]
+}
+
+// A key:install finished. `added` is false when the key was already there.
+export interface KeyInstalledMessage {
+  type: 'key:installed'
+  added: boolean
+  error?: string // Why it couldn't be installed
+}
+
+export interface PongMessage {
+  type: 'pong'
+  sent?: number // From the ping
+  // Milliseconds for the last round trip from the server to the host over SSH,
+  // or null when there's no remote host or no measurement yet
+  hostLatency: number | null
+}
+
+export type ServerMessage =
+  | ServerHelloMessage
+  | ConnectionReadyMessage
+  | ConnectionErrorMessage
+  | ConnectionReconnectingMessage
+  | SessionDetachedMessage
+  | AuthPasswordRequiredMessage
+  | AuthAttemptMessage
+  | AuthHostKeyUnknownMessage
+  | AuthHostKeyChangedMessage
+  | AuthOkMessage
+  | AuthFailedMessage
+  | TerminalOpenedMessage
+  | ShellReadyMessage
+  | ShellExitMessage
+  | ExecExitMessage
+  | PortsChangedMessage
+  | ForwardsChangedMessage
+  | KeyInstalledMessage
+  | PongMessage
+  | FileResponse
+
+// Whether a cached login password may answer the prompts: a password prompt, or
+// a keyboard-interactive round that is a single hidden "Password" prompt, not a
+// one-time code
+export function isPasswordPrompt(message: AuthPasswordRequiredMessage): boolean {
+  if (message.kind === 'password') return true
+  if (message.kind !== 'keyboard-interactive' || message.prompts.length !== 1) return false
+  const [prompt] = message.prompts
+  return !prompt.echo && /password/i.test(prompt.prompt)
+}
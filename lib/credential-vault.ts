@@ -0,0 +1,249 @@
+// Encrypted store for SSH passwords and key passphrases in the browser's
+// IndexedDB. Secrets are sealed with AES-GCM under a key derived from the
+// user's PIN with PBKDF2; the key only lives in memory while the vault is
+// unlocked, and nothing readable is written to storage.
+
+// 'unavailable': Web Crypto or IndexedDB is missing, e.g. over plain HTTP away from localhost
+export type VaultStatus = 'unavailable' | 'none' | 'locked' | 'unlocked'
+
+// What unlocking with a PIN did. After MAX_UNLOCK_ATTEMPTS wrong PINs in a row
+// the vault is wiped.
+export type UnlockResult = 'unlocked' | 'wrong-pin' | 'wiped'
+
+const DB_NAME = 'codebook-vault'
+const DB_VERSION = 1
+const STORE = 'vault' // Records by key: 'meta', 'secret:<id>' and 'remember:<host>'
+const PBKDF2_ITERATIONS = 600000 // OWASP's figure for PBKDF2-SHA256
+const CHECK_VALUE = 'codebook-vault' // Sealed into the meta record to tell a wrong PIN
+export const MIN_PIN_LENGTH = 4
+export const MAX_UNLOCK_ATTEMPTS = 10
+
+interface Sealed {
+  iv: Uint8Array<ArrayBuffer>
+  data: ArrayBuffer
+}
+
+interface VaultMeta {
+  salt: Uint8Array<ArrayBuffer>
+  iterations: number
+  check: Sealed
+  failures: number // Wrong PINs since the last unlock
+}
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+
+let key: CryptoKey | null = null
+let status: VaultStatus | null = null // Until loadVault has looked
+const listeners = new Set<(status: VaultStatus) => void>()
+
+function available(): boolean {
+  return typeof indexedDB !== 'undefined' && typeof crypto !== 'undefined' && !!crypto.subtle
+}
+
+function setStatus(next: VaultStatus) {
+  status = next
+  listeners.forEach(listener => listener(next))
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => request.result.createObjectStore(STORE)
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Run one request against the store and close the database again
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase()
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE, mode)
+      const request = run(transaction.objectStore(STORE))
+      transaction.oncomplete = () => resolve(request.result)
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+    })
+  } finally {
+    db.close()
+  }
+}
+
+function readRecord<T>(id: string): Promise<T | undefined> {
+  return withStore('readonly', store => store.get(id))
+}
+
+function writeRecord(id: string, value: unknown): Promise<IDBValidKey> {
+  return withStore('readwrite', store => store.put(value, id))
+}
+
+function deleteRecord(id: string): Promise<undefined> {
+  return withStore('readwrite', store => store.delete(id))
+}
+
+function recordIds(prefix: string): Promise<string[]> {
+  const range = IDBKeyRange.bound(prefix, `${prefix}￿`)
+  return withStore('readonly', store => store.getAllKeys(range)).then(ids => ids.map(String))
+}
+
+async function deriveKey(pin: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(pin), 'PBKDF2', false, ['deriveKey'])
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  )
+}
+
+// The record id is authenticated along with the value, so a sealed secret
+// can't be moved under another name
+async function seal(sealKey: CryptoKey, id: string, value: string): Promise<Sealed> {
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData: encoder.encode(id) }, sealKey, encoder.encode(value))
+  return { iv, data }
+}
+
+// Throws if the key is wrong or the record was tampered with
+async function unseal(sealKey: CryptoKey, id: string, sealed: Sealed): Promise<string> {
+  const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: sealed.iv, additionalData: encoder.encode(id) }, sealKey, sealed.data)
+  return decoder.decode(data)
+}
+
+// Find out whether a vault exists; call before anything else
+export async function loadVault(): Promise<VaultStatus> {
+  if (status) return status
+  if (!available()) {
+    setStatus('unavailable')
+    return status
+  }
+  try {
+    const meta = await readRecord<VaultMeta>('meta')
+    setStatus(meta ? 'locked' : 'none')
+  } catch (err) {
+    console.error('Credential vault unavailable:', err)
+    setStatus('unavailable')
+  }
+  return status
+}
+
+export function vaultStatus(): VaultStatus {
+  return status || 'none'
+}
+
+export function onVaultChange(listener: (status: VaultStatus) => void): () => void {
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+// Start an empty vault, unlocked
+export async function createVault(pin: string) {
+  if (pin.length < MIN_PIN_LENGTH) throw new Error(`The PIN needs at least ${MIN_PIN_LENGTH} characters`)
+  const salt = crypto.getRandomValues(new Uint8Array(16))
+  const newKey = await deriveKey(pin, salt, PBKDF2_ITERATIONS)
+  await withStore('readwrite', store => store.clear())
+  const meta: VaultMeta = { salt, iterations: PBKDF2_ITERATIONS, check: await seal(newKey, 'meta', CHECK_VALUE), failures: 0 }
+  await writeRecord('meta', meta)
+  key = newKey
+  setStatus('unlocked')
+}
+
+export async function unlockVault(pin: string): Promise<UnlockResult> {
+  const meta = await readRecord<VaultMeta>('meta')
+  if (!meta) {
+    setStatus('none')
+    return 'wiped'
+  }
+  const candidate = await deriveKey(pin, meta.salt, meta.iterations)
+  try {
+    if (await unseal(candidate, 'meta', meta.check) !== CHECK_VALUE) throw new Error('Wrong PIN')
+  } catch {
+    // Counted in storage, so reloading the page doesn't reset it
+    const failures = (meta.failures || 0) + 1
+    if (failures >= MAX_UNLOCK_ATTEMPTS) {
+      await destroyVault()
+      return 'wiped'
+    }
+    await writeRecord('meta', { ...meta, failures })
+    return 'wrong-pin'
+  }
+  if (meta.failures) await writeRecord('meta', { ...meta, failures: 0 })
+  key = candidate
+  setStatus('unlocked')
+  return 'unlocked'
+}
+
+export function lockVault() {
+  if (!key) return
+  key = null
+  setStatus('locked')
+}
+
+// Delete every saved secret and the PIN
+export async function destroyVault() {
+  key = null
+  await withStore('readwrite', store => store.clear())
+  setStatus('none')
+}
+
+// Whether a secret is saved; works while locked
+export async function hasSecret(id: string): Promise<boolean> {
+  if (status === 'unavailable' || status === 'none') return false
+  return (await readRecord<Sealed>(`secret:${id}`)) !== undefined
+}
+
+// The saved secret, or null if there is none or the vault is locked
+export async function readSecret(id: string): Promise<string | null> {
+  if (!key) return null
+  const sealed = await readRecord<Sealed>(`secret:${id}`)
+  if (!sealed) return null
+  try {
+    return await unseal(key, `secret:${id}`, sealed)
+  } catch {
+    return null
+  }
+}
+
+export async function writeSecret(id: string, value: string) {
+  if (!key) throw new Error('The vault is locked')
+  await writeRecord(`secret:${id}`, await seal(key, `secret:${id}`, value))
+}
+
+export function deleteSecret(id: string): Promise<undefined> {
+  return deleteRecord(`secret:${id}`)
+}
+
+// Hosts whose logins are saved. The flag itself isn't secret, so it can be
+// read while locked.
+export async function rememberedHosts(): Promise<string[]> {
+  if (status === 'unavailable' || status === 'none') return []
+  return (await recordIds('remember:')).map(id => id.slice('remember:'.length))
+}
+
+// Turning it off forgets the host's saved passwords
+export async function setRemembered(host: string, remember: boolean) {
+  if (remember) {
+    await writeRecord(`remember:${host}`, true)
+    return
+  }
+  await deleteRecord(`remember:${host}`)
+  for (const id of await recordIds(`secret:${passwordId(host, '')}`)) {
+    await deleteRecord(id)
+  }
+}
+
+// Secret ids: the password a server asked for while connecting to a host (a
+// jump host has its own), and a key file's passphrase, shared by every host
+// that uses the key. Host names can't contain spaces.
+export function passwordId(host: string, server: string): string {
+  return `password:${host} ${server}`
+}
+
+export function passphraseId(keyFile: string): string {
+  return `passphrase:${keyFile}`
+}
@@ -16,18 +16,31 @@ export interface FileListRequest {
   path: string
 }
 
-export interface FileReadRequest {
-  type: 'file:read'
+// Files are transferred in chunks; each chunk names its offset so a transfer
+// can resume after a dropped connection
+export interface FileReadChunkRequest {
+  type: 'file:read:chunk'
   requestId: string
   path: string
+  offset: number
+  length: number
+  channel: number // The chunk comes back as a FRAME_FILE on this channel
 }
 
-export interface FileWriteRequest {
-  type: 'file:write'
+export interface FileWriteChunkRequest {
+  type: 'file:write:chunk'
+  requestId: string
+  path: string
+  offset: number
+  final: boolean // Last chunk - move the upload into place
+  channel: number // The chunk was sent just before as a FRAME_FILE on this channel
+}
+
+// Discard a partial upload
+export interface FileWriteCancelRequest {
+  type: 'file:write:cancel'
   requestId: string
   path: string
-  content: string
-  encoding?: 'utf8' | 'base64'
 }
 
 export interface FileCreateRequest {
@@ -53,8 +66,9 @@ export interface FileRenameRequest {
 
 export type FileRequest =
   | FileListRequest
-  | FileReadRequest
-  | FileWriteRequest
+  | FileReadChunkRequest
+  | FileWriteChunkRequest
+  | FileWriteCancelRequest
   | FileCreateRequest
   | FileDeleteRequest
   | FileRenameRequest
@@ -68,14 +82,14 @@ export interface FileListResponse {
   entries?: FileEntry[]
 }
 
-export interface FileReadResponse {
-  type: 'file:read:response'
+export interface FileReadChunkResponse {
+  type: 'file:read:chunk:response'
   requestId: string
   success: boolean
   error?: string
-  content?: string
-  encoding?: 'utf8' | 'base64'
-  size?: number
+  size?: number // Total file size
+  offset?: number
+  eof?: boolean
 }
 
 export interface FileOperationResponse {
@@ -83,13 +97,23 @@ export interface FileOperationResponse {
   requestId: string
   success: boolean
   error?: string
+  offset?: number // For file:write:chunk, the offset to continue from
 }
 
 export type FileResponse =
   | FileListResponse
-  | FileReadResponse
+  | FileReadChunkResponse
   | FileOperationResponse
 
+// A request as built by the client, before it is given a request id
+export type FileRequestBody<R extends FileRequest = FileRequest> = R extends FileRequest ? Omit<R, 'requestId'> : never
+
+// The response a request of each type is answered with
+export type FileResponseFor<T extends FileRequest['type']> =
+  T extends 'file:list' ? FileListResponse :
+  T extends 'file:read:chunk' ? FileReadChunkResponse :
+  FileOperationResponse
+
 // Helper to check if a message is a file protocol message
 export function isFileRequest(msg: any): msg is FileRequest {
   return typeof msg?.type === 'string' && msg.type.startsWith('file:')
@@ -0,0 +1,68 @@
+// Binary WebSocket frames for terminal I/O, file contents and command output:
+// [type: u8][channel: u32 big-endian][payload]
+// JSON text messages are only used for control. Shared by the client and server/.
+
+export const FRAME_TERMINAL = 0x01 // Terminal output (server -> client) or input (client -> server)
+export const FRAME_FILE = 0x02 // File contents for a file:read response or a file:write request
+export const FRAME_EXEC_STDOUT = 0x03 // Output of an exec:run command (server -> client)
+export const FRAME_EXEC_STDERR = 0x04
+
+const FRAME_HEADER_SIZE = 5
+
+export interface Frame {
+  type: number
+  channel: number
+  payload: Uint8Array
+}
+
+export function encodeFrame(type: number, channel: number, payload: Uint8Array): Uint8Array {
+  const frame = new Uint8Array(FRAME_HEADER_SIZE + payload.byteLength)
+  const view = new DataView(frame.buffer)
+  view.setUint8(0, type)
+  view.setUint32(1, channel >>> 0)
+  frame.set(payload, FRAME_HEADER_SIZE)
+  return frame
+}
+
+// Accepts a browser ArrayBuffer or a Node Buffer (a Uint8Array view into a larger pool)
+export function decodeFrame(data: ArrayBuffer | Uint8Array): Frame | null {
+  if (data.byteLength < FRAME_HEADER_SIZE) return null
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data)
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  return {
+    type: view.getUint8(0),
+    channel: view.getUint32(1),
+    payload: bytes.subarray(FRAME_HEADER_SIZE),
+  }
+}
+
+export function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  if (chunks.length === 1) return chunks[0]
+  const total = chunks.reduce((sum, chunk) => sum + chunk.byteLength, 0)
+  const result = new Uint8Array(total)
+  let offset = 0
+  for (const chunk of chunks) {
+    result.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return result
+}
+
+// Base64 helpers for binary file contents shown to the editor
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = ''
+  const chunkSize = 0x8000
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + chunkSize)))
+  }
+  return btoa(binary)
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
@@ -0,0 +1,63 @@
+import { describe, it, beforeEach, afterEach } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtempSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { ConfigEditor } from './ssh-config-editor'
+
+describe('ConfigEditor', () => {
+  let dir: string
+  let path: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'ssh-config-editor-'))
+    path = join(dir, 'config')
+  })
+
+  afterEach(() => rmSync(dir, { recursive: true, force: true }))
+
+  function edit(text: string, change: (editor: ConfigEditor) => void): string {
+    writeFileSync(path, text)
+    const editor = ConfigEditor.open(path)
+    change(editor)
+    return editor.toString()
+  }
+
+  it('changes a line in place, keeping its comment', () => {
+    const text = 'Host web\n  User=deploy # service account\n  Port 22\n'
+    assert.equal(edit(text, editor => editor.setOption('web', 'user', 'root')), 'Host web\n  User=root # service account\n  Port 22\n')
+  })
+
+  it('splits a host off a shared Host line with a copy of its settings', () => {
+    const text = 'Host web web-alias\n  HostName 10.0.0.5\n  # Jump through the bastion\n  ProxyJump bastion\n'
+    assert.equal(
+      edit(text, editor => editor.setOption('web-alias', 'user', 'deploy')),
+      'Host web-alias\n  HostName 10.0.0.5\n  # Jump through the bastion\n  ProxyJump bastion\n  User deploy\n\nHost web\n  HostName 10.0.0.5\n  # Jump through the bastion\n  ProxyJump bastion\n',
+    )
+  })
+
+  it('edits a host with a block of its own in place', () => {
+    const text = 'Host web\n  HostName 10.0.0.5\n\nHost web db\n  User shared\n'
+    assert.equal(edit(text, editor => editor.setOption('web', 'port', '2222')), 'Host web\n  HostName 10.0.0.5\n  Port 2222\n\nHost web db\n  User shared\n')
+  })
+
+  it('keeps the file from before the first change', () => {
+    writeFileSync(path, 'Host web\n  Port 22\n')
+    for (let port = 1; port <= 12; port++) {
+      const editor = ConfigEditor.open(path)
+      editor.setOption('web', 'port', String(2200 + port))
+      editor.save()
+    }
+    assert.equal(readFileSync(join(dir, '.config.original.bak'), 'utf-8'), 'Host web\n  Port 22\n')
+    const timestamped = readdirSync(dir).filter(name => /^\.config\.\d.*\.bak$/.test(name))
+    assert.ok(timestamped.length <= 10)
+  })
+
+  it('does not write or back up an unchanged file', () => {
+    writeFileSync(path, 'Host web\n  Port 22\n')
+    const editor = ConfigEditor.open(path)
+    editor.setOption('web', 'port', '22')
+    editor.save()
+    assert.deepEqual(readdirSync(dir), ['config'])
+  })
+})
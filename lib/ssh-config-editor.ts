@@ -0,0 +1,275 @@
+import { readFileSync, writeFileSync, existsSync, mkdirSync, readdirSync, copyFileSync, unlinkSync } from 'fs'
+import { basename, dirname, join } from 'path'
+import { splitArgs, splitLine, matchPatterns } from './ssh-config'
+
+const MAX_BACKUPS = 10 // Per config file; older ones are removed
+const ORIGINAL_BACKUP = 'original' // The file before Codebook first changed it, never removed
+const DEFAULT_INDENT = '  '
+
+// How keywords are spelled when we add them
+const KEYWORD_NAMES: Record<string, string> = {
+  host: 'Host',
+  hostname: 'HostName',
+  user: 'User',
+  port: 'Port',
+  identityfile: 'IdentityFile',
+  proxyjump: 'ProxyJump',
+  dynamicforward: 'DynamicForward',
+  remoteforward: 'RemoteForward',
+  certificatefile: 'CertificateFile',
+  forwardagent: 'ForwardAgent',
+}
+
+interface Line {
+  text: string // Exactly as in the file
+  keyword: string | null // Lowercase; null for blank lines and comments
+  args: string[]
+}
+
+// A Host or Match line and the directives under it
+interface Block {
+  start: number // The Host or Match line
+  end: number // Just after the last directive, so trailing comments belong to what follows
+  patterns: string[] | null // null for Match blocks
+}
+
+function parseLine(text: string): Line {
+  const parts = splitLine(text)
+  if (!parts) return { text, keyword: null, args: [] }
+  return { text, keyword: parts.keyword, args: splitArgs(parts.value) || [] }
+}
+
+export function quoteArg(arg: string): string {
+  return arg === '' || /[\s"'#\\]/.test(arg) ? `"${arg.replace(/["\\]/g, '\\$&')}"` : arg
+}
+
+// Where a trailing " # comment" starts, including the space before it, or the
+// end of the line
+function commentStart(text: string, from: number): number {
+  let quote: string | null = null
+  for (let i = from; i < text.length; i++) {
+    const ch = text[i]
+    if (quote) {
+      if (ch === '\\') i++
+      else if (ch === quote) quote = null
+    } else if (ch === '"' || ch === "'") {
+      quote = ch
+    } else if (ch === '\\') {
+      i++
+    } else if (ch === '#' && /\s/.test(text[i - 1])) {
+      let start = i
+      while (start > from && /\s/.test(text[start - 1])) start--
+      return start
+    }
+  }
+  return text.length
+}
+
+// The line with a new value, keeping its indentation, keyword spelling,
+// separator and trailing comment
+function replaceValue(text: string, value: string): string {
+  const prefix = text.match(/^\s*[^\s=]+(?:\s*=\s*|\s+)/)?.[0] || text.trimEnd() + ' '
+  return prefix + value + text.slice(commentStart(text, prefix.length))
+}
+
+// An ssh_config file as a list of lines that are written back untouched unless
+// an edit changes them, so comments, blank lines, ordering, indentation and
+// directives we don't know about all survive
+export class ConfigEditor {
+  private lines: Line[]
+  private eol: string
+  private changed = false
+
+  private constructor(readonly path: string, text: string) {
+    this.eol = text.includes('\r\n') ? '\r\n' : '\n'
+    this.lines = text === '' ? [] : text.split(/\r?\n/).map(parseLine)
+  }
+
+  static open(path: string): ConfigEditor {
+    return new ConfigEditor(path, existsSync(path) ? readFileSync(path, 'utf-8') : '')
+  }
+
+  // A new Host block with `options` as [keyword, value] pairs. Since the first
+  // value for an option wins, it goes before any Match block or wildcard Host
+  // block that would apply to it, so their defaults don't override its settings.
+  addHost(alias: string, options: [string, string][]) {
+    const indent = this.indent()
+    const lines = [
+      `${KEYWORD_NAMES.host} ${quoteArg(alias)}`,
+      ...options.map(([keyword, value]) => `${indent}${KEYWORD_NAMES[keyword] || keyword} ${value}`),
+    ]
+
+    const shadowing = this.blocks().find(block => !block.patterns || (
+      block.patterns.some(pattern => /[*?]/.test(pattern)) && matchPatterns(alias, block.patterns)
+    ))
+    if (shadowing) {
+      // Keep comments written just above that block with it
+      let at = shadowing.start
+      while (at > 0 && this.lines[at - 1].keyword === null && this.lines[at - 1].text.trim() !== '') at--
+      this.insert(at, [...lines, ''])
+    } else if (this.lines.length === 0) {
+      this.insert(0, [...lines, ''])
+    } else {
+      let at = this.lines.length
+      if (at > 0 && this.lines[at - 1].text === '') at-- // Stay before the final newline
+      const separated = at === 0 || this.lines[at - 1].text.trim() === ''
+      this.insert(at, separated ? lines : ['', ...lines])
+    }
+  }
+
+  // Set an option in the host's own block, replacing the first line that sets
+  // it, or remove every line that sets it when `value` is null
+  setOption(alias: string, keyword: string, value: string | null) {
+    const block = this.ownBlock(alias)
+    const indices = this.optionLines(block, keyword)
+    if (value === null) {
+      for (let i = indices.length - 1; i >= 0; i--) this.remove(indices[i], 1)
+    } else if (indices.length > 0) {
+      this.replace(indices[0], replaceValue(this.lines[indices[0]].text, value))
+    } else {
+      this.insert(block.end, [`${this.indent(block)}${KEYWORD_NAMES[keyword] || keyword} ${value}`])
+    }
+  }
+
+  // Make the lines for an option that may be given several times match
+  // `values`, changing existing lines in place where possible
+  setList(alias: string, keyword: string, values: string[]) {
+    const block = this.ownBlock(alias)
+    const indices = this.optionLines(block, keyword)
+    for (let i = 0; i < Math.min(indices.length, values.length); i++) {
+      this.replace(indices[i], replaceValue(this.lines[indices[i]].text, values[i]))
+    }
+    for (let i = indices.length - 1; i >= values.length; i--) {
+      this.remove(indices[i], 1)
+    }
+    if (values.length > indices.length) {
+      const at = indices.length > 0 ? indices[indices.length - 1] + 1 : block.end
+      const indent = this.indent(block)
+      this.insert(at, values.slice(indices.length).map(value => `${indent}${KEYWORD_NAMES[keyword] || keyword} ${value}`))
+    }
+  }
+
+  // Rename the host on every Host line that names it
+  renameHost(alias: string, name: string) {
+    for (const block of this.hostBlocks(alias)) {
+      this.replace(block.start, this.hostLine(block, block.patterns.map(pattern => pattern === alias ? name : pattern)))
+    }
+  }
+
+  // Remove the host's blocks, or just its name from Host lines shared with other hosts
+  deleteHost(alias: string) {
+    const blocks = this.hostBlocks(alias)
+    for (let i = blocks.length - 1; i >= 0; i--) {
+      const block = blocks[i]
+      const patterns = block.patterns.filter(pattern => pattern !== alias)
+      if (patterns.length > 0) {
+        this.replace(block.start, this.hostLine(block, patterns))
+        continue
+      }
+      this.remove(block.start, block.end - block.start)
+      // Don't leave two blank lines where the block was
+      const before = this.lines[block.start - 1]
+      const after = this.lines[block.start]
+      if (before?.text.trim() === '' && (!after || after.text.trim() === '') && block.start > 0) {
+        this.remove(block.start - 1, 1)
+      }
+    }
+  }
+
+  toString(): string {
+    return this.lines.map(line => line.text).join(this.eol)
+  }
+
+  // Write the file if anything changed, after copying the current one to a
+  // timestamped backup next to it. The first copy is also kept for good, since
+  // a run of quick edits would otherwise rotate the hand-written file out.
+  // Backups are dotfiles so that an Include with a wildcard never picks them up.
+  save() {
+    if (!this.changed) return
+    const dir = dirname(this.path)
+    if (existsSync(this.path)) {
+      const prefix = `.${basename(this.path)}.`
+      const original = join(dir, `${prefix}${ORIGINAL_BACKUP}.bak`)
+      if (!existsSync(original)) copyFileSync(this.path, original)
+      const stamp = new Date().toISOString().replace(/[:.]/g, '-')
+      copyFileSync(this.path, join(dir, `${prefix}${stamp}.bak`))
+
+      const backups = readdirSync(dir)
+        .filter(name => name.startsWith(prefix) && name.endsWith('.bak') && /^\d/.test(name.slice(prefix.length)))
+        .sort()
+      backups.slice(0, -MAX_BACKUPS).forEach(name => unlinkSync(join(dir, name)))
+    } else if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true, mode: 0o700 })
+    }
+    writeFileSync(this.path, this.toString(), { mode: 0o600 })
+    this.changed = false
+  }
+
+  private blocks(): Block[] {
+    const blocks: Block[] = []
+    this.lines.forEach((line, index) => {
+      if (line.keyword === 'host' || line.keyword === 'match') {
+        blocks.push({ start: index, end: index + 1, patterns: line.keyword === 'host' ? line.args : null })
+      } else if (line.keyword && blocks.length > 0) {
+        blocks[blocks.length - 1].end = index + 1
+      }
+    })
+    return blocks
+  }
+
+  private hostBlocks(alias: string): Block[] {
+    return this.blocks().filter(block => block.patterns?.includes(alias))
+  }
+
+  // The first block for the host alone. When its first Host line also names
+  // other hosts, the host is taken off that line and gets a copy of the block
+  // just before it, so edits don't change the others and it keeps every
+  // setting it had.
+  private ownBlock(alias: string): Block {
+    const block = this.hostBlocks(alias)[0]
+    if (!block) throw new Error('Host not found')
+    const others = block.patterns.filter(pattern => pattern !== alias)
+    if (others.length === 0) return block
+
+    const directives = this.lines.slice(block.start + 1, block.end).map(line => line.text)
+    this.replace(block.start, this.hostLine(block, others))
+    this.insert(block.start, [`${KEYWORD_NAMES.host} ${quoteArg(alias)}`, ...directives, ''])
+    return { start: block.start, end: block.start + 1 + directives.length, patterns: [alias] }
+  }
+
+  private optionLines(block: Block, keyword: string): number[] {
+    const indices: number[] = []
+    for (let i = block.start + 1; i < block.end; i++) {
+      if (this.lines[i].keyword === keyword) indices.push(i)
+    }
+    return indices
+  }
+
+  private hostLine(block: Block, patterns: string[]): string {
+    return replaceValue(this.lines[block.start].text, patterns.map(quoteArg).join(' '))
+  }
+
+  // The indentation of directives in a block, or the file's usual one
+  private indent(block?: Block): string {
+    const lines = block ? this.lines.slice(block.start + 1, block.end) : this.lines
+    const directive = lines.find(line => line.keyword && line.keyword !== 'host' && line.keyword !== 'match' && /^\s/.test(line.text))
+    if (directive) return directive.text.match(/^\s*/)[0]
+    return block ? this.indent() : DEFAULT_INDENT
+  }
+
+  private insert(at: number, texts: string[]) {
+    this.lines.splice(at, 0, ...texts.map(parseLine))
+    this.changed = true
+  }
+
+  private replace(index: number, text: string) {
+    if (this.lines[index].text === text) return
+    this.lines[index] = parseLine(text)
+    this.changed = true
+  }
+
+  private remove(index: number, count: number) {
+    this.lines.splice(index, count)
+    this.changed = true
+  }
+}
@@ -0,0 +1,222 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { existsSync, mkdtempSync, mkdirSync, readFileSync, writeFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { ConfigFile, parseConfigText, resolveConfig, splitArgs } from './ssh-config'
+
+// A config file read from text, with Includes relative to `baseDir`
+function config(text: string, baseDir = '/nonexistent'): ConfigFile {
+  return { path: 'config', entries: parseConfigText(text, baseDir) }
+}
+
+function resolve(text: string, alias: string, baseDir?: string) {
+  return resolveConfig([config(text, baseDir)], alias)
+}
+
+describe('Include', () => {
+  let dir: string
+
+  before(() => {
+    dir = mkdtempSync(join(tmpdir(), 'ssh-config-'))
+    mkdirSync(join(dir, 'conf.d'))
+    writeFileSync(join(dir, 'conf.d', 'b.conf'), 'Host web\n  User from-b\n  Port 2202\n')
+    writeFileSync(join(dir, 'conf.d', 'a.conf'), 'Host web\n  User from-a\n')
+    writeFileSync(join(dir, 'conf.d', '.hidden.conf'), 'Host web\n  HostName hidden\n')
+    writeFileSync(join(dir, 'extra'), 'Host db\n  HostName db.internal\n')
+  })
+
+  after(() => rmSync(dir, { recursive: true, force: true }))
+
+  it('reads relative paths from the base directory', () => {
+    assert.deepEqual(resolve('Include extra', 'db', dir).hostname, ['db.internal'])
+  })
+
+  it('expands globs in sorted order, skipping dot files', () => {
+    const options = resolve('Include conf.d/*.conf', 'web', dir)
+    assert.deepEqual(options.user, ['from-a'])
+    assert.deepEqual(options.port, ['2202'])
+    assert.equal(options.hostname, undefined)
+  })
+
+  it('takes absolute paths as they are', () => {
+    assert.deepEqual(resolve(`Include ${join(dir, 'extra')}`, 'db').hostname, ['db.internal'])
+  })
+
+  it('skips an Include inside a block that does not apply', () => {
+    assert.equal(resolve('Host other\n  Include extra', 'db', dir).hostname, undefined)
+  })
+
+  it('ignores files that are missing', () => {
+    assert.deepEqual(resolve('Include missing/*.conf\nHost web\n  User me', 'web', dir).user, ['me'])
+  })
+})
+
+describe('Host patterns', () => {
+  it('applies Host * defaults after the specific blocks', () => {
+    const options = resolve('Host web\n  User deploy\n\nHost *\n  User root\n  Port 2222', 'web')
+    assert.deepEqual(options.user, ['deploy'])
+    assert.deepEqual(options.port, ['2222'])
+  })
+
+  it('matches any of several patterns on one line', () => {
+    const text = 'Host web db *.example.com\n  User shared'
+    assert.deepEqual(resolve(text, 'db').user, ['shared'])
+    assert.deepEqual(resolve(text, 'api.example.com').user, ['shared'])
+    assert.equal(resolve(text, 'cache').user, undefined)
+  })
+
+  it('matches ? against one character', () => {
+    const text = 'Host web?\n  User numbered'
+    assert.deepEqual(resolve(text, 'web1').user, ['numbered'])
+    assert.equal(resolve(text, 'web10').user, undefined)
+  })
+
+  it('never matches a host that a negated pattern names', () => {
+    const text = 'Host *.example.com !bastion.example.com\n  ProxyJump bastion.example.com'
+    assert.deepEqual(resolve(text, 'api.example.com').proxyjump, ['bastion.example.com'])
+    assert.equal(resolve(text, 'bastion.example.com').proxyjump, undefined)
+  })
+
+  it('does not match on a negated pattern alone', () => {
+    assert.equal(resolve('Host !web\n  User other', 'db').user, undefined)
+  })
+})
+
+describe('Match', () => {
+  it('matches host against the HostName set so far', () => {
+    const text = 'Host web\n  HostName web.example.com\n\nMatch host *.example.com\n  User deploy'
+    assert.deepEqual(resolve(text, 'web').user, ['deploy'])
+    assert.equal(resolve(text, 'db').user, undefined)
+  })
+
+  it('matches originalhost against the alias', () => {
+    const text = 'Host web\n  HostName 10.0.0.5\n\nMatch originalhost web\n  User deploy'
+    assert.deepEqual(resolve(text, 'web').user, ['deploy'])
+  })
+
+  it('ands criteria and handles negation', () => {
+    const text = 'Host web\n  User admin\n\nMatch host web !user admin\n  Port 2222\n\nMatch host web user admin\n  Port 2200'
+    assert.deepEqual(resolve(text, 'web').port, ['2200'])
+  })
+
+  it('applies when a Match exec command succeeds', () => {
+    assert.deepEqual(resolve('Match exec true\n  User yes', 'web').user, ['yes'])
+    assert.equal(resolve('Match exec false\n  User yes', 'web').user, undefined)
+  })
+
+  it('expands tokens in Match exec', () => {
+    const text = 'Match exec "test %n = web"\n  User matched'
+    assert.deepEqual(resolve(text, 'web').user, ['matched'])
+    assert.equal(resolve(text, 'db').user, undefined)
+  })
+
+  it('does not run exec once the line cannot match', () => {
+    const marker = join(tmpdir(), `ssh-config-exec-${process.pid}`)
+    const options = resolve(`Match host nomatch exec "touch ${marker}"\n  User yes`, 'web')
+    assert.equal(options.user, undefined)
+    assert.equal(existsSync(marker), false)
+  })
+
+  it('runs a Match exec command once for every host resolved with the same files', () => {
+    const marker = join(tmpdir(), `ssh-config-exec-count-${process.pid}`)
+    const files = [config(`Match exec "echo run >> ${marker}"\n  User yes`)]
+    try {
+      assert.deepEqual(resolveConfig(files, 'web').user, ['yes'])
+      assert.deepEqual(resolveConfig(files, 'db').user, ['yes'])
+      assert.equal(readFileSync(marker, 'utf-8'), 'run\n')
+    } finally {
+      rmSync(marker, { force: true })
+    }
+  })
+
+  it('reads the config again for Match final, with Host matched against the HostName', () => {
+    const text = [
+      'Host web',
+      '  HostName web.example.com',
+      'Host *.example.com',
+      '  User from-final-pass',
+      'Match final',
+      '  Port 2222',
+    ].join('\n')
+    const options = resolve(text, 'web')
+    assert.deepEqual(options.user, ['from-final-pass'])
+    assert.deepEqual(options.port, ['2222'])
+  })
+
+  it('only applies !final on the first pass', () => {
+    const text = 'Match !final\n  Port 2200\nMatch final\n  Port 2222'
+    assert.deepEqual(resolve(text, 'web').port, ['2200'])
+  })
+
+  it('applies Match all everywhere', () => {
+    assert.deepEqual(resolve('Host other\nMatch all\n  User everyone', 'web').user, ['everyone'])
+  })
+
+  it('never matches an unknown criterion', () => {
+    assert.equal(resolve('Match nonsense x\n  User no', 'web').user, undefined)
+  })
+})
+
+describe('syntax', () => {
+  it('accepts key=value and key = value', () => {
+    const options = resolve('Host web\n  User=deploy\n  Port = 2222\n  HostName =web.example.com', 'web')
+    assert.deepEqual(options.user, ['deploy'])
+    assert.deepEqual(options.port, ['2222'])
+    assert.deepEqual(options.hostname, ['web.example.com'])
+  })
+
+  it('reads keywords in any case', () => {
+    assert.deepEqual(resolve('HOST web\n  hostname web.example.com', 'web').hostname, ['web.example.com'])
+  })
+
+  it('unquotes arguments', () => {
+    const options = resolve('Host web\n  IdentityFile "~/.ssh/my key"\n  User \'deploy\'', 'web')
+    assert.deepEqual(options.identityfile, ['~/.ssh/my key'])
+    assert.deepEqual(options.user, ['deploy'])
+  })
+
+  it('takes quoted Host patterns', () => {
+    assert.deepEqual(resolve('Host "my host"\n  User spaced', 'my host').user, ['spaced'])
+  })
+
+  it('keeps commands as written', () => {
+    const options = resolve('Host web\n  ProxyCommand ssh -W "%h:%p" bastion', 'web')
+    assert.deepEqual(options.proxycommand, ['ssh -W "%h:%p" bastion'])
+  })
+
+  it('skips comments and lines with an open quote', () => {
+    const options = resolve('# Host web\nHost web\n  User "unclosed\n  Port 22 # trailing comment', 'web')
+    assert.equal(options.user, undefined)
+    assert.deepEqual(options.port, ['22'])
+  })
+
+  it('splits arguments with escapes', () => {
+    assert.deepEqual(splitArgs('a\\ b "c \\"d\\"" \'e\' # f'), ['a b', 'c "d"', 'e'])
+    assert.equal(splitArgs('"open'), null)
+  })
+})
+
+describe('option values', () => {
+  it('keeps the first value of a single-valued option', () => {
+    const options = resolve('Host web\n  User first\n  User second\nHost *\n  User third', 'web')
+    assert.deepEqual(options.user, ['first'])
+  })
+
+  it('collects every IdentityFile in order', () => {
+    const text = 'Host web\n  IdentityFile ~/.ssh/web\nHost *\n  IdentityFile ~/.ssh/id_ed25519\n  IdentityFile ~/.ssh/id_rsa'
+    assert.deepEqual(resolve(text, 'web').identityfile, ['~/.ssh/web', '~/.ssh/id_ed25519', '~/.ssh/id_rsa'])
+  })
+
+  it('collects forwards and CertificateFile like IdentityFile', () => {
+    const text = 'Host web\n  LocalForward 8080 localhost:80\n  CertificateFile a-cert.pub\nHost *\n  LocalForward 5432 localhost:5432\n  CertificateFile b-cert.pub'
+    const options = resolve(text, 'web')
+    assert.deepEqual(options.localforward, ['8080 localhost:80', '5432 localhost:5432'])
+    assert.deepEqual(options.certificatefile, ['a-cert.pub', 'b-cert.pub'])
+  })
+
+  it('does not repeat list values on the final pass', () => {
+    const text = 'Host web\n  IdentityFile ~/.ssh/web\nMatch final\n  User me'
+    assert.deepEqual(resolve(text, 'web').identityfile, ['~/.ssh/web'])
+  })
+})
@@ -0,0 +1,377 @@
+import { readFileSync, readdirSync, statSync } from 'fs'
+import { spawnSync } from 'child_process'
+import { homedir, hostname, userInfo } from 'os'
+import { join, isAbsolute } from 'path'
+
+// ssh_config(5) as OpenSSH reads it: Host and Match blocks, Include, patterns
+// with negation, key=value and quoted arguments. Settings are resolved for one
+// host at a time, the way `ssh -G` prints them - the first value for an option
+// wins, except for options that may be given several times.
+
+const USER_CONFIG_DIR = join(homedir(), '.ssh')
+const SYSTEM_CONFIG_DIR = '/etc/ssh'
+const MAX_INCLUDE_DEPTH = 16 // Same limit as OpenSSH
+const EXEC_TIMEOUT = 5000 // For Match exec commands
+
+// Options that take the rest of the line unchanged instead of arguments
+const RAW_OPTIONS = ['proxycommand', 'localcommand', 'remotecommand', 'knownhostscommand']
+// Options where every value given applies, in order
+const LIST_OPTIONS = ['identityfile', 'certificatefile', 'localforward', 'remoteforward', 'dynamicforward', 'sendenv']
+
+export type ConfigEntry =
+  | { type: 'option', keyword: string, args: string[], value: string, line: number }
+  | { type: 'host', patterns: string[], line: number }
+  | { type: 'match', criteria: string[], line: number }
+  | { type: 'include', files: ConfigFile[], line: number }
+
+export interface ConfigFile {
+  path: string
+  entries: ConfigEntry[]
+}
+
+// Effective settings by lowercase keyword. Options that only take one value
+// have a single entry; list options have one per line that set them.
+export type ResolvedConfig = Record<string, string[]>
+
+// What Match criteria and tokens are checked against, as the config stands so far
+interface MatchContext {
+  host: string // HostName if set, else the alias
+  originalHost: string // The alias
+  user: string
+  tag: string
+  finalPass: boolean
+}
+
+interface ResolveState {
+  wantsFinalPass: boolean // A Match canonical/final block was seen
+  execResults: Record<string, boolean> // Match exec commands already run, after token expansion
+}
+
+// Match exec results by the files they were run for, so listing hosts (which
+// resolves every alias) runs each command once per host it expands to, not
+// once per alias. Commands block until they finish or time out.
+const execResultsByFiles = new WeakMap<ConfigFile[], Record<string, boolean>>()
+
+// Split arguments like OpenSSH does: on whitespace, with single or double quotes
+// and backslash escapes. An argument starting with # ends the line. Null if a
+// quote is left open.
+export function splitArgs(text: string): string[] | null {
+  const args: string[] = []
+  let i = 0
+  while (i < text.length) {
+    while (i < text.length && /\s/.test(text[i])) i++
+    if (i >= text.length || text[i] === '#') break
+
+    let arg = ''
+    let quote: string | null = null
+    for (; i < text.length; i++) {
+      const ch = text[i]
+      if (quote) {
+        if (ch === quote) {
+          quote = null
+        } else if (ch === '\\' && (text[i + 1] === quote || text[i + 1] === '\\')) {
+          arg += text[++i]
+        } else {
+          arg += ch
+        }
+      } else if (/\s/.test(ch)) {
+        break
+      } else if (ch === '"' || ch === "'") {
+        quote = ch
+      } else if (ch === '\\' && i + 1 < text.length && /[\s"'\\#]/.test(text[i + 1])) {
+        arg += text[++i]
+      } else {
+        arg += ch
+      }
+    }
+    if (quote) return null
+    args.push(arg)
+  }
+  return args
+}
+
+// "Keyword value", "Keyword=value" or "Keyword = value"; null for blank lines and comments
+export function splitLine(text: string): { keyword: string, value: string } | null {
+  const match = text.match(/^\s*([^\s=#][^\s=]*)\s*(?:=\s*)?(.*?)\s*$/)
+  if (!match) return null
+  return { keyword: match[1].toLowerCase(), value: match[2] }
+}
+
+function patternRegex(pattern: string, ignoreCase: boolean): RegExp {
+  const source = pattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.')
+  return new RegExp(`^${source}$`, ignoreCase ? 'i' : '')
+}
+
+// True if any pattern matches and no negated (!) one does, as for Host lines
+// and the comma-separated lists in Match
+export function matchPatterns(value: string, patterns: string[], ignoreCase = false): boolean {
+  let matched = false
+  for (const pattern of patterns) {
+    const negated = pattern.startsWith('!')
+    if (patternRegex(negated ? pattern.slice(1) : pattern, ignoreCase).test(value)) {
+      if (negated) return false
+      matched = true
+    }
+  }
+  return matched
+}
+
+// Paths matching a glob, sorted like glob(3). Only * and ? are wildcards, and
+// they don't match a leading dot.
+function globFiles(pattern: string): string[] {
+  let paths = ['/']
+  for (const part of pattern.split('/').filter(Boolean)) {
+    const next: string[] = []
+    for (const dir of paths) {
+      if (!/[*?]/.test(part)) {
+        next.push(join(dir, part))
+        continue
+      }
+      let names: string[]
+      try {
+        names = readdirSync(dir)
+      } catch {
+        continue
+      }
+      const regex = patternRegex(part, false)
+      names
+        .filter(name => regex.test(name) && (!name.startsWith('.') || part.startsWith('.')))
+        .sort()
+        .forEach(name => next.push(join(dir, name)))
+    }
+    paths = next
+  }
+  return paths.filter(path => {
+    try {
+      return statSync(path).isFile()
+    } catch {
+      return false
+    }
+  })
+}
+
+// %-tokens as OpenSSH expands them in IdentityFile, Match exec and friends.
+// Unknown tokens are left alone.
+export function expandTokens(text: string, tokens: Record<string, string>): string {
+  return text.replace(/%(.)/g, (whole, token: string) => {
+    if (token === '%') return '%'
+    return token in tokens ? tokens[token] : whole
+  })
+}
+
+export function hostTokens(alias: string, options: ResolvedConfig): Record<string, string> {
+  const localHost = hostname()
+  return {
+    d: homedir(),
+    h: options.hostname ? expandTokens(options.hostname[0], { h: alias }) : alias,
+    i: String(userInfo().uid),
+    L: localHost.split('.')[0],
+    l: localHost,
+    n: alias,
+    p: options.port?.[0] || '22',
+    r: options.user?.[0] || userInfo().username,
+    u: userInfo().username,
+  }
+}
+
+// Read a config file with its Includes. Relative Include paths are taken from
+// the directory of the top-level config, ~/.ssh or /etc/ssh. A missing file
+// has no entries.
+export function parseConfigFile(path: string, baseDir: string, depth = 0): ConfigFile {
+  let content: string
+  try {
+    content = readFileSync(path, 'utf-8')
+  } catch {
+    return { path, entries: [] }
+  }
+  return { path, entries: parseConfigText(content, baseDir, depth) }
+}
+
+export function parseConfigText(content: string, baseDir: string, depth = 0): ConfigEntry[] {
+  const entries: ConfigEntry[] = []
+  content.split('\n').forEach((text, index) => {
+    const line = index + 1
+    const parts = splitLine(text)
+    if (!parts) return
+    const { keyword, value } = parts
+    const args = splitArgs(value)
+    // OpenSSH refuses the whole file over a bad line; skipping it is kinder
+    if (!args || args.length === 0) return
+
+    switch (keyword) {
+      case 'host':
+        entries.push({ type: 'host', patterns: args, line })
+        break
+      case 'match':
+        entries.push({ type: 'match', criteria: args, line })
+        break
+      case 'include': {
+        if (depth >= MAX_INCLUDE_DEPTH) return
+        const files: ConfigFile[] = []
+        for (const arg of args) {
+          const pattern = arg.replace(/^~(?=$|\/)/, homedir())
+          const paths = globFiles(isAbsolute(pattern) ? pattern : join(baseDir, pattern))
+          paths.forEach(path => files.push(parseConfigFile(path, baseDir, depth + 1)))
+        }
+        entries.push({ type: 'include', files, line })
+        break
+      }
+      default:
+        entries.push({ type: 'option', keyword, args, value, line })
+    }
+  })
+  return entries
+}
+
+// The user's config followed by the system-wide one, in the order ssh reads them
+export function loadSSHConfig(): ConfigFile[] {
+  return [
+    parseConfigFile(join(USER_CONFIG_DIR, 'config'), USER_CONFIG_DIR),
+    parseConfigFile(join(SYSTEM_CONFIG_DIR, 'ssh_config'), SYSTEM_CONFIG_DIR),
+  ]
+}
+
+// Names from Host lines that stand for one host - no wildcards or negation -
+// in the order they appear, including those in Included files
+export function configAliases(file: ConfigFile): string[] {
+  const aliases: string[] = []
+  const collect = (entries: ConfigEntry[]) => {
+    for (const entry of entries) {
+      if (entry.type === 'host') {
+        entry.patterns
+          .filter(pattern => !/[*?!]/.test(pattern) && !aliases.includes(pattern))
+          .forEach(pattern => aliases.push(pattern))
+      } else if (entry.type === 'include') {
+        entry.files.forEach(included => collect(included.entries))
+      }
+    }
+  }
+  collect(file.entries)
+  return aliases
+}
+
+function runExec(command: string, state: ResolveState): boolean {
+  if (!(command in state.execResults)) {
+    const result = spawnSync('/bin/sh', ['-c', command], { stdio: 'ignore', timeout: EXEC_TIMEOUT })
+    state.execResults[command] = result.status === 0
+  }
+  return state.execResults[command]
+}
+
+// Whether a Match line applies. Criteria are and-ed together; an unknown or
+// incomplete criterion never matches.
+function matchCriteria(criteria: string[], context: MatchContext, options: ResolvedConfig, state: ResolveState): boolean {
+  let result = true
+  for (let i = 0; i < criteria.length; i++) {
+    let criterion = criteria[i].toLowerCase()
+    const negated = criterion.startsWith('!')
+    if (negated) criterion = criterion.slice(1)
+
+    if (criterion === 'all') {
+      if (negated) return false
+      continue
+    }
+    if (criterion === 'canonical' || criterion === 'final') {
+      state.wantsFinalPass = true
+      if (context.finalPass === negated) result = false
+      continue
+    }
+
+    const arg = criteria[++i]
+    if (arg === undefined) return false
+    const list = arg.split(',')
+    let matched: boolean
+    switch (criterion) {
+      case 'host':
+        matched = matchPatterns(context.host, list, true)
+        break
+      case 'originalhost':
+        matched = matchPatterns(context.originalHost, list, true)
+        break
+      case 'user':
+        matched = matchPatterns(context.user, list)
+        break
+      case 'localuser':
+        matched = matchPatterns(userInfo().username, list)
+        break
+      case 'tagged':
+        matched = matchPatterns(context.tag, list)
+        break
+      case 'exec':
+        // Like ssh, don't run the command once the line can't match anyway
+        if (!result) continue
+        matched = runExec(expandTokens(arg, hostTokens(context.originalHost, options)), state)
+        break
+      default:
+        return false
+    }
+    if (matched === negated) result = false
+  }
+  return result
+}
+
+function setOption(options: ResolvedConfig, keyword: string, value: string) {
+  if (LIST_OPTIONS.includes(keyword)) {
+    // Repeats are dropped, so the second pass doesn't add everything twice
+    const values = options[keyword] || []
+    if (!values.includes(value)) options[keyword] = [...values, value]
+  } else if (!(keyword in options)) {
+    options[keyword] = [value]
+  }
+}
+
+// Apply one file's settings for `host`. Every file starts out outside any
+// block, and an Include inside a block that doesn't apply is skipped.
+function applyFile(file: ConfigFile, host: string, originalHost: string, finalPass: boolean, options: ResolvedConfig, state: ResolveState) {
+  let active = true
+  for (const entry of file.entries) {
+    switch (entry.type) {
+      case 'host':
+        active = matchPatterns(host, entry.patterns)
+        break
+      case 'match': {
+        const hostName = options.hostname?.[0]
+        active = matchCriteria(entry.criteria, {
+          host: hostName ? expandTokens(hostName, { h: originalHost }) : originalHost,
+          originalHost,
+          user: options.user?.[0] || userInfo().username,
+          tag: options.tag?.[0] || '',
+          finalPass,
+        }, options, state)
+        break
+      }
+      case 'include':
+        if (active) {
+          entry.files.forEach(included => applyFile(included, host, originalHost, finalPass, options, state))
+        }
+        break
+      case 'option':
+        if (active) {
+          setOption(options, entry.keyword, RAW_OPTIONS.includes(entry.keyword) ? entry.value : entry.args.join(' '))
+        }
+        break
+    }
+  }
+}
+
+// The settings ssh would use to connect to `alias`. Like ssh, a config with
+// Match canonical or final is read a second time, matching Host lines against
+// the resolved HostName, to fill in what the first pass left unset.
+export function resolveConfig(files: ConfigFile[], alias: string): ResolvedConfig {
+  const options: ResolvedConfig = {}
+  if (!execResultsByFiles.has(files)) execResultsByFiles.set(files, {})
+  const state: ResolveState = { wantsFinalPass: false, execResults: execResultsByFiles.get(files) }
+  files.forEach(file => applyFile(file, alias, alias, false, options, state))
+
+  if (options.hostname) {
+    options.hostname = [expandTokens(options.hostname[0], { h: alias })]
+  }
+  if (state.wantsFinalPass) {
+    const host = options.hostname ? options.hostname[0] : alias
+    files.forEach(file => applyFile(file, host, alias, true, options, state))
+  }
+  return options
+}
@@ -0,0 +1,52 @@
+// Port forwarding rules for a host, written as in an OpenSSH config:
+//   DynamicForward [bind_address:]port            SOCKS5 proxy on this machine, tunnelled to the host
+//   RemoteForward [bind_address:]port host:port   Port on the host, forwarded back to this machine
+
+export type ForwardKind = 'dynamic' | 'remote'
+
+export interface ForwardRule {
+  kind: ForwardKind
+  spec: string // As written in the config
+  bindAddress: string | null // null: loopback only; '*' for every interface
+  port: number
+  target?: { host: string; port: number } // Where a remote forward's connections go
+}
+
+interface Address {
+  host: string | null
+  port: number
+}
+
+// "1080", "127.0.0.1:1080", "*:1080" or "[::1]:1080"
+function parseAddress(value: string): Address | null {
+  const match = value.match(/^(?:\[([^\]]+)\]:|([^:[\]]*):)?(\d{1,5})$/)
+  if (!match) return null
+  const port = parseInt(match[3], 10)
+  if (port < 1 || port > 65535) return null
+  return { host: match[1] ?? (match[2] || null), port }
+}
+
+// Throws with a message for the user when the rule can't be understood
+export function parseForwardRule(kind: ForwardKind, spec: string): ForwardRule {
+  const parts = spec.trim().split(/\s+/)
+  if (kind === 'dynamic') {
+    const listen = parts.length === 1 ? parseAddress(parts[0]) : null
+    if (!listen) {
+      throw new Error(`Invalid DynamicForward "${spec}" - expected [bind_address:]port, e.g. 1080`)
+    }
+    return { kind, spec: spec.trim(), bindAddress: listen.host, port: listen.port }
+  }
+
+  const listen = parts.length === 2 ? parseAddress(parts[0]) : null
+  const target = parts.length === 2 ? parseAddress(parts[1]) : null
+  if (!listen || !target || !target.host || target.host === '*') {
+    throw new Error(`Invalid RemoteForward "${spec}" - expected [bind_address:]port host:port, e.g. 8080 localhost:3000`)
+  }
+  return {
+    kind,
+    spec: spec.trim(),
+    bindAddress: listen.host,
+    port: listen.port,
+    target: { host: target.host, port: target.port },
+  }
+}
@@ -1,191 +1,161 @@
-import { readFileSync, existsSync, writeFileSync, mkdirSync } from 'fs'
-import { homedir } from 'os'
-import { join } from 'path'
+import { loadSSHConfig, configAliases, resolveConfig, ConfigFile, ResolvedConfig, expandTokens, hostTokens } from './ssh-config'
+import { ConfigEditor, quoteArg } from './ssh-config-editor'
 
 export interface SSHHost {
   name: string
   hostname?: string
   user?: string
   port?: string
+  identityFiles?: string[] // Tried in order, before the default keys
+  certificateFiles?: string[] // CertificateFile
+  forwardAgent?: string // yes, no, or the agent socket to forward: a path or $VARIABLE
+  proxyJump?: string // [user@]host[:port], comma-separated for several jumps
+  proxyCommand?: string
+  dynamicForwards?: string[] // DynamicForward rules, see ssh-forward.ts
+  remoteForwards?: string[] // RemoteForward rules
+  hostKeyAlias?: string
+  strictHostKeyChecking?: string
+  userKnownHostsFile?: string // Space-separated list
+  globalKnownHostsFile?: string
+  hashKnownHosts?: string
 }
 
-export function parseSSHConfig(): SSHHost[] {
-  const configPath = join(homedir(), '.ssh', 'config')
+// Settings the host form edits, with their config keywords
+const EDITABLE_OPTIONS: ['hostname' | 'user' | 'port', string][] = [['hostname', 'hostname'], ['user', 'user'], ['port', 'port']]
+const EDITABLE_LISTS: ['dynamicForwards' | 'remoteForwards' | 'certificateFiles', string][] = [
+  ['dynamicForwards', 'dynamicforward'],
+  ['remoteForwards', 'remoteforward'],
+  ['certificateFiles', 'certificatefile'],
+]
+
+// Whether ForwardAgent is on; a socket path turns it on too
+export function forwardsAgent(value?: string): boolean {
+  return !!value && value.toLowerCase() !== 'no'
+}
 
-  if (!existsSync(configPath)) {
-    return []
+// An alias's effective settings, as ssh would use them
+function hostFromConfig(name: string, options: ResolvedConfig): SSHHost {
+  const tokens = hostTokens(name, options)
+  const userKnownHostsFile = options.userknownhostsfile?.[0]
+  return {
+    name,
+    hostname: options.hostname?.[0],
+    user: options.user?.[0],
+    port: options.port?.[0],
+    identityFiles: options.identityfile?.map(file => expandTokens(file, tokens)),
+    certificateFiles: options.certificatefile?.map(file => expandTokens(file, tokens)),
+    forwardAgent: options.forwardagent && expandTokens(options.forwardagent[0], tokens),
+    proxyJump: options.proxyjump?.[0],
+    proxyCommand: options.proxycommand?.[0],
+    dynamicForwards: options.dynamicforward,
+    remoteForwards: options.remoteforward,
+    hostKeyAlias: options.hostkeyalias?.[0],
+    strictHostKeyChecking: options.stricthostkeychecking?.[0],
+    userKnownHostsFile: userKnownHostsFile && expandTokens(userKnownHostsFile, tokens),
+    globalKnownHostsFile: options.globalknownhostsfile?.[0],
+    hashKnownHosts: options.hashknownhosts?.[0],
   }
+}
 
-  const content = readFileSync(configPath, 'utf-8')
-  const lines = content.split('\n')
-  const hosts: SSHHost[] = []
-  let currentHost: SSHHost | null = null
-
-  for (const line of lines) {
-    const trimmed = line.trim()
+// Hosts named in the user's SSH config, with Host * defaults, Match blocks and
+// Includes applied
+export function parseSSHConfig(): SSHHost[] {
+  const files = loadSSHConfig()
+  return configAliases(files[0]).map(name => hostFromConfig(name, resolveConfig(files, name)))
+}
 
-    if (trimmed.startsWith('#') || trimmed === '') {
-      continue
-    }
+// Aliases from the user's SSH config, without resolving their settings
+export function sshHostNames(): string[] {
+  return configAliases(loadSSHConfig()[0])
+}
 
-    const [key, ...valueParts] = trimmed.split(/\s+/)
-    const value = valueParts.join(' ')
+// The settings for any host name, whether or not it has its own Host block
+export function resolveSSHHost(name: string): SSHHost {
+  return hostFromConfig(name, resolveConfig(loadSSHConfig(), name))
+}
 
-    if (key.toLowerCase() === 'host') {
-      if (currentHost) {
-        hosts.push(currentHost)
-      }
-      // Skip wildcard hosts
-      if (value !== '*') {
-        currentHost = { name: value }
-      } else {
-        currentHost = null
-      }
-    } else if (currentHost) {
-      switch (key.toLowerCase()) {
-        case 'hostname':
-          currentHost.hostname = value
-          break
-        case 'user':
-          currentHost.user = value
-          break
-        case 'port':
-          currentHost.port = value
-          break
+// The config file with the alias's Host line: the user's config or one it Includes
+function configPathFor(alias: string): string {
+  const find = (file: ConfigFile): string | null => {
+    for (const entry of file.entries) {
+      if (entry.type === 'host' && entry.patterns.includes(alias)) return file.path
+      if (entry.type === 'include') {
+        for (const included of entry.files) {
+          const path = find(included)
+          if (path) return path
+        }
       }
     }
+    return null
   }
+  const path = find(loadSSHConfig()[0])
+  if (!path) throw new Error('Host not found')
+  return path
+}
 
-  if (currentHost) {
-    hosts.push(currentHost)
-  }
+// A list value as config text: a file name is one argument, which may need
+// quotes; a forward is several, separated by spaces
+function listValue(keyword: string, spec: string): string {
+  return keyword === 'certificatefile' ? quoteArg(spec) : spec.split(/\s+/).map(quoteArg).join(' ')
+}
 
-  return hosts
+function sameList(a: string[] = [], b: string[] = []): boolean {
+  return a.length === b.length && a.every((value, i) => value === b[i])
 }
 
 export function addSSHHost(host: SSHHost): void {
-  const sshDir = join(homedir(), '.ssh')
-  const configPath = join(sshDir, 'config')
-
-  // Ensure .ssh directory exists
-  if (!existsSync(sshDir)) {
-    mkdirSync(sshDir, { mode: 0o700 })
-  }
-
-  // Build the new host entry
-  let entry = `\nHost ${host.name}\n`
-  if (host.hostname) {
-    entry += `  HostName ${host.hostname}\n`
+  const options: [string, string][] = []
+  for (const [field, keyword] of EDITABLE_OPTIONS) {
+    const value = host[field]?.trim()
+    if (value) options.push([keyword, quoteArg(value)])
   }
-  if (host.user) {
-    entry += `  User ${host.user}\n`
+  for (const [field, keyword] of EDITABLE_LISTS) {
+    (host[field] || []).forEach(spec => options.push([keyword, listValue(keyword, spec.trim())]))
   }
-  if (host.port) {
-    entry += `  Port ${host.port}\n`
-  }
-
-  // Read existing config or start fresh
-  let existingContent = ''
-  if (existsSync(configPath)) {
-    existingContent = readFileSync(configPath, 'utf-8')
+  // Only when it differs from what the host would get from Host * and the like
+  if (host.forwardAgent !== undefined) {
+    const forwardAgent = forwardsAgent(host.forwardAgent)
+    if (forwardAgent !== forwardsAgent(resolveSSHHost(host.name).forwardAgent)) {
+      options.push(['forwardagent', quoteArg(host.forwardAgent)])
+    }
   }
 
-  // Append new host
-  writeFileSync(configPath, existingContent + entry, { mode: 0o600 })
+  const editor = ConfigEditor.open(loadSSHConfig()[0].path)
+  editor.addHost(host.name, options)
+  editor.save()
 }
 
+// Change only what differs from the host's current settings, so options that
+// come from elsewhere - Host * defaults, say - aren't copied into its block
 export function updateSSHHost(oldName: string, host: SSHHost): void {
-  const configPath = join(homedir(), '.ssh', 'config')
+  const current = resolveSSHHost(oldName)
+  const editor = ConfigEditor.open(configPathFor(oldName))
 
-  if (!existsSync(configPath)) {
-    throw new Error('SSH config file not found')
+  if (host.name !== oldName) {
+    editor.renameHost(oldName, host.name)
   }
-
-  const content = readFileSync(configPath, 'utf-8')
-  const lines = content.split('\n')
-  const newLines: string[] = []
-  let skipUntilNextHost = false
-  let hostFound = false
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i]
-    const trimmed = line.trim()
-
-    if (trimmed.toLowerCase().startsWith('host ')) {
-      const hostName = trimmed.substring(5).trim()
-      if (hostName === oldName) {
-        // Found the host to update - skip its lines and insert new ones
-        skipUntilNextHost = true
-        hostFound = true
-
-        // Add the updated host entry (trim values to avoid encoding issues)
-        newLines.push(`Host ${host.name.trim()}`)
-        if (host.hostname && host.hostname.trim()) {
-          newLines.push(`  HostName ${host.hostname.trim()}`)
-        }
-        if (host.user && host.user.trim()) {
-          newLines.push(`  User ${host.user.trim()}`)
-        }
-        if (host.port && host.port.trim()) {
-          newLines.push(`  Port ${host.port.trim()}`)
-        }
-        continue
-      } else {
-        skipUntilNextHost = false
-      }
+  for (const [field, keyword] of EDITABLE_OPTIONS) {
+    const value = host[field]?.trim() || ''
+    if (value !== (current[field] || '')) {
+      editor.setOption(host.name, keyword, value ? quoteArg(value) : null)
     }
-
-    if (!skipUntilNextHost) {
-      newLines.push(line)
+  }
+  for (const [field, keyword] of EDITABLE_LISTS) {
+    const specs = (host[field] || []).map(spec => spec.trim())
+    if (!sameList(specs, current[field])) {
+      editor.setList(host.name, keyword, specs.map(spec => listValue(keyword, spec)))
     }
   }
-
-  if (!hostFound) {
-    throw new Error('Host not found')
+  // Only when the toggle changed, so a socket path or $VARIABLE stays. An
+  // explicit "no" rather than removing the line, in case Host * turns it on.
+  if (host.forwardAgent !== undefined && forwardsAgent(host.forwardAgent) !== forwardsAgent(current.forwardAgent)) {
+    editor.setOption(host.name, 'forwardagent', quoteArg(host.forwardAgent))
   }
-
-  writeFileSync(configPath, newLines.join('\n'), { mode: 0o600 })
+  editor.save()
 }
 
 export function deleteSSHHost(name: string): void {
-  const configPath = join(homedir(), '.ssh', 'config')
-
-  if (!existsSync(configPath)) {
-    throw new Error('SSH config file not found')
-  }
-
-  const content = readFileSync(configPath, 'utf-8')
-  const lines = content.split('\n')
-  const newLines: string[] = []
-  let skipUntilNextHost = false
-  let hostFound = false
-
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i]
-    const trimmed = line.trim()
-
-    if (trimmed.toLowerCase().startsWith('host ')) {
-      const hostName = trimmed.substring(5).trim()
-      if (hostName === name) {
-        // Found the host to delete - skip its lines
-        skipUntilNextHost = true
-        hostFound = true
-        continue
-      } else {
-        skipUntilNextHost = false
-      }
-    }
-
-    if (!skipUntilNextHost) {
-      newLines.push(line)
-    }
-  }
-
-  if (!hostFound) {
-    throw new Error('Host not found')
-  }
-
-  // Clean up extra blank lines
-  const cleanedContent = newLines.join('\n').replace(/\n{3,}/g, '\n\n').trim()
-  writeFileSync(configPath, cleanedContent + '\n', { mode: 0o600 })
+  const editor = ConfigEditor.open(configPathFor(name))
+  editor.deleteHost(name)
+  editor.save()
 }
@@ -1,7 +1,18 @@
+// Serve the app under a sub-path (e.g. "/codebook") behind a reverse proxy.
+// Baked into the build, so set CODEBOOK_BASE_PATH for both "npm run build" and "npm run start".
+let basePath = (process.env.CODEBOOK_BASE_PATH || '').replace(/\/+$/, '')
+if (basePath && !basePath.startsWith('/')) {
+  basePath = `/${basePath}`
+}
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: false,
   swcMinify: false,
+  basePath,
+  env: {
+    NEXT_PUBLIC_BASE_PATH: basePath,
+  },
 }
 
 module.exports = nextConfig
@@ -1,11 +1,12 @@
 const CACHE_NAME = 'codebook-v1'
 
+// Relative to this script, so the app can be served under a base path
 const STATIC_ASSETS = [
-  '/',
-  '/manifest.json',
-  '/favicon.png',
-  '/icons/icon-192.png',
-  '/icons/icon-512.png',
+  './',
+  './manifest.json',
+  './favicon.png',
+  './icons/icon-192.png',
+  './icons/icon-512.png',
 ]
 
 // Install event - cache static assets
@@ -51,7 +52,8 @@ self.addEventListener('fetch', (event) => {
         const responseClone = response.clone()
 
         // Cache successful GET requests
-        if (event.request.method === 'GET' && response.status === 200) {
+        // (redirects are skipped so the login page is never cached in place of the app)
+        if (event.request.method === 'GET' && response.status === 200 && !response.redirected) {
           caches.open(CACHE_NAME).then((cache) => {
             cache.put(event.request, responseClone)
           })
@@ -67,7 +69,7 @@ self.addEventListener('fetch', (event) => {
           }
           // Return offline page for navigation requests
           if (event.request.mode === 'navigate') {
-            return caches.match('/')
+            return caches.match('./')
           }
           return new Response('Offline', { status: 503 })
         })
@@ -0,0 +1,71 @@
+#!/usr/bin/env node
+/**
+ * Set the password used to log in to the Codebook web UI
+ * Run: npm run set-password
+ */
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const crypto = require('crypto');
+const readline = require('readline');
+const { Writable } = require('stream');
+
+const AUTH_FILE = path.join(os.homedir(), '.config', 'codebook', 'auth.json');
+
+// Read a line without echoing it, so the password doesn't end up on screen
+// or in the terminal's scrollback
+function promptHidden(question) {
+  return new Promise((resolve) => {
+    let muted = false;
+    const output = new Writable({
+      write(chunk, encoding, callback) {
+        if (!muted) process.stdout.write(chunk, encoding);
+        callback();
+      },
+    });
+    const rl = readline.createInterface({ input: process.stdin, output, terminal: !!process.stdin.isTTY });
+    rl.question(question, (answer) => {
+      rl.close();
+      process.stdout.write('\n');
+      resolve(answer);
+    });
+    muted = true;
+  });
+}
+
+async function setPassword() {
+  const password = await promptHidden('New password: ');
+  const confirm = await promptHidden('Confirm password: ');
+
+  if (password.length < 8) {
+    console.error('Password must be at least 8 characters.');
+    process.exit(1);
+  }
+  if (password !== confirm) {
+    console.error('Passwords do not match.');
+    process.exit(1);
+  }
+
+  let config = {};
+  if (fs.existsSync(AUTH_FILE)) {
+    config = JSON.parse(fs.readFileSync(AUTH_FILE, 'utf-8'));
+  }
+
+  const salt = crypto.randomBytes(16);
+  const hash = crypto.scryptSync(password, salt, 64);
+  config.passwordHash = `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+
+  // The first-run access token is no longer needed once a password exists
+  delete config.token;
+  // Rotate the signing secret so existing sessions have to log in again
+  config.secret = crypto.randomBytes(32).toString('hex');
+
+  fs.mkdirSync(path.dirname(AUTH_FILE), { recursive: true, mode: 0o700 });
+  fs.writeFileSync(AUTH_FILE, JSON.stringify(config, null, 2), { mode: 0o600 });
+
+  console.log(`Password saved to ${AUTH_FILE}`);
+  console.log('Restart the server for the change to take effect.');
+}
+
+setPassword();
@@ -0,0 +1,277 @@
+import type { IncomingMessage, ServerResponse } from 'http'
+import type { TLSSocket } from 'tls'
+import os from 'os'
+import fs from 'fs'
+import path from 'path'
+import crypto from 'crypto'
+import { log } from './log'
+
+// Login gate for the web UI, API routes and WebSocket server
+
+const AUTH_FILE = path.join(os.homedir(), '.config', 'codebook', 'auth.json')
+const SESSION_COOKIE = 'codebook_session'
+const SESSION_MAX_AGE = 30 * 24 * 60 * 60 // 30 days, in seconds
+// Web previews are served from another origin with a login of their own, handed
+// over by a short-lived ticket from the app
+const PREVIEW_COOKIE = 'codebook_preview'
+const PREVIEW_MAX_AGE = 12 * 60 * 60
+const PREVIEW_TICKET_MAX_AGE = 60
+const LOGIN_WINDOW_MS = 15 * 60 * 1000
+const LOGIN_MAX_FAILURES = 10
+
+// Paths that must be reachable before logging in (login page, its assets and the PWA shell)
+const PUBLIC_PATHS = new Set(['/login', '/manifest.json', '/favicon.png', '/sw.js', '/api/auth/login', '/api/auth/status'])
+const PUBLIC_PREFIXES = ['/_next/', '/icons/']
+
+export interface AuthConfig {
+  secret: string
+  passwordHash?: string // "scrypt$salt$hash", set by scripts/set-password.js
+  token?: string // Generated access token, used until a password is set
+}
+
+// Load the server-side credential, generating a secret and access token on first run
+function loadAuthConfig(): AuthConfig {
+  let config: Partial<AuthConfig> = {}
+  if (fs.existsSync(AUTH_FILE)) {
+    config = JSON.parse(fs.readFileSync(AUTH_FILE, 'utf-8'))
+  }
+
+  let changed = false
+  if (!config.secret) {
+    config.secret = crypto.randomBytes(32).toString('hex')
+    changed = true
+  }
+  if (!config.passwordHash && !config.token) {
+    config.token = crypto.randomBytes(24).toString('base64url')
+    changed = true
+  }
+
+  if (changed) {
+    fs.mkdirSync(path.dirname(AUTH_FILE), { recursive: true, mode: 0o700 })
+    fs.writeFileSync(AUTH_FILE, JSON.stringify(config, null, 2), { mode: 0o600 })
+  }
+  return config as AuthConfig
+}
+
+export const authConfig = loadAuthConfig()
+
+// Constant-time string comparison
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(String(a))
+  const bufB = Buffer.from(String(b))
+  return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB)
+}
+
+// Check a submitted secret against the password hash or the access token
+function verifyCredential(secret: unknown): boolean {
+  if (typeof secret !== 'string' || secret === '') return false
+
+  if (authConfig.passwordHash) {
+    const [scheme, salt, hash] = authConfig.passwordHash.split('$')
+    if (scheme === 'scrypt' && salt && hash) {
+      const derived = crypto.scryptSync(secret, Buffer.from(salt, 'hex'), 64).toString('hex')
+      if (safeEqual(derived, hash)) return true
+    }
+  }
+  return !!authConfig.token && safeEqual(secret, authConfig.token)
+}
+
+// What a signed token lets its holder do. Tokens without a scope are app sessions.
+type TokenScope = 'app' | 'preview' | 'preview-ticket'
+
+function signSession(scope: TokenScope = 'app', maxAge = SESSION_MAX_AGE): string {
+  const now = Math.floor(Date.now() / 1000)
+  const payload = Buffer.from(JSON.stringify({ iat: now, exp: now + maxAge, scope })).toString('base64url')
+  const signature = crypto.createHmac('sha256', authConfig.secret).update(payload).digest('base64url')
+  return `${payload}.${signature}`
+}
+
+function verifySession(value: string | undefined, scope: TokenScope = 'app'): boolean {
+  if (!value) return false
+  const [payload, signature] = value.split('.')
+  if (!payload || !signature) return false
+
+  const expected = crypto.createHmac('sha256', authConfig.secret).update(payload).digest('base64url')
+  if (!safeEqual(signature, expected)) return false
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'))
+    return typeof claims.exp === 'number' && claims.exp > Date.now() / 1000 && (claims.scope || 'app') === scope
+  } catch {
+    return false
+  }
+}
+
+function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {}
+  if (!header) return cookies
+  for (const part of header.split(';')) {
+    const index = part.indexOf('=')
+    if (index === -1) continue
+    try {
+      cookies[part.slice(0, index).trim()] = decodeURIComponent(part.slice(index + 1).trim())
+    } catch {
+      // Ignore malformed cookie values
+    }
+  }
+  return cookies
+}
+
+// A Cookie header without our login cookies, for requests passed on to other servers
+export function withoutSessionCookie(header: string | undefined): string | undefined {
+  if (!header) return header
+  return header
+    .split(';')
+    .filter(part => ![SESSION_COOKIE, PREVIEW_COOKIE].includes(part.trim().split('=')[0]))
+    .join(';')
+    .trim() || undefined
+}
+
+export function isAuthenticated(req: IncomingMessage): boolean {
+  return verifySession(parseCookies(req.headers.cookie)[SESSION_COOKIE])
+}
+
+// A ticket for logging in to the preview origin, for a logged in app user
+export function previewTicket(): string {
+  return signSession('preview-ticket', PREVIEW_TICKET_MAX_AGE)
+}
+
+export function verifyPreviewTicket(ticket: string | undefined): boolean {
+  return verifySession(ticket, 'preview-ticket')
+}
+
+export function previewSessionCookie(req: IncomingMessage): string {
+  return sessionCookie(req, signSession('preview', PREVIEW_MAX_AGE), PREVIEW_MAX_AGE, PREVIEW_COOKIE)
+}
+
+// Logged in to the preview origin. The app's own cookie doesn't count there.
+export function isPreviewAuthenticated(req: IncomingMessage): boolean {
+  return verifySession(parseCookies(req.headers.cookie)[PREVIEW_COOKIE], 'preview')
+}
+
+export function isPublicPath(pathname: string): boolean {
+  return PUBLIC_PATHS.has(pathname) || PUBLIC_PREFIXES.some(prefix => pathname.startsWith(prefix))
+}
+
+// Reject requests and WebSocket upgrades coming from pages served by another
+// origin. Browsers leave Origin off some requests, but still name the page in
+// the Referer.
+export function isSameOrigin(req: IncomingMessage): boolean {
+  const origin = req.headers.origin || req.headers.referer
+  if (!origin) return true // Non-browser clients send neither; the cookie check still applies
+  try {
+    // The port counts: another server on the same machine is another origin
+    return new URL(origin).host === (req.headers.host || '').toLowerCase()
+  } catch {
+    return false
+  }
+}
+
+// Sent by a previewed page - code from the host, which mustn't reach the API
+// or open terminals even if it ends up served from the app's origin
+export function isFromPreview(req: IncomingMessage): boolean {
+  const referer = req.headers.referer
+  if (!referer) return false
+  try {
+    return /\/preview\/[^/]+\/\d+(\/|$)/.test(new URL(referer).pathname)
+  } catch {
+    return false
+  }
+}
+
+// Failed login attempts per client address
+const loginFailures = new Map<string, { count: number; resetAt: number }>()
+
+function isLoginThrottled(ip: string): boolean {
+  const entry = loginFailures.get(ip)
+  if (!entry) return false
+  if (entry.resetAt < Date.now()) {
+    loginFailures.delete(ip)
+    return false
+  }
+  return entry.count >= LOGIN_MAX_FAILURES
+}
+
+function recordLoginFailure(ip: string) {
+  const entry = loginFailures.get(ip)
+  if (entry && entry.resetAt >= Date.now()) {
+    entry.count++
+  } else {
+    loginFailures.set(ip, { count: 1, resetAt: Date.now() + LOGIN_WINDOW_MS })
+  }
+}
+
+export function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers })
+  res.end(JSON.stringify(body))
+}
+
+export function readJsonBody(req: IncomingMessage, limit = 16 * 1024): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    let body = ''
+    req.on('data', (chunk) => {
+      body += chunk
+      if (body.length > limit) {
+        reject(new Error('Request body too large'))
+        req.destroy()
+      }
+    })
+    req.on('end', () => {
+      try {
+        resolve(body ? JSON.parse(body) : {})
+      } catch (err) {
+        reject(err)
+      }
+    })
+    req.on('error', reject)
+  })
+}
+
+function sessionCookie(req: IncomingMessage, value: string, maxAge: number, name = SESSION_COOKIE): string {
+  // Over HTTPS the cookie is never sent back over plain HTTP
+  const secure = (req.socket as TLSSocket).encrypted ? '; Secure' : ''
+  return `${name}=${value}; Path=/; Max-Age=${maxAge}; HttpOnly; SameSite=Strict${secure}`
+}
+
+// Handle /api/auth/* routes. Returns true if the request was handled.
+export async function handleAuthRoute(req: IncomingMessage, res: ServerResponse, pathname: string): Promise<boolean> {
+  if (pathname === '/api/auth/status' && req.method === 'GET') {
+    sendJson(res, 200, { authenticated: isAuthenticated(req) })
+    return true
+  }
+
+  if (pathname === '/api/auth/login' && req.method === 'POST') {
+    const ip = req.socket.remoteAddress || 'unknown'
+    if (isLoginThrottled(ip)) {
+      sendJson(res, 429, { error: 'Too many failed attempts, try again later' })
+      return true
+    }
+
+    let body: unknown
+    try {
+      body = await readJsonBody(req)
+    } catch {
+      sendJson(res, 400, { error: 'Invalid request body' })
+      return true
+    }
+
+    const password = body && typeof body === 'object' ? (body as { password?: unknown }).password : undefined
+    if (!verifyCredential(password)) {
+      recordLoginFailure(ip)
+      log.warn(`Failed login attempt from ${ip}`)
+      sendJson(res, 401, { error: 'Invalid password or token' })
+      return true
+    }
+
+    loginFailures.delete(ip)
+    sendJson(res, 200, { success: true }, { 'Set-Cookie': sessionCookie(req, signSession(), SESSION_MAX_AGE) })
+    return true
+  }
+
+  if (pathname === '/api/auth/logout' && req.method === 'POST') {
+    sendJson(res, 200, { success: true }, { 'Set-Cookie': sessionCookie(req, '', 0) })
+    return true
+  }
+
+  return false
+}
@@ -0,0 +1,154 @@
+import crypto from 'crypto'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import type { SSHHost } from '../../lib/ssh-parser'
+import { matchPatterns } from '../../lib/ssh-config'
+import { log } from '../log'
+
+const DEFAULT_USER_FILES = '~/.ssh/known_hosts ~/.ssh/known_hosts2'
+const DEFAULT_GLOBAL_FILES = '/etc/ssh/ssh_known_hosts /etc/ssh/ssh_known_hosts2'
+
+// Where a host's keys are recorded and what to do with one that isn't
+export interface KnownHostsPolicy {
+  name: string // The host as known_hosts has it: host, [host]:port or its HostKeyAlias
+  userFiles: string[] // New keys are saved to the first one
+  globalFiles: string[]
+  strict: 'yes' | 'ask' | 'accept-new' | 'no' // StrictHostKeyChecking
+  hash: boolean // HashKnownHosts: save the name hashed
+}
+
+export interface HostKeyCheck {
+  status: 'known' | 'unknown' | 'changed' | 'revoked'
+  keyType: string
+  fingerprint: string
+  knownTypes: string[] // Other types of key on record for the host
+  file: string | null // Where the key it conflicts with is, for 'changed'
+  line: number | null
+}
+
+function expandHome(file: string): string {
+  return file.replace(/^~(?=$|\/)/, os.homedir())
+}
+
+function strictness(value?: string): KnownHostsPolicy['strict'] {
+  switch (value?.toLowerCase()) {
+    case 'yes':
+    case 'true':
+      return 'yes'
+    case 'no':
+    case 'off':
+    case 'false':
+      return 'no'
+    case 'accept-new':
+      return 'accept-new'
+    default:
+      return 'ask'
+  }
+}
+
+export function knownHostsPolicy(host: SSHHost, address: string, port: number): KnownHostsPolicy {
+  const name = address.toLowerCase()
+  return {
+    name: host.hostKeyAlias || (port === 22 ? name : `[${name}]:${port}`),
+    userFiles: (host.userKnownHostsFile || DEFAULT_USER_FILES).split(/\s+/).filter(file => file !== 'none'),
+    globalFiles: (host.globalKnownHostsFile || DEFAULT_GLOBAL_FILES).split(/\s+/).filter(file => file !== 'none'),
+    strict: strictness(host.strictHostKeyChecking),
+    hash: host.hashKnownHosts?.toLowerCase() === 'yes',
+  }
+}
+
+// The algorithm name at the start of a public key blob, e.g. ssh-ed25519
+export function keyType(key: Buffer): string {
+  const length = key.readUInt32BE(0)
+  return key.subarray(4, 4 + length).toString()
+}
+
+// Like ssh-keygen -l: SHA256:<unpadded base64>
+export function fingerprint(key: Buffer): string {
+  return `SHA256:${crypto.createHash('sha256').update(key).digest('base64').replace(/=+$/, '')}`
+}
+
+// A hashed entry is |1|salt|hmac-sha1(salt, name), so the name itself can't be read back
+function hashName(name: string, salt = crypto.randomBytes(20)): string {
+  const hash = crypto.createHmac('sha1', salt).update(name).digest('base64')
+  return `|1|${salt.toString('base64')}|${hash}`
+}
+
+function hostMatches(field: string, name: string): boolean {
+  if (field.startsWith('|1|')) {
+    const salt = field.split('|')[2]
+    return !!salt && hashName(name, Buffer.from(salt, 'base64')) === field
+  }
+  return matchPatterns(name, field.split(','), true)
+}
+
+// Look the host's key up in its known_hosts files. An entry with the same key
+// wins over one with a different key of the same type, as in OpenSSH.
+export function checkHostKey(policy: KnownHostsPolicy, key: Buffer): HostKeyCheck {
+  const check: HostKeyCheck = {
+    status: 'unknown',
+    keyType: keyType(key),
+    fingerprint: fingerprint(key),
+    knownTypes: [],
+    file: null,
+    line: null,
+  }
+  let known = false
+  let changed = false
+
+  for (const file of [...policy.userFiles, ...policy.globalFiles].map(expandHome)) {
+    let content: string
+    try {
+      content = fs.readFileSync(file, 'utf-8')
+    } catch {
+      continue
+    }
+    content.split('\n').forEach((text, index) => {
+      const fields = text.trim().split(/\s+/)
+      if (!fields[0] || fields[0].startsWith('#')) return
+      const marker = fields[0].startsWith('@') ? fields.shift() : null
+      const [hosts, type, blob] = fields
+      if (!blob || !hostMatches(hosts, policy.name)) return
+      if (marker === '@cert-authority') return // ssh2 doesn't do host certificates
+
+      const same = type === check.keyType && Buffer.from(blob, 'base64').equals(key)
+      if (marker === '@revoked') {
+        if (same) check.status = 'revoked'
+      } else if (same) {
+        known = true
+      } else if (type === check.keyType) {
+        if (!changed) {
+          check.file = file
+          check.line = index + 1
+        }
+        changed = true
+      } else if (!check.knownTypes.includes(type)) {
+        check.knownTypes.push(type)
+      }
+    })
+  }
+
+  if (check.status !== 'revoked') {
+    check.status = known ? 'known' : changed ? 'changed' : 'unknown'
+  }
+  return check
+}
+
+// Record the key in the user's known_hosts file
+export function addKnownHost(policy: KnownHostsPolicy, key: Buffer) {
+  if (policy.userFiles.length === 0) return
+  const file = expandHome(policy.userFiles[0])
+  fs.mkdirSync(path.dirname(file), { recursive: true, mode: 0o700 })
+
+  let separator = ''
+  try {
+    const content = fs.readFileSync(file)
+    if (content.length > 0 && content[content.length - 1] !== 0x0a) separator = '\n'
+  } catch {
+    // A new file
+  }
+  const name = policy.hash ? hashName(policy.name) : policy.name
+  fs.appendFileSync(file, `${separator}${name} ${keyType(key)} ${key.toString('base64')}\n`, { mode: 0o600 })
+  log.info(`Added ${keyType(key)} key for ${policy.name} to ${file}`)
+}
@@ -0,0 +1,134 @@
+import os from 'os'
+import fs from 'fs'
+import net from 'net'
+import { spawn, exec as execCommand, ChildProcess } from 'child_process'
+import { config } from '../config'
+import { log } from '../log'
+import type { Backend, HostConnection } from '../connection'
+import { LocalFileSystem } from '../fs/local'
+import { spawnPty, signalName, PtyProcess } from './pty'
+
+const RUN_TIMEOUT = 10000
+
+// Get default shell based on platform, unless one is configured
+function getDefaultShell(): string {
+  if (config.shell) {
+    return config.shell
+  }
+  if (process.platform === 'win32') {
+    return 'powershell.exe'
+  }
+  // Works for Mac, Linux, and Termux
+  return process.env.SHELL || '/bin/sh'
+}
+
+// Local terminals are individual PTYs; file operations use the local filesystem
+export function createLocalBackend(connection: HostConnection): Backend {
+  const shell = getDefaultShell()
+  const fileSystem = new LocalFileSystem()
+
+  const backend: Backend = {
+    openShell(terminal, cols, rows) {
+      log.debug(`Starting local terminal: ${[shell, ...config.shellArgs].join(' ')}`)
+
+      let ptyProcess: PtyProcess
+      try {
+        ptyProcess = spawnPty(shell, config.shellArgs, {
+          name: 'xterm-256color',
+          cols,
+          rows,
+          cwd: os.homedir(),
+          env: { ...process.env, TERM: 'xterm-256color' }
+        })
+      } catch (err) {
+        log.error('Failed to spawn terminal:', err)
+        terminal.emit(`\r\nError: Failed to start terminal - ${err.message}\r\n`)
+        terminal.exit()
+        return
+      }
+
+      ptyProcess.onData((data) => terminal.emit(data))
+      ptyProcess.onExit(({ exitCode, signal }) => terminal.exit(exitCode, signalName(signal)))
+
+      terminal.write = (data) => ptyProcess.write(data)
+      terminal.resize = (cols, rows) => ptyProcess.resize(cols, rows)
+      terminal.kill = () => ptyProcess.kill()
+      terminal.ready()
+    },
+    exec(exec, { command, cwd, env }) {
+      log.debug(`Running: ${command}`)
+      const dir = cwd ? cwd.replace(/^~(?=$|\/)/, os.homedir()) : os.homedir()
+      if (!fs.existsSync(dir)) {
+        // spawn would blame the shell instead
+        exec.exit(null, null, `No such directory: ${dir}`)
+        return
+      }
+
+      let child: ChildProcess
+      try {
+        child = spawn(command, {
+          shell: true,
+          cwd: dir,
+          env: { ...process.env, ...env },
+          stdio: ['ignore', 'pipe', 'pipe'],
+          detached: process.platform !== 'win32', // Own process group, so cancelling stops pipelines too
+        })
+      } catch (err) {
+        exec.exit(null, null, err.message)
+        return
+      }
+
+      child.stdout.on('data', (data: Buffer) => exec.stdout(data))
+      child.stderr.on('data', (data: Buffer) => exec.stderr(data))
+      child.on('error', (err) => exec.exit(null, null, err.message))
+      child.on('close', (code, signal) => exec.exit(code, signal))
+
+      exec.kill = () => {
+        try {
+          process.kill(-child.pid, 'SIGTERM')
+        } catch {
+          child.kill('SIGTERM')
+        }
+      }
+    },
+    run(command) {
+      return new Promise((resolve, reject) => {
+        execCommand(command, { cwd: os.homedir(), timeout: RUN_TIMEOUT }, (err, stdout) => {
+          // A failed command may still have printed something useful
+          if (err && !stdout) {
+            reject(err)
+          } else {
+            resolve(stdout)
+          }
+        })
+      })
+    },
+    openTunnel(port, host = '127.0.0.1') {
+      return new Promise((resolve, reject) => {
+        const socket = net.connect(port, host)
+        socket.once('connect', () => {
+          socket.off('error', reject)
+          resolve(socket)
+        })
+        socket.once('error', reject)
+      })
+    },
+    listen(address, port, onConnection) {
+      return new Promise((resolve, reject) => {
+        const server = net.createServer(onConnection)
+        server.once('error', reject)
+        server.listen(port, address || undefined, () => {
+          server.off('error', reject)
+          resolve(() => server.close())
+        })
+      })
+    },
+    fileSystem: async () => fileSystem,
+    handleAuth() {},
+    end() {},
+  }
+
+  connection.backend = backend
+  connection.setReady()
+  return backend
+}
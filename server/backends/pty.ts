@@ -0,0 +1,137 @@
+import os from 'os'
+import { spawn, ChildProcess } from 'child_process'
+import type { BackendKind } from '../../lib/connection-protocol'
+import { log } from '../log'
+
+export interface PtyExitEvent {
+  exitCode: number
+  signal?: number // Set when the shell was killed by a signal
+}
+
+// The parts of node-pty's IPty that terminals use, so node-pty can stay optional
+export interface PtyProcess {
+  onData(callback: (data: Buffer) => void): void
+  onExit(callback: (event: PtyExitEvent) => void): void
+  write(data: string | Buffer): void
+  resize(cols: number, rows: number): void
+  kill(): void
+}
+
+export interface PtyOptions {
+  name: string
+  cols: number
+  rows: number
+  cwd: string
+  env: NodeJS.ProcessEnv
+}
+
+// Try to load node-pty, fall back to child_process wrapper
+let pty: { spawn(file: string, args: string[], options: object): PtyProcess } | null = null
+try {
+  pty = require('node-pty')
+  log.debug('Using node-pty for terminal')
+} catch {
+  log.info('node-pty not available, using child_process fallback')
+}
+
+// Fallback PTY implementation for Termux/Linux without node-pty
+class FallbackPty implements PtyProcess {
+  private process: ChildProcess
+  private dataCallbacks: ((data: Buffer) => void)[] = []
+  private exitCallbacks: ((event: PtyExitEvent) => void)[] = []
+
+  constructor(shell: string, args: string[], options: PtyOptions) {
+    const cols = options.cols || 80
+    const rows = options.rows || 24
+
+    // Check if we're on Termux (Android)
+    const isTermux = (process.platform as string) === 'android' ||
+                     process.env.TERMUX_VERSION ||
+                     process.env.PREFIX?.includes('com.termux')
+
+    // 'script' gives the shell a real PTY
+    let spawnArgs: string[]
+    if (isTermux) {
+      // On Termux, use script command which is available via util-linux
+      // script -q -c "bash -i" /dev/null creates a proper PTY
+      spawnArgs = ['-q', '-c', [shell, ...args, '-i'].join(' '), '/dev/null']
+    } else {
+      spawnArgs = ['-q', '/dev/null', shell, ...args]
+    }
+
+    log.debug('FallbackPty: spawning script with args:', spawnArgs)
+
+    this.process = spawn('script', spawnArgs, {
+      cwd: options.cwd || os.homedir(),
+      env: {
+        ...process.env,
+        ...options.env,
+        TERM: 'xterm-256color',
+        COLUMNS: String(cols),
+        LINES: String(rows),
+        PS1: '\\u@\\h:\\w\\$ '  // Set a simple prompt
+      },
+      stdio: ['pipe', 'pipe', 'pipe']
+    })
+
+    // stdout and stderr both go to the terminal
+    this.process.stdout.on('data', (data: Buffer) => {
+      this.dataCallbacks.forEach(cb => cb(data))
+    })
+    this.process.stderr.on('data', (data: Buffer) => {
+      this.dataCallbacks.forEach(cb => cb(data))
+    })
+
+    this.process.on('exit', (code, signal) => {
+      log.debug('FallbackPty: process exited with code', code)
+      const event: PtyExitEvent = { exitCode: code ?? 0, signal: signal ? os.constants.signals[signal] : undefined }
+      this.exitCallbacks.forEach(cb => cb(event))
+    })
+
+    this.process.on('error', (err) => {
+      log.error('FallbackPty: spawn error', err)
+      this.dataCallbacks.forEach(cb => cb(Buffer.from(`\r\nError: ${err.message}\r\n`)))
+    })
+  }
+
+  onData(callback: (data: Buffer) => void) {
+    this.dataCallbacks.push(callback)
+  }
+
+  onExit(callback: (event: PtyExitEvent) => void) {
+    this.exitCallbacks.push(callback)
+  }
+
+  write(data: string | Buffer) {
+    if (this.process.stdin.writable) {
+      this.process.stdin.write(data)
+    }
+  }
+
+  resize() {
+    // 'script' can't be resized from outside
+  }
+
+  kill() {
+    this.process.kill('SIGHUP')
+  }
+}
+
+// Spawn a PTY with node-pty when available, producing raw bytes rather than
+// strings - the client decodes UTF-8 across chunk boundaries
+export function spawnPty(shell: string, args: string[], options: PtyOptions): PtyProcess {
+  if (pty) {
+    return pty.spawn(shell, args, { ...options, encoding: null })
+  }
+  return new FallbackPty(shell, args, options)
+}
+
+// Which PTY implementation local terminals get
+export const ptyBackend: Exclude<BackendKind, 'ssh'> = pty ? 'node-pty' : 'fallback-pty'
+
+// "SIGTERM" for 15, or null for no signal
+export function signalName(signal: number | undefined): string | null {
+  if (!signal) return null
+  const signals = os.constants.signals as Record<string, number>
+  return Object.keys(signals).find(name => signals[name] === signal) || `signal ${signal}`
+}
@@ -0,0 +1,422 @@
+import os from 'os'
+import fs from 'fs'
+import path from 'path'
+import { utils } from 'ssh2'
+import type { AnyAuthMethod, AuthHandlerMiddleware, ConnectConfig, ParsedKey } from 'ssh2'
+import { config } from '../config'
+import { log } from '../log'
+import { SSHHost, forwardsAgent } from '../../lib/ssh-parser'
+import { isPasswordPrompt } from '../../lib/connection-protocol'
+import type { AuthMethodName, AuthAttemptMessage, AuthPasswordMessage, AuthPasswordRequiredMessage, AuthHostKeyMessage, AuthHostKeyUnknownMessage, HostKeyDecision } from '../../lib/connection-protocol'
+import type { HostConnection } from '../connection'
+import { Certificate, certificateKey, parseCertificate } from './ssh-certificate'
+
+const DEFAULT_KEYS = ['id_ed25519', 'id_ecdsa', 'id_rsa', 'id_dsa']
+const MAX_FAILED_LOGINS = 3 // Like OpenSSH's NumberOfPasswordPrompts
+const MAX_PASSPHRASE_TRIES = 3
+
+function expandHome(file: string): string {
+  return file.replace(/^~(?=$|\/)/, os.homedir())
+}
+
+// A key file as the user would write it, for prompts and the attempt list
+function displayPath(file: string): string {
+  const home = os.homedir()
+  return file.startsWith(home + path.sep) ? `~${file.slice(home.length)}` : file
+}
+
+// The agent socket ForwardAgent names: SSH_AUTH_SOCK for "yes", else a path
+// or an environment variable
+function forwardedAgent(value?: string): string | null {
+  if (!forwardsAgent(value)) return null
+  if (value.toLowerCase() === 'yes') return process.env.SSH_AUTH_SOCK || null
+  if (value.startsWith('$')) return process.env[value.slice(1)] || null
+  return expandHome(value)
+}
+
+// Connection settings for a host from the SSH config. Keys, the agent and
+// passwords are offered by an AuthPipeline as the server asks for them.
+export function buildConnectConfig(hostConfig: SSHHost): ConnectConfig {
+  const connectConfig: ConnectConfig = {
+    host: hostConfig.hostname || hostConfig.name,
+    port: parseInt(hostConfig.port, 10) || 22,
+    username: hostConfig.user || os.userInfo().username,
+    readyTimeout: 0, // Its timer runs on through login, which waits on the user; connectHop times the handshake instead
+    keepaliveInterval: config.sshKeepaliveInterval * 1000,
+    keepaliveCountMax: config.sshKeepaliveCountMax,
+  }
+
+  // With both set, ssh2 asks for agent forwarding on every shell and command
+  // and hands the server's agent channels to this socket
+  const agent = forwardedAgent(hostConfig.forwardAgent)
+  if (agent) {
+    connectConfig.agent = agent
+    connectConfig.agentForward = true
+  } else if (forwardsAgent(hostConfig.forwardAgent)) {
+    log.warn(`ForwardAgent is on for ${hostConfig.name}, but there is no agent to forward`)
+  }
+  return connectConfig
+}
+
+// CertificateFiles, with ~ expanded
+export function certificateFiles(hostConfig: SSHHost): string[] {
+  return (hostConfig.certificateFiles || []).filter(file => file.toLowerCase() !== 'none').map(expandHome)
+}
+
+// The key files to try for a host: its IdentityFiles, then the default keys, each once
+export function identityFiles(hostConfig: SSHHost): string[] {
+  const files = [
+    ...(hostConfig.identityFiles || []).filter(file => file.toLowerCase() !== 'none'),
+    ...DEFAULT_KEYS.map(name => path.join('~', '.ssh', name)),
+  ].map(expandHome)
+  return files.filter((file, index) => files.indexOf(file) === index)
+}
+
+// Whether a key file holds the key a certificate is for, going by its .pub
+// file, or the key itself if that isn't there and it needs no passphrase
+function certifies(certificate: Certificate, keyFile: string): boolean {
+  for (const file of [`${keyFile}.pub`, keyFile]) {
+    let parsed: ReturnType<typeof utils.parseKey>
+    try {
+      parsed = utils.parseKey(fs.readFileSync(file))
+    } catch {
+      continue
+    }
+    if (parsed instanceof Error) continue
+    const key = Array.isArray(parsed) ? parsed[0] : parsed
+    return key.getPublicSSH().equals(certificate.publicKey)
+  }
+  return false
+}
+
+export function isAuthError(err: Error & { level?: string }): boolean {
+  return err.message.includes('All configured authentication methods failed') ||
+         err.message.includes('authentication failed') ||
+         err.level === 'client-authentication'
+}
+
+// Asks the attached client for passwords, key passphrases, keyboard-interactive
+// responses and whether to trust a new host key, one question at a time
+export class AuthPrompter {
+  private resolver: ((responses: string[]) => void) | null = null
+  private hostKeyResolver: ((decision: HostKeyDecision) => void) | null = null
+  private question: AuthPasswordRequiredMessage | AuthHostKeyUnknownMessage | null = null // Still waiting for an answer
+
+  constructor(private connection: HostConnection) {}
+
+  get waiting(): boolean {
+    return this.resolver !== null || this.hostKeyResolver !== null
+  }
+
+  ask(request: Omit<AuthPasswordRequiredMessage, 'type'>, onAnswer: (responses: string[]) => void) {
+    this.resolver = onAnswer
+    const message: AuthPasswordRequiredMessage = { type: 'auth:password-required', ...request }
+    if (!message.name) delete message.name
+    if (!message.instructions) delete message.instructions
+    this.question = message
+    this.connection.sendJson(message)
+  }
+
+  confirmHostKey(message: AuthHostKeyUnknownMessage, onDecision: (decision: HostKeyDecision) => void) {
+    this.hostKeyResolver = onDecision
+    this.question = message
+    this.connection.sendJson(message)
+  }
+
+  // For a client that attached after the question was sent, e.g. while reconnecting
+  repeat() {
+    if (this.question) this.connection.sendJson(this.question)
+  }
+
+  answer(message: AuthPasswordMessage | AuthHostKeyMessage) {
+    if (message.type === 'auth:hostkey') {
+      const decide = this.hostKeyResolver
+      if (!decide) return
+      this.hostKeyResolver = null
+      this.question = null
+      decide(message.decision)
+      return
+    }
+    const resolve = this.resolver
+    if (!resolve) return
+    this.resolver = null
+    this.question = null
+    resolve(message.responses || [message.password])
+  }
+
+  cancel() {
+    this.resolver = null
+    this.hostKeyResolver = null
+    this.question = null
+  }
+}
+
+interface AuthStep {
+  method: AuthMethodName
+  key: string | null
+  // What to send the server, or null to move on without trying it
+  start: () => Promise<AnyAuthMethod | null>
+}
+
+// Logs in to one server as ssh2's authHandler: the agent, each key file,
+// keyboard-interactive, then a password, skipping what the server doesn't
+// accept and telling the client about every attempt. A key is only read
+// (and its passphrase asked for) when its turn comes.
+export class AuthPipeline {
+  private steps: AuthStep[] = []
+  private current: AuthStep | null = null
+  private answered = false // The user typed the answers for the current step
+  private typedPassword: string | null = null // A password the user typed for the current step
+  private usedSavedPassword = false // The current step answered with a password that worked before
+  private stepError: string | null = null // Why the current step couldn't be sent
+  private failedLogins = 0 // Rejected passwords or keyboard-interactive answers
+
+  constructor(
+    private connection: HostConnection,
+    private prompter: AuthPrompter,
+    private label: string, // user@host[:port]
+    private username: string,
+    keyFiles: string[],
+    certificates: string[],
+    private passphrases: Map<string, string>, // By key file, shared by every attempt on the connection
+    private passwords: Map<string, string>, // Passwords that logged in, by server, likewise
+    private labelPrompts: boolean, // Say which server is asking, when there are jump hosts
+  ) {
+    if (process.env.SSH_AUTH_SOCK) {
+      this.steps.push({ method: 'agent', key: null, start: async () => ({ type: 'agent', username, agent: process.env.SSH_AUTH_SOCK }) })
+    }
+    // Like ssh, a certificate is offered before the keys on their own
+    certificates.forEach(file => {
+      this.steps.push({ method: 'publickey', key: file, start: () => this.certificate(file, keyFiles) })
+    })
+    keyFiles.forEach(file => {
+      this.steps.push({ method: 'publickey', key: file, start: () => this.publicKey(file) })
+    })
+    this.steps.push(this.keyboardInteractive(), this.password())
+  }
+
+  readonly handler: AuthHandlerMiddleware = (methodsLeft, partialSuccess, next) => {
+    if (methodsLeft === null) {
+      // Ask with no credentials first, to learn which methods the server
+      // takes before prompting for anything
+      next({ type: 'none', username: this.username })
+      return
+    }
+    if (this.current) this.refused(partialSuccess)
+    // false gives up, though the typings leave it out
+    const send = next as (auth: AnyAuthMethod | false) => void
+    this.next(methodsLeft).then(auth => send(auth || false), (err) => {
+      log.warn(`Authentication for ${this.label} stopped:`, err.message)
+      send(false)
+    })
+  }
+
+  // Leave out the agent and key files, so only what the user types is tried
+  passwordOnly() {
+    this.steps = this.steps.filter(step => step.method === 'keyboard-interactive' || step.method === 'password')
+  }
+
+  // The server accepted the step in progress
+  succeeded() {
+    if (this.current) this.report(this.current, 'accepted')
+    this.keepPassword()
+    this.current = null
+  }
+
+  // Logging in again after the connection drops won't need the user
+  private keepPassword() {
+    if (this.typedPassword !== null) this.passwords.set(this.label, this.typedPassword)
+    this.typedPassword = null
+  }
+
+  private async next(methodsLeft: string[]): Promise<AnyAuthMethod | null> {
+    while (this.steps.length > 0) {
+      const step = this.steps.shift()
+      const type = step.method === 'agent' ? 'publickey' : step.method
+      if (!methodsLeft.includes(type)) continue
+
+      this.answered = false
+      this.typedPassword = null
+      this.usedSavedPassword = false
+      this.stepError = null
+      const auth = await step.start()
+      if (!auth) continue
+      this.current = step
+      this.report(step, 'trying')
+      return auth
+    }
+    return null
+  }
+
+  // A typed answer that was wrong is asked for again, up to MAX_FAILED_LOGINS
+  // times over all of them
+  private refused(partialSuccess: boolean) {
+    const step = this.current
+    this.current = null
+    if (this.stepError) {
+      this.report(step, 'skipped', this.stepError)
+      return
+    }
+    this.report(step, partialSuccess ? 'partial' : 'refused')
+    if (partialSuccess) this.keepPassword()
+    if (this.usedSavedPassword && !partialSuccess) {
+      // Changed since it was saved - ask for it
+      this.passwords.delete(this.label)
+      this.steps.unshift(step.method === 'password' ? this.password() : this.keyboardInteractive())
+      return
+    }
+    if (partialSuccess || !this.answered) return
+
+    this.failedLogins++
+    const retry = this.failedLogins < MAX_FAILED_LOGINS
+    this.connection.sendJson({ type: 'auth:failed', error: retry ? 'Permission denied, please try again' : 'Permission denied', retry })
+    if (retry) {
+      this.steps.unshift(step.method === 'password' ? this.password() : this.keyboardInteractive())
+    } else {
+      this.steps = []
+    }
+  }
+
+  private ask(request: Omit<AuthPasswordRequiredMessage, 'type' | 'host'>): Promise<string[]> {
+    return new Promise(resolve => this.prompter.ask({ ...request, host: this.label }, resolve))
+  }
+
+  private async publicKey(file: string): Promise<AnyAuthMethod | null> {
+    const key = await this.privateKey(file)
+    return key && { type: 'publickey', username: this.username, key }
+  }
+
+  // A certificate with the private key it certifies: the one beside it
+  // (id_ed25519 for id_ed25519-cert.pub) or one of the host's key files
+  private async certificate(file: string, keyFiles: string[]): Promise<AnyAuthMethod | null> {
+    let certificate: Certificate | null
+    try {
+      certificate = parseCertificate(fs.readFileSync(file, 'utf-8'))
+    } catch (err) {
+      if (err.code !== 'ENOENT') this.skip(file, err.message)
+      return null
+    }
+    if (!certificate) {
+      this.skip(file, 'Not an OpenSSH certificate')
+      return null
+    }
+
+    const keyFile = [file.replace(/-cert\.pub$/, ''), ...keyFiles]
+      .find(candidate => candidate !== file && certifies(certificate, candidate))
+    if (!keyFile) {
+      this.skip(file, 'No key file for this certificate')
+      return null
+    }
+    const key = await this.privateKey(keyFile, file)
+    if (!key) return null
+    const certKey = certificateKey(key, certificate, (reason) => {
+      this.stepError = reason
+    })
+    return { type: 'publickey', username: this.username, key: certKey }
+  }
+
+  // The key in a file, decrypted with a passphrase from the user if it needs
+  // one. Problems are reported for `attempt`, the file being tried.
+  private async privateKey(file: string, attempt = file): Promise<ParsedKey | null> {
+    let data: Buffer
+    try {
+      data = fs.readFileSync(file)
+    } catch (err) {
+      // Default keys that don't exist are the usual case
+      if (err.code !== 'ENOENT') this.skip(attempt, err.message)
+      return null
+    }
+
+    let parsed = utils.parseKey(data, this.passphrases.get(file))
+    if (parsed instanceof Error && /no passphrase given/.test(parsed.message)) {
+      for (let tries = 0; tries < MAX_PASSPHRASE_TRIES && parsed instanceof Error; tries++) {
+        if (tries > 0) {
+          this.connection.sendJson({ type: 'auth:failed', error: 'Wrong passphrase, please try again', retry: true })
+        }
+        const [passphrase] = await this.ask({
+          kind: 'passphrase',
+          prompts: [{ prompt: `Passphrase for ${displayPath(file)}:`, echo: false }],
+          key: displayPath(file),
+        })
+        parsed = utils.parseKey(data, passphrase)
+        if (!(parsed instanceof Error)) this.passphrases.set(file, passphrase)
+      }
+      if (parsed instanceof Error) {
+        this.skip(attempt, 'Wrong passphrase')
+        return null
+      }
+    }
+    if (parsed instanceof Error) {
+      this.skip(attempt, parsed.message)
+      return null
+    }
+    // A file can hold several keys; like ssh, use the first
+    return Array.isArray(parsed) ? parsed[0] : parsed
+  }
+
+  private keyboardInteractive(): AuthStep {
+    return {
+      method: 'keyboard-interactive',
+      key: null,
+      start: async () => ({
+        type: 'keyboard-interactive',
+        username: this.username,
+        // Called for every round the server asks; rounds without prompts are
+        // answered by ssh2 itself
+        prompt: (name, instructions, lang, prompts, finish) => {
+          log.debug(`Keyboard-interactive auth requested for ${this.label} (${prompts.length} prompts)`)
+          // "Password:" alone doesn't say which server is asking when there are jump hosts
+          const title = this.labelPrompts ? `${this.label}${name ? ` - ${name}` : ''}` : name
+          const request: AuthPasswordRequiredMessage = {
+            type: 'auth:password-required',
+            kind: 'keyboard-interactive',
+            prompts: prompts.map(p => ({ prompt: p.prompt, echo: !!p.echo })),
+            host: this.label,
+            name: title,
+            instructions,
+          }
+          const saved = this.passwords.get(this.label)
+          if (saved !== undefined && !this.usedSavedPassword && isPasswordPrompt(request)) {
+            this.usedSavedPassword = true
+            finish([saved])
+            return
+          }
+          this.ask(request).then((responses) => {
+            this.answered = true
+            if (isPasswordPrompt(request) && responses[0]) this.typedPassword = responses[0]
+            finish(responses)
+          })
+        },
+      }),
+    }
+  }
+
+  private password(): AuthStep {
+    return {
+      method: 'password',
+      key: null,
+      start: async () => {
+        const saved = this.passwords.get(this.label)
+        if (saved !== undefined) {
+          this.usedSavedPassword = true
+          return { type: 'password', username: this.username, password: saved }
+        }
+        const [password] = await this.ask({ kind: 'password', prompts: [{ prompt: `Password for ${this.label}:`, echo: false }] })
+        this.answered = true
+        this.typedPassword = password
+        return { type: 'password', username: this.username, password }
+      },
+    }
+  }
+
+  private skip(file: string, reason: string) {
+    this.report({ method: 'publickey', key: file }, 'skipped', reason)
+  }
+
+  private report({ method, key }: Pick<AuthStep, 'method' | 'key'>, result: AuthAttemptMessage['result'], reason?: string) {
+    const message: AuthAttemptMessage = { type: 'auth:attempt', host: this.label, method, key: key && displayPath(key), result }
+    if (reason) message.reason = reason
+    log.debug(`Auth ${method}${key ? ` ${key}` : ''} for ${this.label}: ${result}${reason ? ` (${reason})` : ''}`)
+    this.connection.sendJson(message)
+  }
+}
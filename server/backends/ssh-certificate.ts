@@ -0,0 +1,171 @@
+import type { KeyType, ParsedKey } from 'ssh2'
+
+// OpenSSH certificates for publickey login. ssh2 sends a key's type as the
+// name of both the key and its signature, but for a certificate servers want
+// the certificate type for the key ("ssh-ed25519-cert-v01@openssh.com") and
+// the plain key type for the signature ("ssh-ed25519"). It also only signs
+// with SHA-2 for plain RSA keys. A certificate key stands in for the private
+// key it certifies, and its login requests are written here instead, with
+// ssh2's internals (it has no public hook for this).
+
+const Protocol = require('ssh2/lib/protocol/Protocol.js')
+const { convertSignature, sendPacket } = require('ssh2/lib/protocol/utils.js')
+
+// ssh2 is pinned to the version this was written against; another one may
+// have moved these, so the server refuses to start rather than send bad logins
+if (typeof Protocol?.prototype?.authPK !== 'function' || typeof Protocol.prototype.authNone !== 'function' ||
+    typeof convertSignature !== 'function' || typeof sendPacket !== 'function') {
+  throw new Error(`ssh2 ${require('ssh2/package.json').version} doesn't have the internals certificate login needs - install the version in package.json`)
+}
+
+const USERAUTH_REQUEST = 50
+const CERT_SUFFIX = '-cert-v01@openssh.com'
+
+// Fields of the certified public key, after the certificate type and nonce
+const KEY_FIELDS: Record<string, number> = {
+  'ssh-ed25519': 1,
+  'ssh-rsa': 2,
+  'ecdsa-sha2-nistp256': 2,
+  'ecdsa-sha2-nistp384': 2,
+  'ecdsa-sha2-nistp521': 2,
+  'ssh-dss': 4,
+}
+
+export interface Certificate {
+  type: string // e.g. ssh-ed25519-cert-v01@openssh.com
+  keyType: string // The certified key's, e.g. ssh-ed25519
+  blob: Buffer
+  publicKey: Buffer // The certified key as a plain public key blob
+}
+
+// What to call the key and the signature in a login request
+interface Algorithms {
+  key: string
+  signature: string
+  keyType: string
+  failed: (reason: string) => void // Signing didn't work, so the certificate is skipped
+}
+
+const certificateKeys = new WeakMap<ParsedKey, Algorithms>()
+
+function sshString(value: Buffer | string): Buffer {
+  const data = typeof value === 'string' ? Buffer.from(value) : value
+  const length = Buffer.alloc(4)
+  length.writeUInt32BE(data.length)
+  return Buffer.concat([length, data])
+}
+
+// The first `count` strings in a blob, each with its length; null if it's too short
+function readStrings(blob: Buffer, count: number): Buffer[] | null {
+  const strings: Buffer[] = []
+  let offset = 0
+  for (let i = 0; i < count; i++) {
+    if (offset + 4 > blob.length) return null
+    const end = offset + 4 + blob.readUInt32BE(offset)
+    if (end > blob.length) return null
+    strings.push(blob.subarray(offset, end))
+    offset = end
+  }
+  return strings
+}
+
+// The certificate in an OpenSSH -cert.pub file, or null if it isn't one
+export function parseCertificate(text: string): Certificate | null {
+  const [type, base64] = text.trim().split(/\s+/)
+  if (!type?.endsWith(CERT_SUFFIX) || !base64) return null
+  const keyType = type.slice(0, -CERT_SUFFIX.length)
+  const count = KEY_FIELDS[keyType]
+  if (!count) return null
+
+  const blob = Buffer.from(base64, 'base64')
+  const strings = readStrings(blob, 2 + count)
+  if (!strings || strings[0].subarray(4).toString() !== type) return null
+  return { type, keyType, blob, publicKey: Buffer.concat([sshString(keyType), ...strings.slice(2)]) }
+}
+
+// The private key, presented with its certificate. It keeps ssh2's own key
+// underneath, which ssh2 checks for. `failed` hears why it couldn't sign.
+export function certificateKey(key: ParsedKey, certificate: Certificate, failed: (reason: string) => void): ParsedKey {
+  patchAuthPK()
+  const rsa = certificate.keyType === 'ssh-rsa'
+  const certKey: ParsedKey = Object.create(key, {
+    type: { value: certificate.type as KeyType },
+    getPublicSSH: { value: () => certificate.blob },
+    sign: { value: (data: Buffer, algo?: string) => key.sign(data, rsa ? 'sha256' : algo) },
+  })
+  certificateKeys.set(certKey, {
+    key: rsa ? `rsa-sha2-256${CERT_SUFFIX}` : certificate.type,
+    signature: rsa ? 'rsa-sha2-256' : certificate.keyType,
+    keyType: certificate.keyType,
+    failed,
+  })
+  return certKey
+}
+
+// What a connection's protocol needs for writing a login request itself
+function hasInternals(protocol: any): boolean {
+  const write = protocol._packetRW?.write
+  return typeof write?.alloc === 'function' && typeof write.allocStart === 'number' &&
+    typeof write.finalize === 'function' && Array.isArray(protocol._authsQueue) && Buffer.isBuffer(protocol._kex?.sessionID)
+}
+
+// Protocol.authPK(username, key, keyAlgo?, sign?) sends the publickey request,
+// first without a signature to ask whether the key would do, then signed. It's
+// replaced the first time a certificate is used, and only acts for certificates.
+let patched = false
+function patchAuthPK() {
+  if (patched) return
+  patched = true
+
+  const authPK = Protocol.prototype.authPK
+  Protocol.prototype.authPK = function (username: string, key: ParsedKey, keyAlgo?: unknown, sign?: unknown) {
+    const algorithms = certificateKeys.get(key)
+    if (!algorithms) return authPK.apply(this, arguments)
+    if (typeof keyAlgo === 'function') sign = keyAlgo
+
+    // Asking with no method gets a failure back, and ssh2 goes on to the next one
+    const skip = (reason: string) => {
+      algorithms.failed(reason)
+      this.authNone(username)
+    }
+    if (!hasInternals(this)) {
+      skip(`ssh2 ${require('ssh2/package.json').version} can't send certificates`)
+      return
+    }
+
+    const request = (signed: boolean) => Buffer.concat([
+      Buffer.from([USERAUTH_REQUEST]),
+      sshString(username),
+      sshString('ssh-connection'),
+      sshString('publickey'),
+      Buffer.from([signed ? 1 : 0]),
+      sshString(algorithms.key),
+      sshString(key.getPublicSSH()),
+    ])
+    const send = (payload: Buffer) => {
+      const packet = this._packetRW.write.alloc(payload.length)
+      payload.copy(packet, this._packetRW.write.allocStart)
+      this._authsQueue.push('publickey')
+      sendPacket(this, this._packetRW.write.finalize(packet))
+    }
+
+    if (typeof sign !== 'function') {
+      send(request(false))
+      return
+    }
+    // Signed here rather than through ssh2's callback, which treats a failure
+    // as the whole login failing
+    const payload = request(true)
+    const signature = key.sign(Buffer.concat([sshString(this._kex.sessionID), payload]))
+    if (signature instanceof Error) {
+      skip(`Couldn't sign with the key: ${signature.message}`)
+      return
+    }
+    const converted = convertSignature(signature, algorithms.keyType)
+    if (converted === false) {
+      skip(`Couldn't encode a ${algorithms.keyType} signature`)
+      return
+    }
+    send(Buffer.concat([payload, sshString(Buffer.concat([sshString(algorithms.signature), sshString(converted)]))]))
+  }
+}
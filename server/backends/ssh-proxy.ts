@@ -0,0 +1,125 @@
+import { spawn } from 'child_process'
+import { Duplex } from 'stream'
+import type { ConnectConfig } from 'ssh2'
+import type { SSHHost } from '../../lib/ssh-parser'
+import { buildConnectConfig, certificateFiles, identityFiles } from './ssh-auth'
+import { KnownHostsPolicy, knownHostsPolicy } from './known-hosts'
+import { log } from '../log'
+
+const MAX_HOPS = 10 // A ProxyJump chain this long is a loop
+
+// One SSH server on the way to a host. Every hop but the first is reached
+// through a direct-tcpip channel on the one before it.
+export interface Hop {
+  label: string // user@host[:port], for prompts and logs
+  config: ConnectConfig
+  identityFiles: string[] // Tried after the agent, in order
+  certificateFiles: string[]
+  knownHosts: KnownHostsPolicy
+  proxyCommand?: string // Only on the first hop: run it and talk SSH over its stdio
+}
+
+interface JumpSpec {
+  user?: string
+  host: string
+  port?: string
+}
+
+// "[user@]host[:port]", optionally as an ssh:// URI
+function parseJump(spec: string): JumpSpec {
+  const match = spec.trim().replace(/^ssh:\/\//, '').match(/^(?:([^@]+)@)?(\[[^\]]+\]|[^:]+)(?::(\d+))?$/)
+  if (!match) throw new Error(`Invalid ProxyJump "${spec}"`)
+  return { user: match[1], host: match[2].replace(/^\[|\]$/g, ''), port: match[3] }
+}
+
+function hopLabel(config: ConnectConfig): string {
+  return `${config.username}@${config.host}${config.port !== 22 ? `:${config.port}` : ''}`
+}
+
+// %h, %p, %r and %n in a ProxyCommand, as OpenSSH expands them
+function expandProxyCommand(command: string, host: SSHHost, config: ConnectConfig): string {
+  return command.replace(/%([hprn%])/g, (_, token: string) => {
+    switch (token) {
+      case 'h': return String(config.host)
+      case 'p': return String(config.port)
+      case 'r': return String(config.username)
+      case 'n': return host.name
+      default: return '%'
+    }
+  })
+}
+
+// The hops to connect through to reach `host`, ending with the host itself.
+// Jump hosts get their settings from the SSH config like any other host, including
+// their own ProxyJump when they are the first jump.
+export function resolveHops(host: SSHHost, lookup: (name: string) => SSHHost, depth = 0): Hop[] {
+  if (depth > MAX_HOPS) {
+    throw new Error(`ProxyJump chain for ${host.name} is too long - is there a loop?`)
+  }
+  const config = buildConnectConfig(host)
+  const hop: Hop = {
+    label: hopLabel(config),
+    config,
+    identityFiles: identityFiles(host),
+    certificateFiles: certificateFiles(host),
+    knownHosts: knownHostsPolicy(host, String(config.host), config.port),
+  }
+
+  const proxyJump = host.proxyJump && host.proxyJump.toLowerCase() !== 'none' ? host.proxyJump : null
+  if (proxyJump) {
+    // a,b,c: c is reached through b, which is reached through a
+    const jumps = proxyJump.split(',')
+    const last = parseJump(jumps.pop())
+    const known = lookup(last.host)
+    const jumpHost: SSHHost = {
+      ...known,
+      user: last.user || known.user,
+      port: last.port || known.port,
+      proxyJump: jumps.length > 0 ? jumps.join(',') : known.proxyJump,
+      proxyCommand: jumps.length > 0 ? undefined : known.proxyCommand,
+    }
+    return [...resolveHops(jumpHost, lookup, depth + 1), hop]
+  }
+
+  if (host.proxyCommand && host.proxyCommand.toLowerCase() !== 'none') {
+    hop.proxyCommand = expandProxyCommand(host.proxyCommand, host, config)
+  }
+  return [hop]
+}
+
+// Run a ProxyCommand and treat its stdin/stdout as the connection to the SSH server
+export function spawnProxyCommand(command: string): Duplex {
+  log.debug(`Running ProxyCommand: ${command}`)
+  const child = spawn(command, { shell: true, stdio: ['pipe', 'pipe', 'pipe'] })
+
+  const stream = new Duplex({
+    read() {
+      child.stdout.resume()
+    },
+    write(chunk, encoding, callback) {
+      child.stdin.write(chunk, callback)
+    },
+    final(callback) {
+      child.stdin.end()
+      callback()
+    },
+    destroy(err, callback) {
+      child.kill()
+      callback(err)
+    },
+  })
+
+  child.stdout.on('data', (data: Buffer) => {
+    if (!stream.push(data)) child.stdout.pause()
+  })
+  child.stdout.on('end', () => stream.push(null))
+  child.stdin.on('error', () => {
+    // The command exited; its exit status says why
+  })
+  child.stderr.on('data', (data: Buffer) => log.debug(`ProxyCommand: ${data.toString().trim()}`))
+  child.on('error', (err) => stream.destroy(err))
+  child.on('exit', (code) => {
+    if (code) stream.destroy(new Error(`ProxyCommand exited with status ${code}`))
+  })
+  return stream
+}
@@ -0,0 +1,547 @@
+import type { Duplex } from 'stream'
+import { Client } from 'ssh2'
+import type { ClientChannel } from 'ssh2'
+import { sshHostNames, resolveSSHHost } from '../../lib/ssh-parser'
+import type { ExecRunMessage } from '../../lib/connection-protocol'
+import type { Backend, ExecChannel, HostConnection, TerminalChannel } from '../connection'
+import { SftpFileSystem } from '../fs/sftp'
+import { AuthPipeline, AuthPrompter, isAuthError } from './ssh-auth'
+import { Hop, resolveHops, spawnProxyCommand } from './ssh-proxy'
+import { KnownHostsPolicy, addKnownHost, checkHostKey } from './known-hosts'
+import { log } from '../log'
+
+const HANDSHAKE_TIMEOUT = 20000 // Until the host key is verified; logging in may wait on the user
+const RUN_TIMEOUT = 10000
+const RECONNECT_DELAY = 1000 // Before the first attempt after a drop, doubled after each failure
+const RECONNECT_MAX_DELAY = 60000
+const LATENCY_TIMEOUT = 10000
+
+// Connecting failed on the way to the server rather than being refused by it,
+// so trying again later may work
+class UnreachableError extends Error {}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`
+}
+
+// The SSH server runs exec commands through the user's login shell and usually
+// refuses environment variables, so cwd and env go into the command itself
+function remoteCommand({ command, cwd, env }: ExecRunMessage): string {
+  const steps: string[] = []
+  if (cwd) {
+    // A quoted ~ isn't expanded, so a leading one becomes $HOME
+    const dir = /^~(?=$|\/)/.test(cwd) ? `"$HOME"${shellQuote(cwd.slice(1))}` : shellQuote(cwd)
+    steps.push(`cd ${dir} || exit 1`)
+  }
+  for (const [name, value] of Object.entries(env || {})) {
+    steps.push(`export ${name}=${shellQuote(value)}`)
+  }
+  steps.push(command)
+  return steps.join('\n')
+}
+
+// A direct-tcpip channel from an SSH server to host:port
+function forwardOut(client: Client, host: string, port: number): Promise<Duplex> {
+  return new Promise((resolve, reject) => {
+    client.forwardOut('127.0.0.1', 0, host, port, (err, stream) => {
+      if (err) {
+        reject(err)
+      } else {
+        resolve(stream)
+      }
+    })
+  })
+}
+
+function saveHostKey(policy: KnownHostsPolicy, key: Buffer) {
+  try {
+    addKnownHost(policy, key)
+  } catch (err) {
+    log.warn(`Could not save the host key for ${policy.name}:`, err.message)
+  }
+}
+
+// Connect to an SSH host from the config once, through its jump hosts if it has
+// any; terminals are shell channels on that client and file operations share a
+// single SFTP channel. With `passwordLogin` the host itself (not its jump hosts)
+// is only logged in to with a typed password, as for installing a key.
+export function createSSHBackend(connection: HostConnection, hostName: string, passwordLogin = false): Backend | null {
+  if (!sshHostNames().includes(hostName)) {
+    connection.fail(`Host "${hostName}" not found in SSH config`)
+    return null
+  }
+
+  let hops: Hop[]
+  try {
+    hops = resolveHops(resolveSSHHost(hostName), resolveSSHHost)
+  } catch (err) {
+    connection.fail(err.message)
+    return null
+  }
+
+  const prompter = new AuthPrompter(connection)
+  const clients: Client[] = [] // Every client opened, jump hosts included, so end() can close them
+  let conn: Client = null // The client for the host itself, once logged in
+  let fileSystem: Promise<SftpFileSystem> | null = null
+  // Shells and commands requested before the client is authenticated
+  let pending: (() => void)[] = []
+  // Handlers for connections to remote forwards, by the port bound on the server
+  const remoteListeners = new Map<number, (stream: Duplex) => void>()
+  // Host keys accepted by the user for this connection, so retries don't ask again
+  const acceptedKeys = new Set<string>()
+  // Passphrases for encrypted keys, by file, for the same reason
+  const passphrases = new Map<string, string>()
+  // Passwords that logged in, by server, so reconnecting after a drop doesn't ask
+  const passwords = new Map<string, string>()
+  let reconnectAttempt = 0 // Since the connection dropped; 0 while it's up
+  let reconnectTimer: NodeJS.Timeout | null = null
+  let reconnectError = '' // Why the last attempt failed
+
+  // Channels close along with a dropped connection, just before the client
+  // reports it, so wait a moment before telling which happened
+  const afterClose = (client: Client, onClose: (dropped: boolean) => void) => {
+    setImmediate(() => onClose(conn !== client && !connection.disposed))
+  }
+
+  // A new shell, in the directory of the one before it after a reconnect
+  const openShellChannel = (terminal: TerminalChannel, callback: (err: Error | undefined, stream: ClientChannel) => void) => {
+    const pty = { term: 'xterm-256color', cols: terminal.cols, rows: terminal.rows }
+    if (terminal.cwd) {
+      conn.exec(`cd ${shellQuote(terminal.cwd)} 2>/dev/null; exec "$SHELL" -l`, { pty }, callback)
+    } else {
+      conn.shell(pty, callback)
+    }
+  }
+
+  const startShell = (terminal: TerminalChannel) => {
+    const client = conn
+    openShellChannel(terminal, (err, stream) => {
+      if (err) {
+        terminal.emit(`\r\nError: ${err.message}\r\n`)
+        terminal.exit()
+        return
+      }
+      if (!terminal.isOpen) {
+        // Tab was closed while the channel was opening
+        stream.close()
+        return
+      }
+
+      terminal.write = (data) => stream.write(data)
+      terminal.resize = (cols, rows) => stream.setWindow(rows, cols, 0, 0)
+      terminal.kill = () => stream.close()
+      if (terminal.started) {
+        terminal.emit(`\x1b[33m[Reconnected - new shell${terminal.cwd ? ` in ${terminal.cwd}` : ''}]\x1b[0m\r\n`)
+      }
+
+      // The exit status arrives just before the channel closes, if the server sends one
+      let exitCode: number | null = null
+      let exitSignal: string | null = null
+      stream.on('exit', (code: number | null, signal?: string) => {
+        exitCode = code
+        exitSignal = signal ? `SIG${signal}` : null
+      })
+      stream.on('data', (data: Buffer) => terminal.emit(data))
+      stream.on('close', () => afterClose(client, (dropped) => {
+        if (!dropped) {
+          terminal.exit(exitCode, exitSignal)
+          return
+        }
+        // The tab stays; its shell is started again once the connection is back
+        terminal.write = () => {}
+        terminal.resize = () => {}
+        terminal.kill = () => {}
+        terminal.emit('\r\n\x1b[33m[Connection lost - reconnecting...]\x1b[0m\r\n')
+        whenReady(() => {
+          if (terminal.isOpen) startShell(terminal)
+        })
+      }))
+      terminal.ready()
+    })
+  }
+
+  const startExec = (exec: ExecChannel, message: ExecRunMessage) => {
+    const client = conn
+    conn.exec(remoteCommand(message), (err, stream) => {
+      if (err) {
+        exec.exit(null, null, err.message)
+        return
+      }
+      if (!exec.isOpen) {
+        // Cancelled while the channel was opening
+        stream.close()
+        return
+      }
+
+      exec.kill = () => {
+        stream.signal('TERM')
+        stream.close()
+      }
+
+      let exitCode: number | null = null
+      let exitSignal: string | null = null
+      stream.on('exit', (code: number | null, signal?: string) => {
+        exitCode = code
+        exitSignal = signal ? `SIG${signal}` : null
+      })
+      stream.on('data', (data: Buffer) => exec.stdout(data))
+      stream.stderr.on('data', (data: Buffer) => exec.stderr(data))
+      // Commands on a dropped connection are ended by connection.lost()
+      stream.on('close', () => afterClose(client, (dropped) => {
+        if (!dropped) exec.exit(exitCode, exitSignal)
+      }))
+    })
+  }
+
+  const whenReady = (start: () => void) => {
+    if (connection.ready) {
+      start()
+    } else {
+      pending.push(start)
+    }
+  }
+
+  // Once a client is authenticated, open every channel that was waiting for it
+  const onReady = () => {
+    connection.setReady()
+    const waiting = pending
+    pending = []
+    waiting.forEach(start => start())
+  }
+
+  // Connect and log in to one hop. Accepting a new host key connects again, so
+  // openSock is called per attempt for a fresh socket.
+  const connectHop = (hop: Hop, openSock: () => Promise<Duplex | undefined>, labelPrompts: boolean) => {
+    return new Promise<Client>((resolve, reject) => {
+      let current: Client | null = null
+
+      const attempt = async () => {
+        let sock: Duplex | undefined
+        try {
+          sock = await openSock()
+        } catch (err) {
+          reject(new UnreachableError(`Could not reach ${hop.label}: ${err.message}`))
+          return
+        }
+        if (connection.disposed) {
+          sock?.destroy()
+          return
+        }
+
+        const client = new Client()
+        current = client
+        clients.push(client)
+        const auth = new AuthPipeline(connection, prompter, hop.label, hop.config.username, hop.identityFiles, hop.certificateFiles, passphrases, passwords, labelPrompts)
+        if (passwordLogin && hop === hops[hops.length - 1]) auth.passwordOnly()
+        let hostKeyError: string | null = null // Why the server's host key was refused
+        let confirmingHostKey = false // The user's answer decides what happens next
+
+        // Check the server's key against known_hosts. An unknown key is refused
+        // while the user decides; accepting it connects again.
+        const verifyHostKey = (key: Buffer): boolean => {
+          const policy = hop.knownHosts
+          const id = `${policy.name} ${key.toString('base64')}`
+          if (acceptedKeys.has(id)) return true
+
+          const check = checkHostKey(policy, key)
+          if (check.status === 'known') return true
+          // Refused even with StrictHostKeyChecking no - a swapped key is what a MITM looks like
+          if (check.status === 'changed' || check.status === 'revoked') {
+            hostKeyError = check.status === 'revoked'
+              ? `The host key for ${policy.name} has been revoked`
+              : `The host key for ${policy.name} has changed - it could be an attack`
+            connection.sendJson({
+              type: 'auth:hostkey-changed',
+              host: policy.name,
+              keyType: check.keyType,
+              fingerprint: check.fingerprint,
+              revoked: check.status === 'revoked',
+              file: check.file,
+              line: check.line,
+            })
+            return false
+          }
+
+          if (policy.strict === 'yes') {
+            hostKeyError = `No host key is known for ${policy.name} and StrictHostKeyChecking is on`
+            return false
+          }
+          if (policy.strict !== 'ask') {
+            saveHostKey(policy, key)
+            return true
+          }
+          confirmingHostKey = true
+          prompter.confirmHostKey({
+            type: 'auth:hostkey-unknown',
+            host: policy.name,
+            keyType: check.keyType,
+            fingerprint: check.fingerprint,
+            knownTypes: check.knownTypes,
+          }, (decision) => {
+            if (decision === 'reject') {
+              current = null
+              reject(new Error(`Host key for ${policy.name} was not accepted`))
+              return
+            }
+            if (decision === 'accept-save') saveHostKey(policy, key)
+            acceptedKeys.add(id)
+            attempt()
+          })
+          return false
+        }
+
+        const handshakeTimer = setTimeout(() => {
+          if (current !== client) return
+          current = null
+          reject(new UnreachableError(`Timed out connecting to ${hop.label}`))
+          client.destroy()
+        }, HANDSHAKE_TIMEOUT)
+        client.on('handshake', () => clearTimeout(handshakeTimer))
+        client.on('close', () => {
+          clearTimeout(handshakeTimer)
+          if (current !== client || confirmingHostKey) return
+          // Closed before logging in, with no error to say why
+          current = null
+          prompter.cancel()
+          reject(new UnreachableError(`Connection to ${hop.label} closed`))
+        })
+
+        client.on('ready', () => {
+          current = null // Errors from here on are the connection dropping
+          log.info(`SSH connected to ${hop.label}`)
+          auth.succeeded()
+          connection.sendJson({ type: 'auth:ok' })
+          resolve(client)
+        })
+
+        client.on('error', (err) => {
+          log.warn(`SSH error for ${hop.label}:`, err.message)
+          if (current !== client || confirmingHostKey || connection.ready) return
+          current = null
+          // A question still open for this client can't be answered any more
+          prompter.cancel()
+
+          if (hostKeyError) {
+            reject(new Error(hostKeyError))
+          } else if (isAuthError(err)) {
+            reject(new Error(`Authentication failed for ${hop.label}`))
+          } else {
+            reject(new UnreachableError(`SSH Error: ${err.message}`))
+          }
+        })
+
+        log.info(`Connecting to ${hop.label}${sock ? ' (proxied)' : ''}`)
+        client.connect({ ...hop.config, sock, hostVerifier: verifyHostKey, authHandler: auth.handler })
+      }
+
+      attempt()
+    })
+  }
+
+  // Log in to each hop in turn, reaching the next one through a channel on the last
+  const connectChain = async (): Promise<Client> => {
+    let previous: Client | null = null
+    for (let i = 0; i < hops.length; i++) {
+      const hop = hops[i]
+      const via = previous
+      const openSock = async (): Promise<Duplex | undefined> => {
+        if (via) return forwardOut(via, String(hop.config.host), hop.config.port)
+        if (hop.proxyCommand) return spawnProxyCommand(hop.proxyCommand)
+        return undefined
+      }
+      previous = await connectHop(hop, openSock, hops.length > 1)
+    }
+    return previous
+  }
+
+  const connect = async () => {
+    let client: Client
+    try {
+      client = await connectChain()
+    } catch (err) {
+      if (connection.disposed) return
+      // A host that was up is tried again until it's back, but not one that
+      // refuses the login or its host key
+      if (reconnectAttempt > 0 && err instanceof UnreachableError) {
+        scheduleReconnect(err.message)
+      } else {
+        connection.fail(err.message)
+      }
+      return
+    }
+    if (connection.disposed) {
+      client.end()
+      return
+    }
+    conn = client
+    const reconnected = reconnectAttempt > 0
+    reconnectAttempt = 0
+
+    // The whole connection dropped (or a jump host on the way)
+    client.on('end', () => connectionLost(client))
+    client.on('close', () => connectionLost(client))
+
+    // Someone connected to a port we asked the server to listen on
+    client.on('tcp connection', (info, accept, reject) => {
+      const onConnection = remoteListeners.get(info.destPort)
+      if (onConnection) {
+        onConnection(accept())
+      } else {
+        reject()
+      }
+    })
+
+    onReady()
+    if (reconnected) {
+      log.info(`Reconnected to ${hostName}`)
+      connection.forwards.reconnected()
+    }
+  }
+
+  // Shells on the lost connection are started again once it is back, in
+  // their last directory; SFTP opens again on the next file request
+  const connectionLost = (client: Client) => {
+    if (conn !== client || connection.disposed) return
+    conn = null
+    fileSystem = null
+    remoteListeners.clear()
+    clients.splice(0).forEach(hopClient => hopClient.end())
+    log.warn(`Connection to ${hostName} lost, reconnecting`)
+    connection.lost()
+    scheduleReconnect(`Connection to ${hostName} lost`)
+  }
+
+  const scheduleReconnect = (error: string) => {
+    reconnectAttempt++
+    const delay = Math.min(RECONNECT_DELAY * 2 ** (reconnectAttempt - 1), RECONNECT_MAX_DELAY)
+    reconnectError = error
+    connection.reconnect(reconnectAttempt, delay, error)
+    reconnectTimer = setTimeout(reconnect, delay)
+  }
+
+  const reconnect = () => {
+    clearTimeout(reconnectTimer)
+    reconnectTimer = null
+    log.info(`Reconnecting to ${hostName} (attempt ${reconnectAttempt})`)
+    connection.reconnect(reconnectAttempt, 0, reconnectError)
+    connect()
+  }
+
+  const backend: Backend = {
+    openShell(terminal) {
+      whenReady(() => {
+        if (terminal.isOpen) startShell(terminal)
+      })
+    },
+    exec(exec, message) {
+      whenReady(() => {
+        if (exec.isOpen) startExec(exec, message)
+      })
+    },
+    run(command) {
+      if (!connection.ready) return Promise.reject(new Error('Not connected'))
+      return new Promise((resolve, reject) => {
+        conn.exec(command, (err, stream) => {
+          if (err) {
+            reject(err)
+            return
+          }
+          const chunks: Buffer[] = []
+          const timer = setTimeout(() => stream.close(), RUN_TIMEOUT)
+          stream.on('data', (data: Buffer) => chunks.push(data))
+          stream.stderr.resume()
+          stream.on('close', () => {
+            clearTimeout(timer)
+            resolve(Buffer.concat(chunks).toString())
+          })
+        })
+      })
+    },
+    // A direct-tcpip channel, as with ssh -L
+    openTunnel(port, host = '127.0.0.1') {
+      return forwardOut(conn, host, port)
+    },
+    // A tcpip-forward request, as with ssh -R
+    listen(address, port, onConnection) {
+      const client = conn
+      return new Promise((resolve, reject) => {
+        client.forwardIn(address, port, (err, boundPort) => {
+          if (err) {
+            reject(new Error(`The server refused to listen on port ${port}: ${err.message}`))
+            return
+          }
+          const bound = boundPort || port
+          remoteListeners.set(bound, onConnection)
+          resolve(() => {
+            remoteListeners.delete(bound)
+            if (conn === client) client.unforwardIn(address, bound)
+          })
+        })
+      })
+    },
+    // Open the SFTP channel on first use and share it between all requests
+    fileSystem() {
+      if (!connection.ready) return Promise.reject(new Error(`Not connected to ${hostName}`))
+      if (!fileSystem) {
+        const opening = new Promise<SftpFileSystem>((resolve, reject) => {
+          conn.sftp((err, sftp) => {
+            if (err) {
+              reject(new Error(`SFTP error: ${err.message}`))
+              return
+            }
+            sftp.on('close', () => {
+              if (fileSystem === opening) fileSystem = null
+            })
+            resolve(new SftpFileSystem(sftp))
+          })
+        })
+        // A failed open is retried by the next request
+        opening.catch(() => {
+          if (fileSystem === opening) fileSystem = null
+        })
+        fileSystem = opening
+      }
+      return fileSystem
+    },
+    handleAuth(message) {
+      prompter.answer(message)
+    },
+    attached() {
+      prompter.repeat()
+    },
+    retry() {
+      if (reconnectTimer) reconnect()
+    },
+    // Cancelling a forward that was never asked for costs the server nothing
+    // and still gets a reply (a refusal), which makes it a ping
+    latency() {
+      return new Promise<number>((resolve, reject) => {
+        if (!connection.ready) {
+          reject(new Error(`Not connected to ${hostName}`))
+          return
+        }
+        const started = performance.now()
+        const timer = setTimeout(() => reject(new Error('No reply')), LATENCY_TIMEOUT)
+        try {
+          conn.unforwardIn('codebook-latency-check', 0, () => {
+            clearTimeout(timer)
+            resolve(performance.now() - started)
+          })
+        } catch (err) {
+          clearTimeout(timer)
+          reject(err)
+        }
+      })
+    },
+    end() {
+      clearTimeout(reconnectTimer)
+      prompter.cancel()
+      pending = []
+      clients.forEach(client => client.end())
+    },
+  }
+
+  connection.backend = backend
+  connect()
+  return backend
+}
@@ -0,0 +1,245 @@
+import os from 'os'
+import fs from 'fs'
+import path from 'path'
+import { parseArgs } from 'util'
+
+// Server settings. Each value comes from, in increasing priority: the defaults
+// below, a JSON config file, environment variables and command line flags.
+//
+// The config file is the one given with --config, else ./codebook.config.json,
+// else ~/.config/codebook/config.json.
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const
+export type LogLevel = typeof LOG_LEVELS[number]
+
+export interface ServerConfig {
+  host: string // Bind address
+  port: number
+  previewPort: number | null // Web previews get their own origin; null for the port after `port`, 0 to turn them off
+  previewUrl: string | null // Where browsers reach the preview port, if not <this host>:<previewPort>, e.g. behind a proxy
+  shell: string | null // Shell for local terminals; null uses $SHELL
+  shellArgs: string[]
+  maxFileSize: number // Largest file that can be opened or saved, in bytes; 0 for no limit
+  maxChunkSize: number // Largest file chunk a client may request, in bytes
+  scrollback: number // Terminal output kept for replay after a reconnect, in bytes per terminal
+  sessionIdleTimeout: number // Seconds a detached session is kept alive
+  sshKeepaliveInterval: number // Seconds between SSH keepalives; 0 disables them
+  sshKeepaliveCountMax: number // Unanswered keepalives before an SSH connection is dropped
+  portScanInterval: number // Seconds between checks for new listening ports on a host; 0 disables them
+  tls: 'off' | 'self-signed'
+  tlsCert: string | null // PEM files for HTTPS; take precedence over tls
+  tlsKey: string | null
+  logLevel: LogLevel
+}
+
+const DEFAULTS: ServerConfig = {
+  host: '0.0.0.0', // Reachable over the LAN, guarded by the login gate
+  port: 3000,
+  previewPort: null,
+  previewUrl: null,
+  shell: null,
+  shellArgs: [],
+  maxFileSize: 0,
+  maxChunkSize: 1024 * 1024,
+  scrollback: 512 * 1024,
+  sessionIdleTimeout: 30 * 60,
+  sshKeepaliveInterval: 30,
+  sshKeepaliveCountMax: 3,
+  portScanInterval: 5,
+  tls: 'off',
+  tlsCert: null,
+  tlsKey: null,
+  logLevel: 'info',
+}
+
+const CONFIG_FILES = [
+  path.resolve('codebook.config.json'),
+  path.join(os.homedir(), '.config', 'codebook', 'config.json'),
+]
+
+class ConfigError extends Error {}
+
+type Parser<T> = (value: unknown, where: string) => T
+
+function fail(where: string, expected: string, value: unknown): never {
+  throw new ConfigError(`${where} must be ${expected}, got ${JSON.stringify(value)}`)
+}
+
+const text: Parser<string> = (value, where) => {
+  if (typeof value !== 'string' || value.trim() === '') fail(where, 'a non-empty string', value)
+  return value.trim()
+}
+
+const integer = (min: number, max: number): Parser<number> => (value, where) => {
+  const number = typeof value === 'string' && /^\d+$/.test(value.trim()) ? Number(value) : value
+  if (typeof number !== 'number' || !Number.isInteger(number) || number < min || number > max) {
+    fail(where, `a whole number from ${min} to ${max}`, value)
+  }
+  return number as number
+}
+
+const SIZE_UNITS: Record<string, number> = { b: 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3 }
+
+// Bytes, as a number or a string like "512KB" or "5MB"
+const size: Parser<number> = (value, where) => {
+  if (typeof value === 'number' && Number.isInteger(value) && value >= 0) return value
+  const match = typeof value === 'string' && value.trim().match(/^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?$/i)
+  if (!match) fail(where, 'a size in bytes or like "512KB" or "5MB"', value)
+  return Math.round(parseFloat(match[1]) * SIZE_UNITS[(match[2] || 'b').toLowerCase()])
+}
+
+const oneOf = <T extends string>(choices: readonly T[]): Parser<T> => (value, where) => {
+  if (!choices.includes(value as T)) fail(where, `one of ${choices.map(c => `"${c}"`).join(', ')}`, value)
+  return value as T
+}
+
+// A list of strings, or one string split on whitespace
+const words: Parser<string[]> = (value, where) => {
+  if (typeof value === 'string') return value.split(/\s+/).filter(Boolean)
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    fail(where, 'a list of strings', value)
+  }
+  return value
+}
+
+const url: Parser<string> = (value, where) => {
+  const trimmed = text(value, where).replace(/\/+$/, '')
+  if (!/^https?:\/\/[^/]+$/.test(trimmed)) fail(where, 'a URL like "https://preview.example.com" with no path', value)
+  return trimmed
+}
+
+const existingFile: Parser<string> = (value, where) => {
+  const file = text(value, where).replace(/^~(?=$|\/)/, os.homedir())
+  if (!fs.existsSync(file)) throw new ConfigError(`${where}: file not found: ${file}`)
+  return path.resolve(file)
+}
+
+interface Setting {
+  parse: Parser<unknown>
+  env?: string
+  flag?: string
+  description?: string // Shown by --help for settings with a flag
+}
+
+const SETTINGS: Record<keyof ServerConfig, Setting> = {
+  host: { parse: text, env: 'HOST', flag: 'host', description: 'Address to listen on' },
+  port: { parse: integer(1, 65535), env: 'PORT', flag: 'port', description: 'Port for the web UI and WebSocket' },
+  previewPort: { parse: integer(0, 65535), flag: 'preview-port', description: 'Port for web previews (default: the next port; 0: off)' },
+  previewUrl: { parse: url, flag: 'preview-url', description: 'Public URL of the preview port, e.g. behind a reverse proxy' },
+  shell: { parse: text, flag: 'shell', description: 'Shell for local terminals (default: $SHELL)' },
+  shellArgs: { parse: words, flag: 'shell-args', description: 'Arguments for the shell, e.g. --shell-args="-l"' },
+  maxFileSize: { parse: size, flag: 'max-file-size', description: 'Largest file the editor opens or saves, e.g. "50MB" (0: no limit)' },
+  maxChunkSize: { parse: size },
+  scrollback: { parse: size, flag: 'scrollback', description: 'Terminal output kept for reconnects, e.g. "512KB"' },
+  sessionIdleTimeout: { parse: integer(1, 365 * 24 * 60 * 60), env: 'CODEBOOK_SESSION_IDLE_TIMEOUT', flag: 'idle-timeout', description: 'Seconds to keep detached sessions' },
+  sshKeepaliveInterval: { parse: integer(0, 3600) },
+  sshKeepaliveCountMax: { parse: integer(1, 100) },
+  portScanInterval: { parse: integer(0, 3600), flag: 'port-scan-interval', description: 'Seconds between checks for new listening ports (0: off)' },
+  tls: { parse: oneOf(['off', 'self-signed'] as const), env: 'CODEBOOK_TLS', flag: 'tls', description: '"self-signed" to serve HTTPS with a generated certificate' },
+  tlsCert: { parse: existingFile, env: 'CODEBOOK_TLS_CERT', flag: 'tls-cert', description: 'PEM certificate to serve HTTPS with' },
+  tlsKey: { parse: existingFile, env: 'CODEBOOK_TLS_KEY', flag: 'tls-key', description: 'PEM private key for --tls-cert' },
+  logLevel: { parse: oneOf(LOG_LEVELS), env: 'CODEBOOK_LOG_LEVEL', flag: 'log-level', description: LOG_LEVELS.join(', ') },
+}
+
+const KEYS = Object.keys(SETTINGS) as (keyof ServerConfig)[]
+
+function usage(): string {
+  const lines = [
+    'Usage: npm run start -- [options]',
+    '',
+    'Options:',
+    '  --config <file>'.padEnd(28) + 'Config file (default: ./codebook.config.json or ~/.config/codebook/config.json)',
+  ]
+  for (const key of KEYS) {
+    const { flag, description } = SETTINGS[key]
+    if (flag) lines.push(`  --${flag} <value>`.padEnd(28) + description)
+  }
+  lines.push('  --help'.padEnd(28) + 'Show this help')
+  return lines.join('\n')
+}
+
+function readConfigFile(file: string): Record<string, unknown> {
+  let contents: unknown
+  try {
+    contents = JSON.parse(fs.readFileSync(file, 'utf-8'))
+  } catch (err) {
+    throw new ConfigError(`Could not read ${file}: ${err.message}`)
+  }
+  if (!contents || typeof contents !== 'object' || Array.isArray(contents)) {
+    throw new ConfigError(`${file} must contain a JSON object`)
+  }
+  for (const key of Object.keys(contents)) {
+    if (!KEYS.includes(key as keyof ServerConfig)) {
+      throw new ConfigError(`Unknown setting "${key}" in ${file}. Valid settings: ${KEYS.join(', ')}`)
+    }
+  }
+  return contents as Record<string, unknown>
+}
+
+function loadConfig(): ServerConfig {
+  const options: Record<string, { type: 'string' | 'boolean' }> = { config: { type: 'string' }, help: { type: 'boolean' } }
+  for (const key of KEYS) {
+    if (SETTINGS[key].flag) options[SETTINGS[key].flag] = { type: 'string' }
+  }
+  let flags: Record<string, string | boolean>
+  try {
+    flags = parseArgs({ args: process.argv.slice(2), options, strict: true }).values as Record<string, string | boolean>
+  } catch (err) {
+    throw new ConfigError(`${err.message}\n\n${usage()}`)
+  }
+  if (flags.help) {
+    console.log(usage())
+    process.exit(0)
+  }
+
+  let file: string | null = null
+  if (typeof flags.config === 'string') {
+    file = path.resolve(flags.config)
+    if (!fs.existsSync(file)) throw new ConfigError(`Config file not found: ${file}`)
+  } else {
+    file = CONFIG_FILES.find(candidate => fs.existsSync(candidate)) || null
+  }
+  const fromFile = file ? readConfigFile(file) : {}
+
+  const config = { ...DEFAULTS }
+  for (const key of KEYS) {
+    const { parse, env, flag } = SETTINGS[key]
+    let value: unknown
+    if (flag && typeof flags[flag] === 'string') {
+      value = parse(flags[flag], `--${flag}`)
+    } else if (env && process.env[env]) {
+      value = parse(process.env[env], `${env} (environment)`)
+    } else if (key in fromFile) {
+      value = parse(fromFile[key], `"${key}" in ${file}`)
+    } else {
+      continue
+    }
+    (config as Record<string, unknown>)[key] = value
+  }
+
+  if (!config.tlsCert !== !config.tlsKey) {
+    throw new ConfigError('tlsCert and tlsKey must be set together')
+  }
+  if (config.previewPort === null) {
+    config.previewPort = config.port === 65535 ? 0 : config.port + 1
+  }
+  if (config.previewPort !== 0 && config.previewPort === config.port) {
+    throw new ConfigError('previewPort must differ from port')
+  }
+  if (config.maxChunkSize === 0) {
+    throw new ConfigError('maxChunkSize must be greater than 0')
+  }
+  return config
+}
+
+function loadConfigOrExit(): ServerConfig {
+  try {
+    return loadConfig()
+  } catch (err) {
+    if (!(err instanceof ConfigError)) throw err
+    console.error(`Configuration error: ${err.message}`)
+    process.exit(1)
+  }
+}
+
+export const config = loadConfigOrExit()
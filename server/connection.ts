@@ -0,0 +1,502 @@
+import type WebSocket from 'ws'
+import type { Duplex } from 'stream'
+import { FRAME_EXEC_STDERR, FRAME_EXEC_STDOUT, FRAME_FILE, FRAME_TERMINAL, encodeFrame } from '../lib/frame-protocol'
+import type { FileRequest } from '../lib/file-protocol'
+import type { AuthHostKeyMessage, AuthPasswordMessage, ConnectionReconnectingMessage, ExecRunMessage, ServerMessage } from '../lib/connection-protocol'
+import { FileSystemDriver, fileErrorResponse, handleFileRequest } from './fs/driver'
+import { installPublicKey } from './keys'
+import { PortWatcher } from './ports'
+import { ForwardManager } from './forwards'
+import { config } from './config'
+import { log } from './log'
+
+// What a host connection runs on - the local machine or one SSH client
+export interface Backend {
+  // Start a shell for a new terminal; it reports through terminal.emit/exit
+  openShell(terminal: TerminalChannel, cols: number, rows: number): void
+  // Run a command without a terminal; it reports through exec.stdout/stderr/exit
+  exec(exec: ExecChannel, command: ExecRunMessage): void
+  // Run a command for the server's own use and collect what it prints
+  run(command: string): Promise<string>
+  // Connect to a TCP port on the host's loopback interface, or on a machine the host can reach
+  openTunnel(port: number, host?: string): Promise<Duplex>
+  // Accept TCP connections on a port of the host, as ssh -R does, until the returned function is called
+  listen(address: string, port: number, onConnection: (stream: Duplex) => void): Promise<() => void>
+  fileSystem(): Promise<FileSystemDriver>
+  handleAuth(message: AuthPasswordMessage | AuthHostKeyMessage): void
+  // A client attached - repeat any question still waiting for an answer
+  attached?(): void
+  // Reconnect now rather than after the backoff, if the connection dropped
+  retry?(): void
+  // Time one round trip to the remote host, in milliseconds
+  latency?(): Promise<number>
+  end(): void
+}
+
+// Bounded buffer of terminal output. Offsets count bytes since the terminal
+// started, so a reconnecting client can ask for everything after the last offset it saw.
+class OutputBuffer {
+  private chunks: Buffer[] = []
+  private size = 0
+  end = 0
+
+  constructor(private limit: number) {}
+
+  get start(): number {
+    return this.end - this.size
+  }
+
+  append(data: Buffer) {
+    this.chunks.push(data)
+    this.size += data.length
+    this.end += data.length
+
+    while (this.size > this.limit && this.chunks.length > 1) {
+      this.size -= this.chunks.shift().length
+    }
+    if (this.size > this.limit) {
+      // A single chunk larger than the whole buffer - keep its tail
+      this.chunks[0] = this.chunks[0].subarray(this.size - this.limit)
+      this.size = this.limit
+    }
+  }
+
+  since(offset: number): Buffer {
+    const from = Math.max(offset, this.start)
+    if (from >= this.end) return Buffer.alloc(0)
+    return Buffer.concat(this.chunks).subarray(from - this.start)
+  }
+}
+
+// OSC 7, which many shells send with each prompt to say where they are:
+// ESC ] 7 ; file://hostname/path, ended by BEL or ESC \
+const OSC7 = /\x1b\]7;file:\/\/[^/\x07\x1b]*(\/[^\x07\x1b]*)(?:\x07|\x1b\\)/g
+
+// The last directory reported in a chunk of terminal output, if any
+function reportedCwd(data: Buffer): string | null {
+  if (!data.includes('\x1b]7;')) return null
+  let cwd: string | null = null
+  for (const match of Array.from(data.toString().matchAll(OSC7))) {
+    try {
+      cwd = decodeURIComponent(match[1])
+    } catch {
+      cwd = match[1]
+    }
+  }
+  return cwd
+}
+
+// Live host connections keyed by the client's session id
+const hostConnections = new Map<string, HostConnection>()
+
+export function findHostConnection(id: string | null, host: string): HostConnection | null {
+  const connection = id ? hostConnections.get(id) : null
+  return connection && connection.host === host ? connection : null
+}
+
+// Any connected session for a host, for requests that don't come from a session's socket
+export function findReadyConnection(host: string): HostConnection | null {
+  let found: HostConnection | null = null
+  hostConnections.forEach(connection => {
+    if (!found && connection.host === host && connection.ready) found = connection
+  })
+  return found
+}
+
+// One terminal channel (PTY or SSH shell) inside a host connection
+export class TerminalChannel {
+  channel: number | null = null // Frame channel assigned by the attached client
+  output = new OutputBuffer(config.scrollback)
+  started = false // The shell is running and takes input
+  cwd: string | null = null // Where the shell last said it was, for starting a new one there
+  cols = 80
+  rows = 24
+
+  // Backend hooks, filled in when the shell is opened
+  write: (data: Buffer) => void = () => {}
+  resize: (cols: number, rows: number) => void = () => {}
+  kill: () => void = () => {}
+
+  constructor(private connection: HostConnection, readonly id: string) {}
+
+  // Record terminal output and forward it to the attached socket
+  emit(data: Buffer | string) {
+    if (typeof data === 'string') {
+      data = Buffer.from(data)
+    }
+    this.output.append(data)
+    this.cwd = reportedCwd(data) || this.cwd
+    if (this.channel !== null) {
+      this.connection.send(encodeFrame(FRAME_TERMINAL, this.channel, data))
+    }
+  }
+
+  get isOpen(): boolean {
+    return this.connection.terminals.get(this.id) === this
+  }
+
+  // The backend has started the shell and set the write/resize/kill hooks
+  ready() {
+    this.started = true
+    if (this.channel !== null) {
+      this.connection.sendJson({ type: 'shell:ready', id: this.id })
+    }
+  }
+
+  // The shell ended on its own - tell the client the tab is finished
+  exit(exitCode: number | null = null, signal: string | null = null) {
+    if (!this.isOpen) return
+    this.remove()
+    this.connection.sendJson({ type: 'shell:exit', id: this.id, exitCode, signal })
+  }
+
+  remove() {
+    this.connection.terminals.delete(this.id)
+    if (this.channel !== null && this.connection.channels.get(this.channel) === this) {
+      this.connection.channels.delete(this.channel)
+    }
+  }
+
+  close() {
+    this.remove()
+    try {
+      this.kill()
+    } catch {
+      // Already gone
+    }
+  }
+}
+
+const ENV_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/
+
+// A command started by exec:run. Its output goes to the socket that started it,
+// so it is stopped if that socket goes away.
+export class ExecChannel {
+  timedOut = false
+  private timer: NodeJS.Timeout | null = null
+
+  // Backend hook, filled in when the command starts
+  kill: () => void = () => {}
+
+  constructor(private connection: HostConnection, readonly channel: number, timeout: number) {
+    if (timeout > 0) {
+      this.timer = setTimeout(() => {
+        this.timedOut = true
+        this.cancel()
+      }, timeout)
+    }
+  }
+
+  get isOpen(): boolean {
+    return this.connection.execs.get(this.channel) === this
+  }
+
+  stdout(data: Buffer) {
+    if (this.isOpen) this.connection.send(encodeFrame(FRAME_EXEC_STDOUT, this.channel, data))
+  }
+
+  stderr(data: Buffer) {
+    if (this.isOpen) this.connection.send(encodeFrame(FRAME_EXEC_STDERR, this.channel, data))
+  }
+
+  // The command ended, or couldn't be started (`error`)
+  exit(exitCode: number | null, signal: string | null, error?: string) {
+    if (!this.isOpen) return
+    this.remove()
+    this.connection.sendJson({ type: 'exec:exit', channel: this.channel, exitCode, signal, timedOut: this.timedOut, error })
+  }
+
+  remove() {
+    clearTimeout(this.timer)
+    if (this.isOpen) {
+      this.connection.execs.delete(this.channel)
+    }
+  }
+
+  // Stop the command; exit follows once it has ended
+  cancel() {
+    try {
+      this.kill()
+    } catch {
+      // Already gone
+    }
+  }
+}
+
+// A backend plus the socket currently attached to it. Every terminal tab and
+// file operation for the host goes through it. Connections with an id outlive
+// their WebSocket until reaped; connections without one end with their socket.
+export class HostConnection {
+  readonly terminals = new Map<string, TerminalChannel>() // Tab id -> terminal
+  readonly channels = new Map<number, TerminalChannel>() // Frame channel -> terminal, per attached socket
+  readonly execs = new Map<number, ExecChannel>() // Frame channel -> running exec:run command, per attached socket
+  private uploads = new Map<number, Buffer>() // Frame channel -> file contents waiting for their file:write:chunk
+  private tunnels = new Set<Duplex>() // Open port forwards, closed with the connection
+  private ports = new PortWatcher(this) // Looks for new listening ports while a client is attached
+  readonly forwards = new ForwardManager(this) // DynamicForward and RemoteForward rules
+  private ws: WebSocket | null = null
+  private idleTimer: NodeJS.Timeout | null = null
+  private reconnecting: ConnectionReconnectingMessage | null = null // Latest attempt, while the backend reconnects
+  private hostLatency: number | null = null // Last round trip to the remote host
+  private measuringLatency = false
+  backend: Backend | null = null
+  disposed = false
+  ready = false
+
+  constructor(readonly id: string | null, readonly host: string) {
+    if (id) {
+      hostConnections.set(id, this)
+    }
+  }
+
+  send(data: Uint8Array | string) {
+    if (this.ws && this.ws.readyState === this.ws.OPEN) {
+      try {
+        this.ws.send(data)
+      } catch {
+        // WebSocket closed
+      }
+    }
+  }
+
+  sendJson(message: ServerMessage) {
+    this.send(JSON.stringify(message))
+  }
+
+  // The backend is connected and can open terminals
+  setReady() {
+    this.ready = true
+    this.reconnecting = null
+    this.sendJson({ type: 'connection:ready' })
+    if (this.ws) {
+      this.ports.start()
+      this.forwards.load()
+      this.forwards.report()
+    }
+  }
+
+  // The backend lost its connection and is getting it back; terminals stay
+  // open, commands running on it are gone
+  lost() {
+    this.ready = false
+    this.hostLatency = null
+    this.ports.stop()
+    this.execs.forEach(exec => exec.exit(null, null, `Connection to ${this.host} lost`))
+  }
+
+  reconnect(attempt: number, delay: number, error: string) {
+    this.reconnecting = { type: 'connection:reconnecting', attempt, delay, error }
+    this.sendJson(this.reconnecting)
+  }
+
+  // Answer a ping with the host's last round trip, then time the next one -
+  // waiting for it would add the host's latency to the client's
+  pong(sent?: number) {
+    this.sendJson({ type: 'pong', sent, hostLatency: this.ready ? this.hostLatency : null })
+    if (!this.ready || this.measuringLatency || !this.backend?.latency) return
+    this.measuringLatency = true
+    this.backend.latency().then((ms) => {
+      this.hostLatency = ms
+    }, (err) => {
+      log.debug(`Latency check for ${this.host} failed:`, err.message)
+      this.hostLatency = null
+    }).then(() => {
+      this.measuringLatency = false
+    })
+  }
+
+  // The backend failed for good - report it and drop the connection
+  fail(message: string) {
+    this.sendJson({ type: 'connection:error', error: message })
+    this.dispose()
+  }
+
+  attach(ws: WebSocket) {
+    if (this.ws && this.ws !== ws) {
+      // Another client took over this connection
+      this.sendJson({ type: 'session:detached' })
+      this.ws.close()
+    }
+
+    clearTimeout(this.idleTimer)
+    this.idleTimer = null
+    this.ws = ws
+
+    // Channel numbers belong to a socket - the new client reopens its terminals
+    this.channels.clear()
+    this.uploads.clear()
+    this.stopExecs()
+    this.terminals.forEach(terminal => {
+      terminal.channel = null
+    })
+
+    if (this.ready) {
+      this.sendJson({ type: 'connection:ready' })
+      this.ports.start()
+      this.forwards.load()
+      this.forwards.report()
+    } else if (this.reconnecting) {
+      this.sendJson(this.reconnecting)
+    }
+    this.backend?.attached?.()
+  }
+
+  detach(ws: WebSocket) {
+    if (this.ws !== ws) return
+    this.ws = null
+    this.stopExecs()
+    this.ports.stop()
+
+    if (!this.id) {
+      this.dispose()
+      return
+    }
+
+    this.idleTimer = setTimeout(() => {
+      log.info(`Reaping idle connection ${this.id} (${this.host})`)
+      this.dispose()
+    }, config.sessionIdleTimeout * 1000)
+  }
+
+  // Open a terminal for a tab on a frame channel, or reattach to it and replay
+  // what was missed since `offset`
+  openTerminal(id: string, channel: number, cols: number, rows: number, offset: number) {
+    const existing = this.terminals.get(id)
+    if (existing) {
+      existing.channel = channel
+      this.channels.set(channel, existing)
+      const from = Math.max(offset, existing.output.start)
+      this.sendJson({ type: 'terminal:opened', id, resumed: true, offset: from })
+      const missed = existing.output.since(from)
+      if (missed.length > 0) {
+        this.send(encodeFrame(FRAME_TERMINAL, channel, missed))
+      }
+      if (existing.started) {
+        this.sendJson({ type: 'shell:ready', id })
+      }
+      return
+    }
+
+    const terminal = new TerminalChannel(this, id)
+    terminal.channel = channel
+    terminal.cols = cols || 80
+    terminal.rows = rows || 24
+    this.terminals.set(id, terminal)
+    this.channels.set(channel, terminal)
+    this.sendJson({ type: 'terminal:opened', id, resumed: false, offset: 0 })
+    this.backend?.openShell(terminal, terminal.cols, terminal.rows)
+  }
+
+  runExec(message: ExecRunMessage) {
+    // A channel carries one command at a time; one still running on it is stopped
+    const running = this.execs.get(message.channel)
+    if (running) {
+      running.remove()
+      running.cancel()
+    }
+
+    const exec = new ExecChannel(this, message.channel, Math.max(0, Number(message.timeout) || 0))
+    this.execs.set(message.channel, exec)
+
+    const badName = Object.keys(message.env || {}).find(name => !ENV_NAME.test(name))
+    if (typeof message.command !== 'string' || !message.command.trim()) {
+      exec.exit(null, null, 'No command given')
+    } else if (badName !== undefined) {
+      exec.exit(null, null, `Invalid environment variable name: ${badName}`)
+    } else {
+      this.backend?.exec(exec, message)
+    }
+  }
+
+  // Nobody is left to receive the output of running commands
+  private stopExecs() {
+    this.execs.forEach(exec => {
+      exec.remove()
+      exec.cancel()
+    })
+  }
+
+  async openTunnel(port: number, host?: string): Promise<Duplex> {
+    if (!this.ready || !this.backend) {
+      throw new Error(`Not connected to ${this.host}`)
+    }
+    const tunnel = await this.backend.openTunnel(port, host)
+    this.tunnels.add(tunnel)
+    tunnel.once('close', () => this.tunnels.delete(tunnel))
+    return tunnel
+  }
+
+  async listen(address: string, port: number, onConnection: (stream: Duplex) => void): Promise<() => void> {
+    if (!this.ready || !this.backend) {
+      throw new Error(`Not connected to ${this.host}`)
+    }
+    return this.backend.listen(address, port, onConnection)
+  }
+
+  // File contents arrive as frames just before the file:write:chunk that uses them
+  addUpload(channel: number, data: Buffer) {
+    const pending = this.uploads.get(channel)
+    this.uploads.set(channel, pending ? Buffer.concat([pending, data]) : data)
+  }
+
+  async handleFileRequest(request: FileRequest) {
+    let upload: Buffer = Buffer.alloc(0)
+    if (request.type === 'file:write:chunk') {
+      upload = this.uploads.get(request.channel) || upload
+      this.uploads.delete(request.channel)
+    }
+
+    let driver: FileSystemDriver
+    try {
+      driver = await this.backend.fileSystem()
+    } catch (err) {
+      this.sendJson(fileErrorResponse(request, err.message))
+      return
+    }
+    const response = await handleFileRequest(driver, request, upload, (channel, data) => {
+      this.send(encodeFrame(FRAME_FILE, channel, data))
+    })
+    this.sendJson(response)
+  }
+
+  // Add a key to the host's authorized_keys over the file system the backend offers
+  async installKey(publicKey: string) {
+    if (!this.ready) {
+      this.sendJson({ type: 'key:installed', added: false, error: `Not connected to ${this.host}` })
+      return
+    }
+    try {
+      const added = await installPublicKey(await this.backend.fileSystem(), publicKey)
+      log.info(`${added ? 'Installed' : 'Already found'} public key on ${this.host}`)
+      this.sendJson({ type: 'key:installed', added })
+    } catch (err) {
+      this.sendJson({ type: 'key:installed', added: false, error: err.message })
+    }
+  }
+
+  dispose() {
+    if (this.disposed) return
+    this.disposed = true
+
+    clearTimeout(this.idleTimer)
+    if (this.id && hostConnections.get(this.id) === this) {
+      hostConnections.delete(this.id)
+    }
+    this.stopExecs()
+    this.ports.stop()
+    this.forwards.stopAll()
+    this.tunnels.forEach(tunnel => tunnel.destroy())
+    for (const terminal of Array.from(this.terminals.values())) {
+      terminal.close()
+    }
+    try {
+      this.backend?.end()
+    } catch {
+      // Already gone
+    }
+    if (this.ws) {
+      this.ws.close()
+      this.ws = null
+    }
+  }
+}
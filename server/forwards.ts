@@ -0,0 +1,216 @@
+import net from 'net'
+import type { Duplex } from 'stream'
+import { resolveSSHHost } from '../lib/ssh-parser'
+import { parseForwardRule, ForwardKind, ForwardRule } from '../lib/ssh-forward'
+import type { ForwardStatus } from '../lib/connection-protocol'
+import type { HostConnection } from './connection'
+import { acceptSocks } from './socks'
+import { log } from './log'
+
+const REPORT_INTERVAL = 1000 // Byte counters are sent at most this often
+
+interface Forward {
+  rule: ForwardRule | null // null if the rule couldn't be parsed
+  status: ForwardStatus
+  stop: (() => void) | null // Set while active
+  streams: Set<Duplex>
+}
+
+function describe(rule: ForwardRule): string {
+  if (rule.kind === 'dynamic') {
+    return `SOCKS5 proxy on ${rule.bindAddress || '127.0.0.1'}:${rule.port}`
+  }
+  return `Port ${rule.port} on the host to ${rule.target.host}:${rule.target.port} here`
+}
+
+// Where to listen for a bind address from the config. Remote forwards leave it
+// to the SSH server, which takes "localhost" and "" (every interface).
+function bindHost(rule: ForwardRule): string {
+  if (rule.bindAddress === '*' || rule.bindAddress === '') {
+    return rule.kind === 'dynamic' ? '0.0.0.0' : ''
+  }
+  return rule.bindAddress || (rule.kind === 'dynamic' ? '127.0.0.1' : 'localhost')
+}
+
+// The host's DynamicForward and RemoteForward rules, started and stopped by the
+// client. Running forwards keep going while no client is attached.
+export class ForwardManager {
+  private forwards = new Map<string, Forward>()
+  private reportTimer: NodeJS.Timeout | null = null
+
+  constructor(private connection: HostConnection) {}
+
+  // Re-read the rules from the SSH config. Running forwards stay, even if their
+  // rule was removed, until they are stopped.
+  load() {
+    const host = resolveSSHHost(this.connection.host)
+    const specs: [ForwardKind, string][] = [
+      ...(host.dynamicForwards || []).map(spec => ['dynamic', spec] as [ForwardKind, string]),
+      ...(host.remoteForwards || []).map(spec => ['remote', spec] as [ForwardKind, string]),
+    ]
+
+    const forwards = new Map<string, Forward>()
+    this.forwards.forEach((forward, id) => {
+      if (forward.stop) forwards.set(id, forward)
+    })
+    for (const [kind, spec] of specs) {
+      const id = `${kind} ${spec}`
+      if (forwards.has(id)) continue
+      let rule: ForwardRule | null = null
+      let error: string | null = null
+      try {
+        rule = parseForwardRule(kind, spec)
+      } catch (err) {
+        error = err.message
+      }
+      forwards.set(id, {
+        rule,
+        stop: null,
+        streams: new Set(),
+        status: {
+          id,
+          kind,
+          spec,
+          description: rule ? describe(rule) : 'Invalid rule',
+          valid: rule !== null,
+          active: false,
+          connections: 0,
+          bytesToHost: 0,
+          bytesFromHost: 0,
+          error,
+        },
+      })
+    }
+    this.forwards = forwards
+  }
+
+  report() {
+    clearTimeout(this.reportTimer)
+    this.reportTimer = null
+    const forwards = Array.from(this.forwards.values()).map(forward => ({ ...forward.status }))
+    this.connection.sendJson({ type: 'forwards:changed', forwards })
+  }
+
+  async start(id: string) {
+    const forward = this.forwards.get(id)
+    if (!forward || !forward.rule || forward.stop) return
+    forward.status.error = null
+    try {
+      forward.stop = forward.rule.kind === 'dynamic'
+        ? await this.startDynamic(forward)
+        : await this.startRemote(forward)
+      forward.status.active = true
+      log.info(`Started forward for ${this.connection.host}: ${forward.status.description}`)
+    } catch (err) {
+      forward.status.error = err.message
+    }
+    this.report()
+  }
+
+  stop(id: string) {
+    const forward = this.forwards.get(id)
+    if (!forward?.stop) return
+    forward.stop()
+    forward.stop = null
+    forward.streams.forEach(stream => stream.destroy())
+    forward.status.active = false
+    this.report()
+  }
+
+  // The SSH connection came back: remote forwards are requested again on the
+  // new one. SOCKS proxies listen here and carry on by themselves.
+  async reconnected() {
+    for (const [id, forward] of Array.from(this.forwards.entries())) {
+      if (forward.rule?.kind !== 'remote' || !forward.stop) continue
+      forward.stop()
+      forward.stop = null
+      forward.streams.forEach(stream => stream.destroy())
+      forward.status.active = false
+      await this.start(id)
+    }
+  }
+
+  stopAll() {
+    clearTimeout(this.reportTimer)
+    this.forwards.forEach(forward => {
+      forward.stop?.()
+      forward.stop = null
+      forward.streams.forEach(stream => stream.destroy())
+    })
+  }
+
+  // A SOCKS server on this machine whose connections go out from the host
+  private startDynamic(forward: Forward): Promise<() => void> {
+    const server = net.createServer((socket) => {
+      acceptSocks(
+        socket,
+        (host, port) => this.connection.openTunnel(port, host),
+        (remote) => this.join(forward, socket, remote),
+      )
+    })
+    return new Promise((resolve, reject) => {
+      server.once('error', reject)
+      server.listen(forward.rule.port, bindHost(forward.rule), () => {
+        server.off('error', reject)
+        server.on('error', (err) => log.warn(`SOCKS proxy for ${this.connection.host} failed:`, err.message))
+        resolve(() => server.close())
+      })
+    })
+  }
+
+  // A port on the host whose connections come back to a target reachable from here
+  private async startRemote(forward: Forward): Promise<() => void> {
+    const { port, target } = forward.rule
+    return this.connection.listen(bindHost(forward.rule), port, (stream) => {
+      const socket = net.connect(target.port, target.host)
+      socket.on('error', (err) => {
+        log.debug(`Remote forward to ${target.host}:${target.port} failed:`, err.message)
+        stream.destroy()
+      })
+      this.join(forward, socket, stream)
+    })
+  }
+
+  // Pipe a local socket and a stream from the host into each other, counting bytes
+  private join(forward: Forward, local: Duplex, remote: Duplex) {
+    const { status, streams } = forward
+    streams.add(local)
+    streams.add(remote)
+    status.connections++
+    this.changed()
+
+    local.on('data', (data: Buffer) => {
+      status.bytesToHost += data.length
+      this.changed()
+    })
+    remote.on('data', (data: Buffer) => {
+      status.bytesFromHost += data.length
+      this.changed()
+    })
+    local.on('error', () => remote.destroy())
+    remote.on('error', () => local.destroy())
+
+    let closed = false
+    const close = () => {
+      local.destroy()
+      remote.destroy()
+      if (closed) return
+      closed = true
+      streams.delete(local)
+      streams.delete(remote)
+      status.connections--
+      this.changed()
+    }
+    local.on('close', close)
+    remote.on('close', close)
+
+    local.pipe(remote)
+    remote.pipe(local)
+  }
+
+  private changed() {
+    if (!this.reportTimer) {
+      this.reportTimer = setTimeout(() => this.report(), REPORT_INTERVAL)
+    }
+  }
+}
@@ -0,0 +1,198 @@
+import type { FileEntry, FileRequest, FileResponse } from '../../lib/file-protocol'
+import { config } from '../config'
+import { log } from '../log'
+
+// Chunked file transfer. Every chunk names its own offset, so a client can resume
+// after a dropped connection by asking for the next chunk again.
+const UPLOAD_SUFFIX = '.codebook-upload' // Uploads are written here and renamed into place when complete
+
+export interface FileStats {
+  size: number
+  mode: number
+  isDirectory: boolean
+}
+
+// A filesystem the file protocol runs against - the local disk or a host over SFTP
+export interface FileSystemDriver {
+  // List a directory; an empty path lists the driver's starting directory
+  list(dirPath: string): Promise<FileEntry[]>
+  stat(filePath: string): Promise<FileStats>
+  readChunk(filePath: string, offset: number, length: number): Promise<Buffer>
+  // Write `data` at `offset`; a write at offset 0 truncates the file
+  writeChunk(filePath: string, offset: number, data: Buffer): Promise<void>
+  chmod(filePath: string, mode: number): Promise<void>
+  // Rename, replacing `newPath` if it exists
+  replace(oldPath: string, newPath: string): Promise<void>
+  rename(oldPath: string, newPath: string): Promise<void>
+  createFile(filePath: string): Promise<void>
+  createDirectory(dirPath: string): Promise<void>
+  delete(filePath: string, recursive: boolean): Promise<void>
+}
+
+// Sends file contents to the client as a FRAME_FILE on a channel
+export type SendFileData = (channel: number, data: Buffer) => void
+
+// Anything with ranged read/write streams - the fs module or an SFTP session
+export interface StreamSource {
+  createReadStream(path: string, options: { start: number; end: number }): NodeJS.ReadableStream
+  createWriteStream(path: string, options: { flags: 'w' | 'r+'; start: number }): NodeJS.WritableStream
+}
+
+// Read up to `length` bytes at `offset` using a ranged read stream
+export function readStreamChunk(source: StreamSource, filePath: string, offset: number, length: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    if (length <= 0) {
+      resolve(Buffer.alloc(0))
+      return
+    }
+    const chunks: Buffer[] = []
+    const stream = source.createReadStream(filePath, { start: offset, end: offset + length - 1 })
+    stream.on('data', (chunk: Buffer) => chunks.push(chunk))
+    stream.on('error', reject)
+    stream.on('end', () => resolve(Buffer.concat(chunks)))
+  })
+}
+
+// Write `data` at `offset` using a write stream. The first chunk truncates.
+export function writeStreamChunk(source: StreamSource, filePath: string, offset: number, data: Buffer): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const stream = source.createWriteStream(filePath, { flags: offset === 0 ? 'w' : 'r+', start: offset })
+    let failed = false
+    stream.on('error', (err) => {
+      failed = true
+      reject(err)
+    })
+    stream.on('close', () => {
+      if (!failed) resolve()
+    })
+    stream.end(data)
+  })
+}
+
+function clampChunkLength(length: unknown, size: number, offset: number): number {
+  const requested = Math.min(parseInt(String(length), 10) || config.maxChunkSize, config.maxChunkSize)
+  return Math.max(0, Math.min(requested, size - offset))
+}
+
+function parseOffset(offset: unknown): number {
+  return Math.max(0, parseInt(String(offset), 10) || 0)
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.ceil(bytes / 1024)} KB`
+  return `${Math.round(bytes / (1024 * 1024) * 10) / 10} MB`
+}
+
+// Reject files over the configured maxFileSize
+function checkFileSize(size: number) {
+  if (config.maxFileSize && size > config.maxFileSize) {
+    throw new Error(`File is larger than the ${formatSize(config.maxFileSize)} limit (${formatSize(size)})`)
+  }
+}
+
+// Run a file request against a driver. `upload` holds the contents that arrived
+// as a frame for a file:write:chunk.
+export async function handleFileRequest(
+  driver: FileSystemDriver,
+  request: FileRequest,
+  upload: Buffer,
+  sendData: SendFileData
+): Promise<FileResponse> {
+  const { requestId } = request
+
+  try {
+    switch (request.type) {
+      case 'file:list': {
+        const entries = await driver.list(request.path)
+        return { type: 'file:list:response', requestId, success: true, entries }
+      }
+
+      case 'file:read:chunk': {
+        const offset = parseOffset(request.offset)
+        const stats = await driver.stat(request.path)
+        checkFileSize(stats.size)
+        const data = await driver.readChunk(request.path, offset, clampChunkLength(request.length, stats.size, offset))
+        sendData(request.channel, data)
+        return {
+          type: 'file:read:chunk:response',
+          requestId,
+          success: true,
+          size: stats.size,
+          offset,
+          eof: offset + data.length >= stats.size,
+        }
+      }
+
+      case 'file:write:chunk': {
+        const tempPath = request.path + UPLOAD_SUFFIX
+        const offset = parseOffset(request.offset)
+        checkFileSize(offset + upload.length)
+        await driver.writeChunk(tempPath, offset, upload)
+
+        if (request.final) {
+          // Keep the permissions of the file being replaced, then swap it in
+          try {
+            const stats = await driver.stat(request.path)
+            await driver.chmod(tempPath, stats.mode & 0o7777)
+          } catch {
+            // New file
+          }
+          await driver.replace(tempPath, request.path)
+        }
+        return { type: 'file:operation:response', requestId, success: true, offset: offset + upload.length }
+      }
+
+      case 'file:write:cancel': {
+        try {
+          await driver.delete(request.path + UPLOAD_SUFFIX, false)
+        } catch {
+          // Nothing was uploaded yet
+        }
+        return { type: 'file:operation:response', requestId, success: true }
+      }
+
+      case 'file:create': {
+        if (request.isDirectory) {
+          await driver.createDirectory(request.path)
+        } else {
+          await driver.createFile(request.path)
+        }
+        return { type: 'file:operation:response', requestId, success: true }
+      }
+
+      case 'file:delete': {
+        await driver.delete(request.path, !!request.recursive)
+        return { type: 'file:operation:response', requestId, success: true }
+      }
+
+      case 'file:rename': {
+        await driver.rename(request.oldPath, request.newPath)
+        return { type: 'file:operation:response', requestId, success: true }
+      }
+
+      default:
+        return {
+          type: 'file:operation:response',
+          requestId,
+          success: false,
+          error: `Unknown file operation: ${(request as { type: string }).type}`,
+        }
+    }
+  } catch (err) {
+    log.error(`${request.type} failed:`, err.message)
+    return fileErrorResponse(request, err.message)
+  }
+}
+
+// A failed response of the type the request expects
+export function fileErrorResponse(request: FileRequest, error: string): FileResponse {
+  const { requestId } = request
+  switch (request.type) {
+    case 'file:list':
+      return { type: 'file:list:response', requestId, success: false, error }
+    case 'file:read:chunk':
+      return { type: 'file:read:chunk:response', requestId, success: false, error }
+    default:
+      return { type: 'file:operation:response', requestId, success: false, error }
+  }
+}
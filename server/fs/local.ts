@@ -0,0 +1,82 @@
+import fs from 'fs'
+import fsPromises from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import type { FileEntry } from '../../lib/file-protocol'
+import { FileSystemDriver, FileStats, readStreamChunk, writeStreamChunk } from './driver'
+
+// File operations on the machine running the server
+export class LocalFileSystem implements FileSystemDriver {
+  async list(dirPath: string): Promise<FileEntry[]> {
+    // Use homedir as default, or if '/' is requested on Termux (often inaccessible)
+    if (!dirPath || (dirPath === '/' && process.env.PREFIX?.includes('com.termux'))) {
+      dirPath = os.homedir()
+    }
+    const items = await fsPromises.readdir(dirPath, { withFileTypes: true })
+    const entries = await Promise.all(
+      items.map(async (item) => {
+        try {
+          const fullPath = path.join(dirPath, item.name)
+          const stats = await fsPromises.stat(fullPath)
+          return {
+            name: item.name,
+            path: fullPath,
+            isDirectory: stats.isDirectory(),
+            size: stats.size,
+            modified: stats.mtime.toISOString(),
+          }
+        } catch {
+          // Skip files we can't stat
+          return null
+        }
+      })
+    )
+    return entries.filter(Boolean)
+  }
+
+  async stat(filePath: string): Promise<FileStats> {
+    const stats = await fsPromises.stat(filePath)
+    return { size: stats.size, mode: stats.mode, isDirectory: stats.isDirectory() }
+  }
+
+  readChunk(filePath: string, offset: number, length: number): Promise<Buffer> {
+    return readStreamChunk(fs, filePath, offset, length)
+  }
+
+  writeChunk(filePath: string, offset: number, data: Buffer): Promise<void> {
+    return writeStreamChunk(fs, filePath, offset, data)
+  }
+
+  chmod(filePath: string, mode: number): Promise<void> {
+    return fsPromises.chmod(filePath, mode)
+  }
+
+  replace(oldPath: string, newPath: string): Promise<void> {
+    return fsPromises.rename(oldPath, newPath)
+  }
+
+  rename(oldPath: string, newPath: string): Promise<void> {
+    return fsPromises.rename(oldPath, newPath)
+  }
+
+  createFile(filePath: string): Promise<void> {
+    return fsPromises.writeFile(filePath, '')
+  }
+
+  async createDirectory(dirPath: string): Promise<void> {
+    await fsPromises.mkdir(dirPath, { recursive: true })
+  }
+
+  async delete(filePath: string, recursive: boolean): Promise<void> {
+    if (recursive) {
+      await fsPromises.rm(filePath, { recursive: true, force: true })
+      return
+    }
+    const stats = await fsPromises.stat(filePath)
+    if (stats.isDirectory()) {
+      await fsPromises.rmdir(filePath)
+    } else {
+      await fsPromises.unlink(filePath)
+    }
+  }
+}
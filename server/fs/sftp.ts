@@ -0,0 +1,95 @@
+import path from 'path'
+import type { SFTPWrapper } from 'ssh2'
+import type { FileEntry } from '../../lib/file-protocol'
+import { FileSystemDriver, FileStats, readStreamChunk, writeStreamChunk } from './driver'
+
+// Turn an SFTP callback into a promise
+function call<T = void>(run: (callback: (err: Error | null | undefined, result?: T) => void) => void): Promise<T> {
+  return new Promise((resolve, reject) => {
+    run((err, result) => err ? reject(err) : resolve(result))
+  })
+}
+
+// File operations on an SSH host over a shared SFTP channel
+export class SftpFileSystem implements FileSystemDriver {
+  constructor(private sftp: SFTPWrapper) {}
+
+  async list(dirPath: string): Promise<FileEntry[]> {
+    dirPath = dirPath || '/home'
+    const list = await call<any[]>(cb => this.sftp.readdir(dirPath, cb))
+    return list.map((item) => ({
+      name: item.filename,
+      path: path.posix.join(dirPath, item.filename),
+      isDirectory: item.attrs.isDirectory(),
+      size: item.attrs.size,
+      modified: new Date(item.attrs.mtime * 1000).toISOString(),
+    }))
+  }
+
+  async stat(filePath: string): Promise<FileStats> {
+    const stats = await call<any>(cb => this.sftp.stat(filePath, cb))
+    return { size: stats.size, mode: stats.mode, isDirectory: stats.isDirectory() }
+  }
+
+  readChunk(filePath: string, offset: number, length: number): Promise<Buffer> {
+    return readStreamChunk(this.sftp, filePath, offset, length)
+  }
+
+  writeChunk(filePath: string, offset: number, data: Buffer): Promise<void> {
+    return writeStreamChunk(this.sftp, filePath, offset, data)
+  }
+
+  chmod(filePath: string, mode: number): Promise<void> {
+    return call(cb => this.sftp.chmod(filePath, mode, cb))
+  }
+
+  async replace(oldPath: string, newPath: string): Promise<void> {
+    const renamed = this.posixRename(oldPath, newPath)
+    if (renamed) {
+      // Any failure here leaves newPath as it was, so it's the caller's to handle
+      await renamed
+      return
+    }
+    // Plain SFTP rename refuses to overwrite an existing file
+    await call(cb => this.sftp.unlink(newPath, cb)).catch(() => {})
+    await this.rename(oldPath, newPath)
+  }
+
+  // Rename over an existing file in one step, or null if the server doesn't
+  // support posix-rename - ext_openssh_rename throws before sending anything then
+  private posixRename(oldPath: string, newPath: string): Promise<void> | null {
+    let callback: (err?: Error | null) => void
+    const done = new Promise<void>((resolve, reject) => {
+      callback = err => err ? reject(err) : resolve()
+    })
+    try {
+      this.sftp.ext_openssh_rename(oldPath, newPath, callback)
+    } catch (err) {
+      if (/does not support/.test(err.message)) return null
+      throw err
+    }
+    return done
+  }
+
+  rename(oldPath: string, newPath: string): Promise<void> {
+    return call(cb => this.sftp.rename(oldPath, newPath, cb))
+  }
+
+  createFile(filePath: string): Promise<void> {
+    return call(cb => this.sftp.writeFile(filePath, '', cb))
+  }
+
+  createDirectory(dirPath: string): Promise<void> {
+    return call(cb => this.sftp.mkdir(dirPath, cb))
+  }
+
+  // SFTP has no recursive delete - non-empty directories fail
+  async delete(filePath: string): Promise<void> {
+    const stats = await this.stat(filePath)
+    if (stats.isDirectory) {
+      await call(cb => this.sftp.rmdir(filePath, cb))
+    } else {
+      await call(cb => this.sftp.unlink(filePath, cb))
+    }
+  }
+}
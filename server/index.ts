@@ -0,0 +1,106 @@
+import { createServer, RequestListener } from 'http'
+import { createServer as createHttpsServer } from 'https'
+import { parse } from 'url'
+import next from 'next'
+import nextConfig from '../next.config'
+import { authConfig, handleAuthRoute, isAuthenticated, isFromPreview, isPublicPath, isSameOrigin, sendJson } from './auth'
+import { createWebSocketServer } from './transport'
+import { config } from './config'
+import { log } from './log'
+import { handleKeysRoute } from './keys'
+import { CA_DOWNLOAD_PATH, handleCaDownload, loadTlsOptions } from './tls'
+import { handlePreviewTicketRoute, startPreviewServer } from './preview'
+
+const dev = process.env.NODE_ENV !== 'production'
+const { host: hostname, port } = config
+const basePath: string = nextConfig.basePath
+const wsPath = `${basePath}/ws` // Host connections; every other upgrade (HMR) goes to Next.js
+const tls = loadTlsOptions()
+
+// Next.js attaches its upgrade listener to the server of the first request it
+// handles, and closes any upgrade it doesn't recognise. Give it a server of its
+// own that never listens, and pass it only the upgrades meant for it.
+const nextUpgrades = createServer()
+
+const app = next({ dev, hostname, port, httpServer: nextUpgrades })
+const handle = app.getRequestHandler()
+
+// The path within the app, without the base path
+function appPath(pathname: string): string {
+  if (basePath && (pathname === basePath || pathname.startsWith(`${basePath}/`))) {
+    return pathname.slice(basePath.length) || '/'
+  }
+  return pathname
+}
+
+app.prepare().then(() => {
+  const listener: RequestListener = async (req, res) => {
+    const parsedUrl = parse(req.url, true)
+    const pathname = appPath(parsedUrl.pathname || '/')
+
+    // Public, so a device can fetch the CA before it trusts this server
+    if (pathname === CA_DOWNLOAD_PATH && handleCaDownload(req, res, tls)) {
+      return
+    }
+
+    // The API acts with the user's session, so only the app's own pages may call it
+    if (pathname.startsWith('/api/') && (!isSameOrigin(req) || isFromPreview(req))) {
+      sendJson(res, 403, { error: 'Forbidden' })
+      return
+    }
+
+    if (pathname.startsWith('/api/auth/') && await handleAuthRoute(req, res, pathname)) {
+      return
+    }
+
+    // Auth gate - everything except the login page and static shell requires a session
+    if (!isPublicPath(pathname) && !isAuthenticated(req)) {
+      if (pathname.startsWith('/api/')) {
+        sendJson(res, 401, { error: 'Not authenticated' })
+      } else {
+        res.writeHead(302, { Location: `${basePath}/login?next=${encodeURIComponent(req.url)}` })
+        res.end()
+      }
+      return
+    }
+
+    if (pathname === '/api/keys' && await handleKeysRoute(req, res, pathname)) {
+      return
+    }
+
+    if (pathname === '/api/preview' && handlePreviewTicketRoute(req, res, pathname)) {
+      return
+    }
+
+    await handle(req, res, parsedUrl)
+  }
+  const server = tls ? createHttpsServer({ cert: tls.cert, key: tls.key }, listener) : createServer(listener)
+
+  const wss = createWebSocketServer()
+  server.on('upgrade', (req, socket, head) => {
+    const pathname = parse(req.url).pathname || '/'
+    if (pathname === wsPath) {
+      wss.handleUpgrade(req, socket, head, (ws) => wss.emit('connection', ws, req))
+    } else {
+      nextUpgrades.emit('upgrade', req, socket, head)
+    }
+  })
+
+  server.on('error', (err: NodeJS.ErrnoException) => {
+    log.error(err.code === 'EADDRINUSE' ? `Port ${port} is already in use (set "port" in the config or pass --port)` : err.message)
+    process.exit(1)
+  })
+
+  server.listen(port, hostname, () => {
+    const origin = `${tls ? 'https' : 'http'}://${hostname}:${port}${basePath}`
+    log.info(`> Ready on ${origin}`)
+    if (tls?.caFile) {
+      log.info(`> To trust the certificate on other devices, install the CA from ${origin}${CA_DOWNLOAD_PATH}`)
+    }
+    if (authConfig.token && !authConfig.passwordHash) {
+      log.info(`> Access token: ${authConfig.token}`)
+      log.info('> Run "npm run set-password" to log in with a password instead')
+    }
+    startPreviewServer(tls)
+  })
+})
@@ -0,0 +1,221 @@
+import type { IncomingMessage, ServerResponse } from 'http'
+import os from 'os'
+import fs from 'fs'
+import path from 'path'
+import { utils } from 'ssh2'
+import { readJsonBody, sendJson } from './auth'
+import { fingerprint, keyType } from './backends/known-hosts'
+import type { FileSystemDriver } from './fs/driver'
+import { log } from './log'
+
+// The user's SSH keys: listing and generating them in ~/.ssh for the Keys
+// screen, and adding one to a host's authorized_keys
+
+const SSH_DIR = path.join(os.homedir(), '.ssh')
+const AUTHORIZED_KEYS = '.ssh/authorized_keys' // Relative to the home directory over SFTP
+const KEY_NAME = /^[A-Za-z0-9._-]+$/
+const RSA_BITS = 3072 // ssh-keygen's default
+const KDF_ROUNDS = 16 // Likewise, for bcrypt on passphrase-protected keys
+
+export interface SSHKeyInfo {
+  name: string // File name of the private key
+  path: string // ~/.ssh/<name>
+  type: string // e.g. ssh-ed25519
+  bits: number
+  fingerprint: string // SHA256:...
+  comment: string
+  publicKey: string // The .pub line
+  hasPrivateKey: boolean
+  encrypted: boolean // The private key needs a passphrase
+}
+
+class KeyError extends Error {}
+
+// Read a big-endian length-prefixed field of a public key blob
+function readField(blob: Buffer, offset: number): [Buffer, number] {
+  const length = blob.readUInt32BE(offset)
+  return [blob.subarray(offset + 4, offset + 4 + length), offset + 4 + length]
+}
+
+// Key size as ssh-keygen -l shows it
+function keyBits(type: string, blob: Buffer): number {
+  if (type === 'ssh-rsa') {
+    const [, afterType] = readField(blob, 0)
+    const [, afterExponent] = readField(blob, afterType)
+    const [modulus] = readField(blob, afterExponent)
+    const start = modulus.findIndex(byte => byte !== 0)
+    return start === -1 ? 0 : (modulus.length - start - 1) * 8 + modulus[start].toString(2).length
+  }
+  const curve = type.match(/nistp(\d+)/)
+  if (curve) return parseInt(curve[1], 10)
+  if (type.includes('ed25519')) return 256
+  if (type.startsWith('ssh-dss')) return 1024
+  return 0
+}
+
+function describeKey(file: string): SSHKeyInfo | null {
+  const line = fs.readFileSync(file, 'utf-8').trim().split('\n')[0]
+  const [, base64, ...comment] = line.split(/\s+/)
+  if (!base64) return null
+  const blob = Buffer.from(base64, 'base64')
+  if (blob.length < 4) return null
+
+  const type = keyType(blob)
+  if (type.includes('-cert-')) return null // Certificates live beside the keys they certify
+
+  const name = path.basename(file, '.pub')
+  const privateFile = path.join(SSH_DIR, name)
+  let hasPrivateKey = false
+  let encrypted = false
+  try {
+    const parsed = utils.parseKey(fs.readFileSync(privateFile))
+    hasPrivateKey = true
+    encrypted = parsed instanceof Error && /no passphrase given/.test(parsed.message)
+  } catch {
+    // Only the public half is here
+  }
+
+  return {
+    name,
+    path: `~/.ssh/${name}`,
+    type,
+    bits: keyBits(type, blob),
+    fingerprint: fingerprint(blob),
+    comment: comment.join(' '),
+    publicKey: line,
+    hasPrivateKey,
+    encrypted,
+  }
+}
+
+// The key pairs in ~/.ssh, found by their .pub files
+export function listKeys(): SSHKeyInfo[] {
+  let files: string[]
+  try {
+    files = fs.readdirSync(SSH_DIR).filter(file => file.endsWith('.pub')).sort()
+  } catch {
+    return []
+  }
+  const keys: SSHKeyInfo[] = []
+  for (const file of files) {
+    try {
+      const key = describeKey(path.join(SSH_DIR, file))
+      if (key) keys.push(key)
+    } catch (err) {
+      log.debug(`Skipping ${file}:`, err.message)
+    }
+  }
+  return keys
+}
+
+interface GenerateRequest {
+  name?: string
+  type?: string
+  passphrase?: string
+  comment?: string
+}
+
+// Create ~/.ssh/<name> and <name>.pub like ssh-keygen, without needing it installed
+export async function generateKey({ name, type, passphrase, comment }: GenerateRequest): Promise<SSHKeyInfo> {
+  name = String(name || '').trim()
+  if (!KEY_NAME.test(name) || name.startsWith('.')) {
+    throw new KeyError('Key names may only use letters, digits, ".", "_" and "-"')
+  }
+  if (type !== 'ed25519' && type !== 'rsa') {
+    throw new KeyError('Key type must be ed25519 or rsa')
+  }
+  if ([passphrase, comment].some(value => value !== undefined && typeof value !== 'string')) {
+    throw new KeyError('The passphrase and comment must be text')
+  }
+  const privateFile = path.join(SSH_DIR, name)
+  if (fs.existsSync(privateFile) || fs.existsSync(`${privateFile}.pub`)) {
+    throw new KeyError(`~/.ssh/${name} already exists`)
+  }
+
+  const options = {
+    bits: RSA_BITS,
+    comment: comment?.trim() || `${os.userInfo().username}@${os.hostname()}`,
+    ...(passphrase ? { passphrase, cipher: 'aes256-ctr', rounds: KDF_ROUNDS } : {}),
+  }
+  // RSA takes a few seconds on a phone, so don't block the server
+  const pair = await new Promise<{ private: string; public: string }>((resolve, reject) => {
+    utils.generateKeyPair(type, options, (err, keys) => err ? reject(err) : resolve(keys))
+  })
+
+  fs.mkdirSync(SSH_DIR, { recursive: true, mode: 0o700 })
+  fs.writeFileSync(privateFile, pair.private, { mode: 0o600, flag: 'wx' })
+  fs.writeFileSync(`${privateFile}.pub`, `${pair.public}\n`, { mode: 0o644, flag: 'wx' })
+  log.info(`Generated ${type} key ~/.ssh/${name}`)
+  return describeKey(`${privateFile}.pub`)
+}
+
+// Add a public key to ~/.ssh/authorized_keys on a host, creating the directory
+// and file with the permissions sshd insists on. Returns false if the key was
+// already there.
+export async function installPublicKey(driver: FileSystemDriver, publicKey: string): Promise<boolean> {
+  const line = String(publicKey || '').trim()
+  const parsed = line.includes('\n') ? null : utils.parseKey(line)
+  if (!parsed || parsed instanceof Error || Array.isArray(parsed) || parsed.isPrivateKey()) {
+    throw new Error('Not a public key')
+  }
+  const blob = parsed.getPublicSSH().toString('base64')
+
+  try {
+    await driver.stat('.ssh')
+  } catch {
+    await driver.createDirectory('.ssh')
+    await driver.chmod('.ssh', 0o700)
+  }
+
+  let existing: Buffer = Buffer.alloc(0)
+  let exists = true
+  try {
+    const { size } = await driver.stat(AUTHORIZED_KEYS)
+    existing = await driver.readChunk(AUTHORIZED_KEYS, 0, size)
+  } catch {
+    exists = false
+  }
+  // Matched on the key itself, whatever options or comment the line has
+  if (existing.toString().split('\n').some(entry => entry.split(/\s+/).includes(blob))) {
+    return false
+  }
+
+  const separator = existing.length > 0 && existing[existing.length - 1] !== 0x0a ? '\n' : ''
+  await driver.writeChunk(AUTHORIZED_KEYS, existing.length, Buffer.from(`${separator}${line}\n`))
+  if (!exists) await driver.chmod(AUTHORIZED_KEYS, 0o600)
+  return true
+}
+
+// Handle /api/keys: GET lists the keys, POST generates one. Returns true if the
+// request was handled.
+export async function handleKeysRoute(req: IncomingMessage, res: ServerResponse, pathname: string): Promise<boolean> {
+  if (pathname !== '/api/keys') return false
+
+  if (req.method === 'GET') {
+    sendJson(res, 200, listKeys())
+    return true
+  }
+
+  if (req.method === 'POST') {
+    let body: unknown
+    try {
+      body = await readJsonBody(req)
+    } catch {
+      sendJson(res, 400, { error: 'Invalid request body' })
+      return true
+    }
+    if (!body || typeof body !== 'object') {
+      sendJson(res, 400, { error: 'Invalid request body' })
+      return true
+    }
+    try {
+      sendJson(res, 200, await generateKey(body as GenerateRequest))
+    } catch (err) {
+      if (!(err instanceof KeyError)) log.error('Failed to generate key:', err.message)
+      sendJson(res, err instanceof KeyError ? 400 : 500, { error: err instanceof KeyError ? err.message : 'Failed to generate key' })
+    }
+    return true
+  }
+
+  return false
+}
@@ -0,0 +1,19 @@
+import { config, LOG_LEVELS, LogLevel } from './config'
+
+// Leveled console logging; messages below the configured logLevel are dropped
+
+const threshold = LOG_LEVELS.indexOf(config.logLevel)
+
+function logger(level: LogLevel, write: (...args: unknown[]) => void) {
+  const enabled = LOG_LEVELS.indexOf(level) >= threshold
+  return (...args: unknown[]) => {
+    if (enabled) write(...args)
+  }
+}
+
+export const log = {
+  debug: logger('debug', console.log),
+  info: logger('info', console.log),
+  warn: logger('warn', console.warn),
+  error: logger('error', console.error),
+}
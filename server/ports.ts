@@ -0,0 +1,76 @@
+import type { HostConnection } from './connection'
+import { config } from './config'
+import { log } from './log'
+
+// Linux lists sockets in /proc/net; macOS and the BSDs only have lsof
+const PORT_SCAN_COMMAND = 'cat /proc/net/tcp /proc/net/tcp6 2>/dev/null || lsof -nP -iTCP -sTCP:LISTEN 2>/dev/null'
+
+// "  1: 0100007F:1435 00000000:0000 0A ..." - hex port, state 0A is LISTEN
+const PROC_NET_LISTEN = /^\s*\d+:\s+[0-9A-Fa-f]+:([0-9A-Fa-f]{4})\s+[0-9A-Fa-f]+:[0-9A-Fa-f]{4}\s+0A\s/
+// "node 123 me 20u IPv4 0x1 0t0 TCP 127.0.0.1:5173 (LISTEN)"
+const LSOF_LISTEN = /:(\d+) \(LISTEN\)/
+
+// Privileged ports are system services (sshd and friends), not something to preview
+const MIN_PORT = 1024
+
+export function parseListeningPorts(output: string): number[] {
+  const ports = new Set<number>()
+  for (const line of output.split('\n')) {
+    const proc = line.match(PROC_NET_LISTEN)
+    const lsof = proc ? null : line.match(LSOF_LISTEN)
+    const port = proc ? parseInt(proc[1], 16) : lsof ? parseInt(lsof[1], 10) : 0
+    if (port >= MIN_PORT) ports.add(port)
+  }
+  return Array.from(ports).sort((a, b) => a - b)
+}
+
+// Checks a host's listening TCP ports every portScanInterval seconds while a
+// client is attached, and tells it when they change
+export class PortWatcher {
+  private timer: NodeJS.Timeout | null = null
+  private known: Set<number> | null = null // Ports seen by the last check
+  private reported: string | null = null // The last list sent to the attached client
+  private scanning = false
+
+  constructor(private connection: HostConnection) {}
+
+  start() {
+    if (this.timer || config.portScanInterval === 0) return
+    this.reported = null // A newly attached client gets the current list straight away
+    this.timer = setInterval(() => this.scan(), config.portScanInterval * 1000)
+    this.scan()
+  }
+
+  stop() {
+    clearInterval(this.timer)
+    this.timer = null
+  }
+
+  private async scan() {
+    const backend = this.connection.backend
+    if (this.scanning || !backend) return
+    this.scanning = true
+    let ports: number[]
+    try {
+      ports = parseListeningPorts(await backend.run(PORT_SCAN_COMMAND))
+    } catch (err) {
+      log.debug(`Port scan on ${this.connection.host} failed:`, err.message)
+      return
+    } finally {
+      this.scanning = false
+    }
+    if (!this.timer) return
+
+    if (this.connection.host === 'local') {
+      ports = ports.filter(port => port !== config.port && port !== config.previewPort) // Codebook itself and its preview server
+    }
+    const opened = this.known ? ports.filter(port => !this.known.has(port)) : []
+    this.known = new Set(ports)
+
+    const list = ports.join(',')
+    if (opened.length > 0 || list !== this.reported) {
+      this.reported = list
+      this.connection.sendJson({ type: 'ports:changed', ports, opened })
+    }
+  }
+}
@@ -0,0 +1,292 @@
+import http, { IncomingMessage, ServerResponse, OutgoingHttpHeaders, RequestListener } from 'http'
+import { createServer as createHttpsServer } from 'https'
+import type { Socket } from 'net'
+import type { Duplex } from 'stream'
+import type { TLSSocket } from 'tls'
+import { parse } from 'url'
+import { findReadyConnection } from './connection'
+import { isPreviewAuthenticated, isSameOrigin, previewSessionCookie, previewTicket, sendJson, verifyPreviewTicket, withoutSessionCookie } from './auth'
+import { config } from './config'
+import type { TlsOptions } from './tls'
+import { log } from './log'
+
+// Web preview: /preview/<host>/<port>/<path> is proxied to <path> on port <port>
+// of the host's loopback interface, through the host's SSH connection (like
+// ssh -L) or straight to the local port. The prefix is stripped, so apps that
+// use absolute URLs need to be served under it (X-Forwarded-Prefix says where).
+//
+// Previewed pages run whatever code the host serves, so they get an origin of
+// their own (config.previewPort) that can't reach the app's API or terminals.
+// The app hands the preview server a short-lived ticket, which /__codebook/login
+// turns into a cookie for that origin.
+
+export const PREVIEW_PREFIX = '/preview/'
+const LOGIN_PATH = '/__codebook/login'
+
+let listening = false // The preview server is up
+
+// Connection-level headers that must not be passed through a proxy
+const HOP_BY_HOP = ['connection', 'keep-alive', 'proxy-connection', 'transfer-encoding', 'upgrade', 'te', 'trailer']
+
+interface PreviewTarget {
+  host: string
+  port: number
+  prefix: string // /preview/<host>/<port>, without the base path
+  path: string // Path and query on the target
+}
+
+// `url` is the full request URL, for the query
+function parsePreviewUrl(pathname: string, url: string): PreviewTarget | null {
+  const match = pathname.match(/^\/preview\/([^/]+)\/(\d+)(\/.*)?$/)
+  if (!match) return null
+  const port = parseInt(match[2], 10)
+  if (port < 1 || port > 65535) return null
+
+  const query = url.includes('?') ? url.slice(url.indexOf('?')) : ''
+  return {
+    host: decodeURIComponent(match[1]),
+    port,
+    prefix: `/preview/${match[1]}/${match[2]}`,
+    path: (match[3] || '/') + query,
+  }
+}
+
+async function openTunnel(target: PreviewTarget): Promise<Duplex> {
+  const connection = findReadyConnection(target.host)
+  if (!connection) {
+    throw new Error(`No open session for ${target.host} - open it in Codebook first`)
+  }
+  return connection.openTunnel(target.port)
+}
+
+function forwardedHeaders(req: IncomingMessage, target: PreviewTarget): Record<string, string> {
+  return {
+    host: `localhost:${target.port}`, // Dev servers often only accept their own host name
+    'x-forwarded-host': req.headers.host || '',
+    'x-forwarded-proto': (req.socket as TLSSocket).encrypted ? 'https' : 'http',
+    'x-forwarded-prefix': target.prefix,
+  }
+}
+
+// Keep redirects inside the preview
+function rewriteLocation(location: string, target: PreviewTarget): string {
+  const prefix = target.prefix
+  if (location.startsWith('/') && !location.startsWith('//')) {
+    return prefix + location
+  }
+  try {
+    const url = new URL(location)
+    if (['localhost', '127.0.0.1'].includes(url.hostname) && url.port === String(target.port)) {
+      return prefix + url.pathname + url.search + url.hash
+    }
+  } catch {
+    // Relative location - resolved by the browser against the preview URL
+  }
+  return location
+}
+
+// Root-relative URLs in a previewed page (/assets/app.js) miss the preview prefix.
+// Requests for them still name the page in their Referer, which says where they belong.
+function previewRedirect(req: IncomingMessage): string | null {
+  const referer = req.headers.referer
+  if (!referer) return null
+  let url: URL
+  try {
+    url = new URL(referer)
+  } catch {
+    return null
+  }
+  if (url.host !== req.headers.host || !url.pathname.startsWith(PREVIEW_PREFIX)) return null
+
+  const target = parsePreviewUrl(url.pathname, '')
+  return target ? target.prefix + req.url : null
+}
+
+function sendMessagePage(res: ServerResponse, status: number, message: string) {
+  const escaped = message.replace(/[&<>"]/g, c => `&#${c.charCodeAt(0)};`)
+  res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8' })
+  res.end(`<!doctype html><meta name="viewport" content="width=device-width"><body style="font-family:sans-serif;color:#888;background:#1a1a2e;padding:24px">${escaped}</body>`)
+}
+
+function sendPreviewError(res: ServerResponse, target: PreviewTarget, err: Error & { code?: string }) {
+  const reason = err.code === 'ECONNREFUSED' || /refused|Connection failed/i.test(err.message)
+    ? `Nothing is listening on port ${target.port} on ${target.host}.`
+    : err.message
+  sendMessagePage(res, 502, reason)
+}
+
+// Where browsers reach the preview server, seen from a request to the app
+function previewOrigin(req: IncomingMessage): string {
+  if (config.previewUrl) return config.previewUrl
+  const protocol = (req.socket as TLSSocket).encrypted ? 'https' : 'http'
+  const hostname = new URL(`http://${req.headers.host || 'localhost'}`).hostname
+  return `${protocol}://${hostname.includes(':') ? `[${hostname}]` : hostname}:${config.previewPort}`
+}
+
+// POST /api/preview (behind the app's login): a ticket for the preview origin.
+// Returns true if the request was handled.
+export function handlePreviewTicketRoute(req: IncomingMessage, res: ServerResponse, pathname: string): boolean {
+  if (pathname !== '/api/preview' || req.method !== 'POST') return false
+  if (!listening) {
+    sendJson(res, 503, { error: config.previewPort ? `Web preview couldn't listen on port ${config.previewPort}` : 'Web preview is turned off' })
+    return true
+  }
+  sendJson(res, 200, { origin: previewOrigin(req), ticket: previewTicket(), loginPath: LOGIN_PATH })
+  return true
+}
+
+// /__codebook/login?ticket=...&next=/preview/...: log in to the preview origin
+// and go on to the preview. A cookie from before is enough, for reloads.
+function handleLogin(req: IncomingMessage, res: ServerResponse, query: Record<string, string | string[]>) {
+  const next = String(query.next || '')
+  if (!next.startsWith(PREVIEW_PREFIX)) {
+    sendMessagePage(res, 400, 'Not a preview address.')
+    return
+  }
+  const headers: Record<string, string> = { Location: next }
+  if (verifyPreviewTicket(String(query.ticket || ''))) {
+    headers['Set-Cookie'] = previewSessionCookie(req)
+  } else if (!isPreviewAuthenticated(req)) {
+    sendMessagePage(res, 401, 'This preview link has expired - open it again from Codebook.')
+    return
+  }
+  res.writeHead(302, headers)
+  res.end()
+}
+
+// Proxy an HTTP request under /preview/. Returns false if the path isn't a preview URL.
+async function handlePreviewRequest(req: IncomingMessage, res: ServerResponse, pathname: string): Promise<boolean> {
+  const target = parsePreviewUrl(pathname, req.url)
+  if (!target) return false
+
+  let tunnel: Duplex
+  try {
+    tunnel = await openTunnel(target)
+  } catch (err) {
+    sendPreviewError(res, target, err)
+    return true
+  }
+
+  const headers: OutgoingHttpHeaders = { ...req.headers, ...forwardedHeaders(req, target) }
+  HOP_BY_HOP.forEach(name => delete headers[name])
+  headers.cookie = withoutSessionCookie(req.headers.cookie)
+  if (!headers.cookie) delete headers.cookie
+
+  const upstream = http.request({
+    method: req.method,
+    path: target.path,
+    headers,
+    createConnection: () => tunnel as Socket, // Any duplex stream works; an SSH channel isn't a net.Socket
+  })
+
+  upstream.on('response', (response) => {
+    const responseHeaders = { ...response.headers }
+    HOP_BY_HOP.forEach(name => delete responseHeaders[name])
+    delete responseHeaders['x-frame-options'] // The preview panel shows it in a frame
+    if (responseHeaders.location) {
+      responseHeaders.location = rewriteLocation(responseHeaders.location, target)
+    }
+    res.writeHead(response.statusCode || 502, responseHeaders)
+    response.pipe(res)
+  })
+  upstream.on('error', (err) => {
+    log.debug(`Preview of ${target.host}:${target.port} failed:`, err.message)
+    if (res.headersSent) {
+      res.destroy()
+    } else {
+      sendPreviewError(res, target, err)
+    }
+  })
+  tunnel.on('error', (err) => upstream.destroy(err))
+  res.on('close', () => tunnel.destroy())
+
+  req.pipe(upstream)
+  return true
+}
+
+// Proxy a WebSocket upgrade under /preview/ (e.g. a dev server's hot reload).
+// Returns false if the path isn't a preview URL.
+function handlePreviewUpgrade(req: IncomingMessage, socket: Duplex, head: Buffer, pathname: string): boolean {
+  const target = parsePreviewUrl(pathname, req.url)
+  if (!target) return false
+
+  if (!isSameOrigin(req) || !isPreviewAuthenticated(req)) {
+    socket.end('HTTP/1.1 401 Unauthorized\r\n\r\n')
+    return true
+  }
+
+  openTunnel(target).then((tunnel) => {
+    // Pass the handshake through as-is, apart from the host and our own cookie
+    const replaced = forwardedHeaders(req, target)
+    const lines = [`${req.method} ${target.path} HTTP/1.1`]
+    for (let i = 0; i < req.rawHeaders.length; i += 2) {
+      const name = req.rawHeaders[i]
+      const lower = name.toLowerCase()
+      if (lower in replaced) continue
+      if (lower === 'cookie') {
+        const cookie = withoutSessionCookie(req.rawHeaders[i + 1])
+        if (cookie) lines.push(`${name}: ${cookie}`)
+        continue
+      }
+      lines.push(`${name}: ${req.rawHeaders[i + 1]}`)
+    }
+    for (const [name, value] of Object.entries(replaced)) {
+      lines.push(`${name}: ${value}`)
+    }
+    tunnel.write(lines.join('\r\n') + '\r\n\r\n')
+    if (head.length > 0) tunnel.write(head)
+
+    tunnel.on('error', () => socket.destroy())
+    socket.on('error', () => tunnel.destroy())
+    tunnel.pipe(socket)
+    socket.pipe(tunnel)
+  }, (err) => {
+    log.debug(`Preview upgrade to ${target.host}:${target.port} failed:`, err.message)
+    socket.end('HTTP/1.1 502 Bad Gateway\r\n\r\n')
+  })
+  return true
+}
+
+// The preview server, on its own port so previewed pages get their own origin
+export function startPreviewServer(tls: TlsOptions | null) {
+  if (!config.previewPort) return
+
+  const listener: RequestListener = async (req, res) => {
+    const { pathname, query } = parse(req.url, true)
+    if (pathname === LOGIN_PATH) {
+      handleLogin(req, res, query as Record<string, string | string[]>)
+      return
+    }
+    if (!isPreviewAuthenticated(req)) {
+      sendMessagePage(res, 401, 'Open this preview from Codebook.')
+      return
+    }
+    if (pathname.startsWith(PREVIEW_PREFIX) && await handlePreviewRequest(req, res, pathname)) {
+      return
+    }
+    const location = previewRedirect(req)
+    if (location) {
+      res.writeHead(307, { Location: location })
+      res.end()
+      return
+    }
+    sendMessagePage(res, 404, 'Not found.')
+  }
+  const server = tls ? createHttpsServer({ cert: tls.cert, key: tls.key }, listener) : http.createServer(listener)
+
+  server.on('upgrade', (req, socket, head) => {
+    if (!handlePreviewUpgrade(req, socket, head, parse(req.url).pathname || '/')) {
+      socket.end('HTTP/1.1 404 Not Found\r\n\r\n')
+    }
+  })
+  // Previews are a convenience - the app runs on without them
+  server.on('error', (err: NodeJS.ErrnoException) => {
+    log.warn(err.code === 'EADDRINUSE'
+      ? `Port ${config.previewPort} for web previews is already in use (set "previewPort" in the config or pass --preview-port)`
+      : `Web preview server failed: ${err.message}`)
+  })
+  server.listen(config.previewPort, config.host, () => {
+    listening = true
+    log.info(`> Web previews on port ${config.previewPort}`)
+  })
+}
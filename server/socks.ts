@@ -0,0 +1,127 @@
+import type { Socket } from 'net'
+import type { Duplex } from 'stream'
+
+// The server side of SOCKS5 (RFC 1928), as far as a DynamicForward needs it:
+// no authentication and CONNECT only
+
+const VERSION = 5
+const NO_AUTH = 0x00
+const NO_ACCEPTABLE_METHODS = 0xff
+const CMD_CONNECT = 0x01
+const ATYP_IPV4 = 0x01
+const ATYP_DOMAIN = 0x03
+const ATYP_IPV6 = 0x04
+
+const REPLY_SUCCEEDED = 0x00
+const REPLY_GENERAL_FAILURE = 0x01
+const REPLY_CONNECTION_REFUSED = 0x05
+const REPLY_COMMAND_NOT_SUPPORTED = 0x07
+const REPLY_ADDRESS_NOT_SUPPORTED = 0x08
+
+interface ConnectRequest {
+  command: number
+  host: string | null // null for an address type we don't know
+  port: number
+  length: number // Bytes the request took
+}
+
+function reply(code: number): Buffer {
+  // The bound address is all zeros - clients don't use it for CONNECT
+  return Buffer.from([VERSION, code, 0, ATYP_IPV4, 0, 0, 0, 0, 0, 0])
+}
+
+// Null until the whole request has arrived
+function parseRequest(buffer: Buffer): ConnectRequest | null {
+  if (buffer.length < 5) return null
+  const command = buffer[1]
+  let host: string | null = null
+  let offset: number
+  switch (buffer[3]) {
+    case ATYP_IPV4:
+      offset = 8
+      if (buffer.length >= offset) host = Array.from(buffer.subarray(4, 8)).join('.')
+      break
+    case ATYP_DOMAIN:
+      offset = 5 + buffer[4]
+      if (buffer.length >= offset) host = buffer.subarray(5, offset).toString()
+      break
+    case ATYP_IPV6: {
+      offset = 20
+      const groups: string[] = []
+      for (let i = 4; i < offset && buffer.length >= offset; i += 2) {
+        groups.push(buffer.readUInt16BE(i).toString(16))
+      }
+      host = groups.join(':')
+      break
+    }
+    default:
+      return { command, host: null, port: 0, length: buffer.length }
+  }
+  if (buffer.length < offset + 2) return null
+  return { command, host, port: buffer.readUInt16BE(offset), length: offset + 2 }
+}
+
+// Talk SOCKS with a new client, connect where it asks through `connect`, and
+// hand both ends to `onConnected` for piping
+export function acceptSocks(
+  socket: Socket,
+  connect: (host: string, port: number) => Promise<Duplex>,
+  onConnected: (remote: Duplex) => void,
+) {
+  let buffer = Buffer.alloc(0)
+  let greeted = false
+
+  const onData = (data: Buffer) => {
+    buffer = Buffer.concat([buffer, data])
+
+    if (!greeted) {
+      if (buffer.length < 2) return
+      if (buffer[0] !== VERSION) {
+        socket.destroy() // SOCKS4 or not SOCKS at all
+        return
+      }
+      const length = 2 + buffer[1]
+      if (buffer.length < length) return
+      const methods = Array.from(buffer.subarray(2, length))
+      buffer = buffer.subarray(length)
+      if (!methods.includes(NO_AUTH)) {
+        socket.end(Buffer.from([VERSION, NO_ACCEPTABLE_METHODS]))
+        return
+      }
+      socket.write(Buffer.from([VERSION, NO_AUTH]))
+      greeted = true
+    }
+
+    const request = parseRequest(buffer)
+    if (!request) return
+    socket.off('data', onData)
+    socket.pause()
+
+    if (request.command !== CMD_CONNECT) {
+      socket.end(reply(REPLY_COMMAND_NOT_SUPPORTED))
+      return
+    }
+    if (request.host === null) {
+      socket.end(reply(REPLY_ADDRESS_NOT_SUPPORTED))
+      return
+    }
+
+    const early = buffer.subarray(request.length) // Clients may send data before the reply
+    connect(request.host, request.port).then((remote) => {
+      if (socket.destroyed) {
+        remote.destroy()
+        return
+      }
+      socket.write(reply(REPLY_SUCCEEDED))
+      if (early.length > 0) remote.write(early)
+      onConnected(remote)
+      socket.resume()
+    }, (err: Error) => {
+      const refused = /refused|Connection failed/i.test(err.message)
+      socket.end(reply(refused ? REPLY_CONNECTION_REFUSED : REPLY_GENERAL_FAILURE))
+    })
+  }
+
+  socket.on('data', onData)
+  socket.on('error', () => socket.destroy())
+}
@@ -0,0 +1,231 @@
+import type { IncomingMessage, ServerResponse } from 'http'
+import os from 'os'
+import fs from 'fs'
+import path from 'path'
+import net from 'net'
+import forge from 'node-forge'
+import { config } from './config'
+import { log } from './log'
+
+// HTTPS/WSS support. Browsers only enable clipboard, notifications and service
+// workers on secure origins, so a PWA opened over the LAN needs TLS.
+//
+// tlsCert / tlsKey     serve a certificate you already have
+// tls: "self-signed"    generate a local CA and a server certificate signed by it
+
+const TLS_DIR = path.join(os.homedir(), '.config', 'codebook', 'tls')
+const CA_CERT_FILE = path.join(TLS_DIR, 'ca.crt')
+const CA_KEY_FILE = path.join(TLS_DIR, 'ca.key')
+const SERVER_CERT_FILE = path.join(TLS_DIR, 'server.crt')
+const SERVER_KEY_FILE = path.join(TLS_DIR, 'server.key')
+
+export const CA_DOWNLOAD_PATH = '/ca.crt'
+
+const CA_VALIDITY_YEARS = 10
+const SERVER_VALIDITY_DAYS = 825 // Longest lifetime iOS accepts for a server certificate
+
+// Private, link-local and CGNAT (e.g. Tailscale) ranges, where a LAN server's
+// addresses usually are. The CA may only vouch for these, .local names and
+// what the machine was called when it was made.
+const LOCAL_RANGES: [string, number][] = [
+  ['127.0.0.0', 8], ['10.0.0.0', 8], ['172.16.0.0', 12], ['192.168.0.0', 16], ['169.254.0.0', 16], ['100.64.0.0', 10],
+  ['::1', 128], ['fc00::', 7], ['fe80::', 10],
+]
+
+export interface TlsOptions {
+  cert: Buffer
+  key: Buffer
+  caFile: string | null // Generated CA that devices can install, if any
+}
+
+// Names and addresses the server can be reached at on this machine
+function localNames(): { dns: string[]; ips: string[] } {
+  const dns = new Set(['localhost', os.hostname()])
+  const ips = new Set(['127.0.0.1', '::1'])
+  for (const addresses of Object.values(os.networkInterfaces())) {
+    for (const address of addresses || []) {
+      if (!address.internal) ips.add(address.address.replace(/%.*$/, ''))
+    }
+  }
+  return { dns: Array.from(dns), ips: Array.from(ips) }
+}
+
+function randomSerial(): string {
+  // Positive 128-bit serial number
+  return '00' + forge.util.bytesToHex(forge.random.getBytesSync(16))
+}
+
+function createCertificate(publicKey: forge.pki.PublicKey, validFor: number) {
+  const cert = forge.pki.createCertificate()
+  cert.publicKey = publicKey
+  cert.serialNumber = randomSerial()
+  cert.validity.notBefore = new Date(Date.now() - 60 * 60 * 1000) // Allow for clock skew
+  cert.validity.notAfter = new Date(Date.now() + validFor)
+  return cert
+}
+
+// An address as bytes, or null for one that isn't plain IPv4 or IPv6
+function ipBytes(ip: string): number[] | null {
+  if (net.isIPv4(ip)) return ip.split('.').map(Number)
+  if (!net.isIPv6(ip) || ip.includes('.')) return null
+  const [head, tail] = ip.split('::')
+  const groups = (part: string | undefined) => part ? part.split(':').map(group => parseInt(group, 16)) : []
+  const words = tail === undefined
+    ? groups(head)
+    : [...groups(head), ...new Array(8 - groups(head).length - groups(tail).length).fill(0), ...groups(tail)]
+  return words.flatMap(word => [word >> 8, word & 0xff])
+}
+
+// An iPAddress name constraint: the address, then a mask of `prefix` bits
+function ipRange(address: number[], prefix: number): string {
+  const mask = address.map((_, i) => (0xff00 >> Math.max(0, Math.min(8, prefix - i * 8))) & 0xff)
+  return String.fromCharCode(...address, ...mask)
+}
+
+// Critical nameConstraints, so a device that installs the CA only trusts it for
+// this machine, even if the CA key leaks. Addresses the machine gets later
+// outside LOCAL_RANGES aren't covered; delete the CA to make a new one.
+function nameConstraints(names: { dns: string[]; ips: string[] }) {
+  const { asn1 } = forge
+  const subtree = (tag: number, value: string) => asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+    asn1.create(asn1.Class.CONTEXT_SPECIFIC, tag, false, value),
+  ])
+  const dns = Array.from(new Set([...names.dns, 'local']))
+  const ips: [string, number][] = [...LOCAL_RANGES, ...names.ips.map((ip): [string, number] => [ip, ip.includes(':') ? 128 : 32])]
+  return {
+    id: '2.5.29.30', // nameConstraints
+    critical: true,
+    value: asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SEQUENCE, true, [
+      // permittedSubtrees: dNSName [2], iPAddress [7]
+      asn1.create(asn1.Class.CONTEXT_SPECIFIC, 0, true, [
+        ...dns.map(name => subtree(2, name)),
+        ...ips.map(([ip, prefix]) => [ipBytes(ip), prefix] as const)
+          .filter(([address]) => address)
+          .map(([address, prefix]) => subtree(7, ipRange(address, prefix))),
+      ]),
+    ]),
+  }
+}
+
+function generateCa(names: { dns: string[]; ips: string[] }) {
+  const keys = forge.pki.rsa.generateKeyPair(2048)
+  const cert = createCertificate(keys.publicKey, CA_VALIDITY_YEARS * 365 * 24 * 60 * 60 * 1000)
+  const subject = [
+    { name: 'commonName', value: `Codebook CA (${os.hostname()})` },
+    { name: 'organizationName', value: 'Codebook' },
+  ]
+  cert.setSubject(subject)
+  cert.setIssuer(subject)
+  cert.setExtensions([
+    { name: 'basicConstraints', cA: true, critical: true },
+    { name: 'keyUsage', keyCertSign: true, cRLSign: true, critical: true },
+    { name: 'subjectKeyIdentifier' },
+    nameConstraints(names),
+  ])
+  cert.sign(keys.privateKey, forge.md.sha256.create())
+  return { cert, key: keys.privateKey }
+}
+
+function generateServerCert(ca: { cert: forge.pki.Certificate; key: forge.pki.rsa.PrivateKey }, names: { dns: string[]; ips: string[] }) {
+  const keys = forge.pki.rsa.generateKeyPair(2048)
+  const cert = createCertificate(keys.publicKey, SERVER_VALIDITY_DAYS * 24 * 60 * 60 * 1000)
+  cert.setSubject([{ name: 'commonName', value: os.hostname() }])
+  cert.setIssuer(ca.cert.subject.attributes)
+  cert.setExtensions([
+    { name: 'basicConstraints', cA: false },
+    { name: 'keyUsage', digitalSignature: true, keyEncipherment: true, critical: true },
+    { name: 'extKeyUsage', serverAuth: true },
+    {
+      name: 'subjectAltName',
+      altNames: [
+        ...names.dns.map(value => ({ type: 2, value })),
+        ...names.ips.map(ip => ({ type: 7, ip })),
+      ],
+    },
+  ])
+  cert.sign(ca.key, forge.md.sha256.create())
+  return { cert, key: keys.privateKey }
+}
+
+// Whether a server certificate is still valid and covers every current name and address
+function serverCertUsable(pem: string, names: { dns: string[]; ips: string[] }): boolean {
+  try {
+    const cert = forge.pki.certificateFromPem(pem)
+    if (cert.validity.notAfter.getTime() < Date.now() + 24 * 60 * 60 * 1000) return false
+    const altNames: { type: number; value?: string; ip?: string }[] = cert.getExtension('subjectAltName')?.['altNames'] || []
+    const covered = new Set(altNames.map(name => name.type === 7 ? name.ip : name.value))
+    return names.dns.every(name => covered.has(name)) && names.ips.every(ip => covered.has(ip))
+  } catch {
+    return false
+  }
+}
+
+function writeSecret(file: string, contents: string) {
+  fs.writeFileSync(file, contents, { mode: 0o600 })
+}
+
+// Create the CA on first run and (re)issue the server certificate when it expires
+// or the machine gets a new address. The CA is kept so devices only trust it once.
+function loadSelfSigned(): TlsOptions {
+  fs.mkdirSync(TLS_DIR, { recursive: true, mode: 0o700 })
+
+  const names = localNames()
+  let ca: { cert: forge.pki.Certificate; key: forge.pki.rsa.PrivateKey }
+  if (fs.existsSync(CA_CERT_FILE) && fs.existsSync(CA_KEY_FILE)) {
+    ca = {
+      cert: forge.pki.certificateFromPem(fs.readFileSync(CA_CERT_FILE, 'utf-8')),
+      key: forge.pki.privateKeyFromPem(fs.readFileSync(CA_KEY_FILE, 'utf-8')),
+    }
+  } else {
+    log.info('Generating a certificate authority for HTTPS...')
+    ca = generateCa(names)
+    writeSecret(CA_KEY_FILE, forge.pki.privateKeyToPem(ca.key))
+    fs.writeFileSync(CA_CERT_FILE, forge.pki.certificateToPem(ca.cert))
+  }
+
+  const existing = fs.existsSync(SERVER_CERT_FILE) && fs.existsSync(SERVER_KEY_FILE)
+    ? fs.readFileSync(SERVER_CERT_FILE, 'utf-8')
+    : null
+  if (!existing || !serverCertUsable(existing, names)) {
+    log.info(`Issuing a server certificate for ${[...names.dns, ...names.ips].join(', ')}`)
+    const server = generateServerCert(ca, names)
+    writeSecret(SERVER_KEY_FILE, forge.pki.privateKeyToPem(server.key))
+    fs.writeFileSync(SERVER_CERT_FILE, forge.pki.certificateToPem(server.cert))
+  }
+
+  return {
+    cert: fs.readFileSync(SERVER_CERT_FILE),
+    key: fs.readFileSync(SERVER_KEY_FILE),
+    caFile: CA_CERT_FILE,
+  }
+}
+
+// TLS settings from the server config, or null to serve plain HTTP
+export function loadTlsOptions(): TlsOptions | null {
+  if (config.tlsCert && config.tlsKey) {
+    return { cert: fs.readFileSync(config.tlsCert), key: fs.readFileSync(config.tlsKey), caFile: null }
+  }
+
+  if (config.tls === 'self-signed') {
+    return loadSelfSigned()
+  }
+  return null
+}
+
+// Serve the generated CA so other devices can install it. Returns true if the request was handled.
+export function handleCaDownload(req: IncomingMessage, res: ServerResponse, tls: TlsOptions | null): boolean {
+  if (req.method !== 'GET' && req.method !== 'HEAD') return false
+  if (!tls?.caFile) {
+    res.writeHead(404)
+    res.end()
+    return true
+  }
+  const cert = fs.readFileSync(tls.caFile)
+  res.writeHead(200, {
+    'Content-Type': 'application/x-x509-ca-cert',
+    'Content-Disposition': 'attachment; filename="codebook-ca.crt"',
+    'Content-Length': cert.length,
+  })
+  res.end(req.method === 'HEAD' ? undefined : cert)
+  return true
+}
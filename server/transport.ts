@@ -0,0 +1,187 @@
+import { parse } from 'url'
+import { WebSocketServer, WebSocket, RawData } from 'ws'
+import { FRAME_FILE, FRAME_TERMINAL, decodeFrame } from '../lib/frame-protocol'
+import { isFileRequest, FileRequest } from '../lib/file-protocol'
+import { PROTOCOL_VERSION, BackendKind, ClientMessage, ServerHelloMessage } from '../lib/connection-protocol'
+import { isAuthenticated, isFromPreview, isSameOrigin } from './auth'
+import { HostConnection, findHostConnection } from './connection'
+import { createLocalBackend } from './backends/local'
+import { ptyBackend } from './backends/pty'
+import { createSSHBackend } from './backends/ssh'
+import { config } from './config'
+import { log } from './log'
+
+const FILE_OPERATIONS: FileRequest['type'][] = [
+  'file:list',
+  'file:read:chunk',
+  'file:write:chunk',
+  'file:write:cancel',
+  'file:create',
+  'file:delete',
+  'file:rename',
+]
+
+// What the client can rely on for a host: the backend, the messages it handles and the server's limits
+function serverHello(backend: BackendKind): ServerHelloMessage {
+  const operations: string[] = ['terminal:open', 'terminal:close', 'exec:run', 'exec:cancel', 'forward:start', 'forward:stop', ...FILE_OPERATIONS]
+  if (backend !== 'fallback-pty') {
+    operations.push('terminal:resize')
+  }
+  if (backend === 'ssh') {
+    operations.push('auth:password', 'auth:hostkey', 'key:install', 'connection:retry')
+  }
+  return {
+    type: 'hello',
+    version: PROTOCOL_VERSION,
+    backend,
+    operations,
+    limits: {
+      maxFileSize: config.maxFileSize,
+      maxChunkSize: config.maxChunkSize,
+      scrollback: config.scrollback,
+      sessionIdleTimeout: config.sessionIdleTimeout,
+    },
+  }
+}
+
+function toBuffer(data: RawData): Buffer {
+  if (Buffer.isBuffer(data)) return data
+  return Array.isArray(data) ? Buffer.concat(data) : Buffer.from(data)
+}
+
+// Route a WebSocket message to the connection (and terminal) it is addressed to
+function handleConnectionMessage(ws: WebSocket, connection: HostConnection, data: RawData, isBinary: boolean) {
+  const message = toBuffer(data)
+
+  if (isBinary) {
+    const frame = decodeFrame(message)
+    if (!frame) return
+    const payload = Buffer.from(frame.payload.buffer, frame.payload.byteOffset, frame.payload.byteLength)
+    if (frame.type === FRAME_TERMINAL) {
+      connection.channels.get(frame.channel)?.write(payload)
+    } else if (frame.type === FRAME_FILE) {
+      connection.addUpload(frame.channel, payload)
+    }
+    return
+  }
+
+  let parsed: ClientMessage
+  try {
+    parsed = JSON.parse(message.toString())
+  } catch {
+    return
+  }
+  if (!parsed || typeof parsed !== 'object' || !parsed.type) return
+
+  if (isFileRequest(parsed)) {
+    connection.handleFileRequest(parsed)
+    return
+  }
+
+  switch (parsed.type) {
+    case 'hello':
+      if (parsed.version !== PROTOCOL_VERSION) {
+        // The page was loaded from an older (or newer) server - it has to reload
+        ws.send(JSON.stringify({
+          type: 'connection:error',
+          error: `Protocol version ${parsed.version} is not supported (server uses ${PROTOCOL_VERSION}) - reload the page`,
+        }))
+        ws.close()
+      }
+      break
+    case 'terminal:open':
+      connection.openTerminal(String(parsed.id), parsed.channel, parsed.cols, parsed.rows, parseInt(String(parsed.offset), 10) || 0)
+      break
+    case 'terminal:resize': {
+      const terminal = connection.terminals.get(parsed.id)
+      if (!terminal) break
+      // Kept for a shell restarted after the connection drops
+      terminal.cols = parsed.cols
+      terminal.rows = parsed.rows
+      terminal.resize(parsed.cols, parsed.rows)
+      break
+    }
+    case 'terminal:close':
+      // Tab closed by the user - end the shell instead of keeping it for reattach
+      connection.terminals.get(parsed.id)?.close()
+      break
+    case 'ping':
+      connection.pong(typeof parsed.sent === 'number' ? parsed.sent : undefined)
+      break
+    case 'session:close':
+      connection.dispose()
+      break
+    case 'connection:retry':
+      connection.backend?.retry?.()
+      break
+    case 'auth:password':
+    case 'auth:hostkey':
+      connection.backend?.handleAuth(parsed)
+      break
+    case 'exec:run':
+      connection.runExec(parsed)
+      break
+    case 'exec:cancel':
+      connection.execs.get(parsed.channel)?.cancel()
+      break
+    case 'forward:start':
+      connection.forwards.start(parsed.id)
+      break
+    case 'forward:stop':
+      connection.forwards.stop(parsed.id)
+      break
+    case 'key:install':
+      // Relative paths over SFTP start in the home directory; locally they wouldn't
+      if (connection.host !== 'local') connection.installKey(parsed.publicKey)
+      break
+  }
+}
+
+// WebSocket server for host connections, guarded by the login cookie. Upgrades
+// on the app path are routed to it by the HTTP server in index.ts.
+export function createWebSocketServer(): WebSocketServer {
+  const wss = new WebSocketServer({
+    noServer: true,
+    verifyClient: ({ req }, done) => {
+      if (!isSameOrigin(req) || isFromPreview(req)) {
+        done(false, 403, 'Forbidden')
+      } else if (!isAuthenticated(req)) {
+        done(false, 401, 'Unauthorized')
+      } else {
+        done(true)
+      }
+    },
+  })
+
+  wss.on('connection', (ws, req) => {
+    const parsedUrl = parse(req.url, true)
+    const hostName = String(parsedUrl.query.host || '')
+    const sessionId = parsedUrl.query.session ? String(parsedUrl.query.session) : null
+    // The Keys screen logs in with a password to install a key that isn't there yet
+    const passwordLogin = parsedUrl.query.login === 'password'
+    ws.send(JSON.stringify(serverHello(hostName === 'local' ? ptyBackend : 'ssh')))
+
+    // Reattach to a connection that survived a previous disconnect
+    let connection = findHostConnection(sessionId, hostName)
+    if (connection) {
+      log.info(`Reattaching connection ${sessionId} (${hostName})`)
+      connection.attach(ws)
+    } else {
+      connection = new HostConnection(sessionId, hostName)
+      connection.attach(ws)
+
+      if (hostName === 'local') {
+        // Local terminals + file operations
+        createLocalBackend(connection)
+      } else {
+        // One SSH client for all terminals + SFTP file operations
+        createSSHBackend(connection, hostName, passwordLogin)
+      }
+    }
+
+    ws.on('message', (message, isBinary) => handleConnectionMessage(ws, connection, message, isBinary))
+    ws.on('close', () => connection.detach(ws))
+  })
+
+  return wss
+}